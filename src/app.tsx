@@ -1,19 +1,84 @@
 import { Meta, MetaProvider, Title } from "@solidjs/meta";
-import { Router } from "@solidjs/router";
+import { A, Router } from "@solidjs/router";
 import { FileRoutes } from "@solidjs/start/router";
-import { Suspense } from "solid-js";
+import { For, Suspense } from "solid-js";
+import { Locales, localeNames } from "~/lib/i18n";
+import { I18nProvider, useI18n } from "~/lib/i18n/context";
+import { RatesProvider } from "~/lib/rates-configs/context";
 import "./app.css";
 
+function Navigation() {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <nav class="flex justify-center gap-4 p-4 text-sm font-medium print:hidden">
+            <A href="/" end activeClass="text-primary">
+                {t("nav.monthly")}
+            </A>
+            <A href="/annual" activeClass="text-primary">
+                {t("nav.annual")}
+            </A>
+            <A href="/compare" activeClass="text-primary">
+                {t("nav.compare")}
+            </A>
+            <A href="/jobs" activeClass="text-primary">
+                {t("nav.jobs")}
+            </A>
+            <A href="/premiums" activeClass="text-primary">
+                {t("nav.premiums")}
+            </A>
+            <A href="/contracts" activeClass="text-primary">
+                {t("nav.contracts")}
+            </A>
+            <A href="/bulk" activeClass="text-primary">
+                {t("nav.bulk")}
+            </A>
+            <A href="/rates" activeClass="text-primary">
+                {t("nav.rates")}
+            </A>
+            <A href="/scenario" activeClass="text-primary">
+                {t("nav.scenario")}
+            </A>
+            <A href="/curve" activeClass="text-primary">
+                {t("nav.curve")}
+            </A>
+            <fieldset class="flex gap-2" aria-label={t("nav.language")}>
+                <For each={Locales}>
+                    {(option) => (
+                        <button
+                            type="button"
+                            lang={option}
+                            classList={{ "text-primary": option === locale() }}
+                            aria-pressed={option === locale()}
+                            onClick={() => setLocale(option)}
+                        >
+                            {localeNames[option]}
+                        </button>
+                    )}
+                </For>
+            </fieldset>
+        </nav>
+    );
+}
+
+function AppTitle() {
+    const { t } = useI18n();
+    return <Title>{t("app.title")}</Title>;
+}
+
 export default function App() {
     return (
         <Router
             root={(props) => (
                 <MetaProvider>
-                    <Title>
-                        SalarySense - Full Salary Insight and Reporting
-                    </Title>
-                    <Meta name="theme-color" content="#006a6a" />
-                    <Suspense>{props.children}</Suspense>
+                    <I18nProvider>
+                        <AppTitle />
+                        <Meta name="theme-color" content="#006a6a" />
+                        <RatesProvider>
+                            <Navigation />
+                            <Suspense>{props.children}</Suspense>
+                        </RatesProvider>
+                    </I18nProvider>
                 </MetaProvider>
             )}
         >
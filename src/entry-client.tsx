@@ -1,5 +1,8 @@
 // @refresh reload
 import { mount, StartClient } from "@solidjs/start/client";
+import { applyPublishedRates } from "~/lib/rates-configs/context";
+
+applyPublishedRates();
 
 // biome-ignore lint: the app container will be created in the final output
 mount(() => <StartClient />, document.getElementById("app")!);
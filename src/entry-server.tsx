@@ -1,29 +1,73 @@
 // @refresh reload
 import { createHandler, StartServer } from "@solidjs/start/server";
+import { getRequestLocale } from "~/lib/i18n/context";
+import {
+    PUBLISHED_RATES_ID,
+    serializePublishedRates,
+    setPublishedRates,
+} from "~/lib/rates-configs/context";
+import { loadPublishedRates } from "~/lib/rates-configs/files";
+import type { PublishedRates } from "~/lib/rates-configs/types";
 
-export default createHandler(() => (
-    <StartServer
-        document={({ assets, children, scripts }) => (
-            <html lang="en">
-                <head>
-                    <meta charset="utf-8" />
-                    <meta
-                        name="viewport"
-                        content="width=device-width, initial-scale=1"
-                    />
-                    <link rel="icon" href="/favicon.svg" type="image/svg+xml" />
-                    <link rel="alternate icon" href="/favicon.ico" />
-                    <link rel="apple-touch-icon" href="/apple-touch-icon.png" />
-                    <link rel="manifest" href="/manifest.json" />
-                    {assets}
-                </head>
-                <body>
-                    <div id="app" class="h-full">
-                        {children}
-                    </div>
-                    {scripts}
-                </body>
-            </html>
-        )}
-    />
-));
+let appliedRates: PublishedRates | undefined;
+
+/**
+ * Applies the rates files published on the server on top of the bundled
+ * rates. The registry is only replaced when the published files change, not
+ * on every request; files with problems are skipped, logged once and listed
+ * on the rates page, and leave the bundled rates in place.
+ */
+function applyPublishedRates(): PublishedRates {
+    const published = loadPublishedRates();
+    if (published !== appliedRates) {
+        for (const error of published.errors) {
+            console.error(`Skipped published rates: ${error}`);
+        }
+        setPublishedRates(published);
+        appliedRates = published;
+    }
+    return published;
+}
+
+export default createHandler(() => {
+    const publishedRates = applyPublishedRates();
+
+    return (
+        <StartServer
+            document={({ assets, children, scripts }) => (
+                <html lang={getRequestLocale()}>
+                    <head>
+                        <meta charset="utf-8" />
+                        <meta
+                            name="viewport"
+                            content="width=device-width, initial-scale=1"
+                        />
+                        <link
+                            rel="icon"
+                            href="/favicon.svg"
+                            type="image/svg+xml"
+                        />
+                        <link rel="alternate icon" href="/favicon.ico" />
+                        <link
+                            rel="apple-touch-icon"
+                            href="/apple-touch-icon.png"
+                        />
+                        <link rel="manifest" href="/manifest.json" />
+                        {assets}
+                    </head>
+                    <body>
+                        <div id="app" class="h-full">
+                            {children}
+                        </div>
+                        <script
+                            type="application/json"
+                            id={PUBLISHED_RATES_ID}
+                            innerHTML={serializePublishedRates(publishedRates)}
+                        />
+                        {scripts}
+                    </body>
+                </html>
+            )}
+        />
+    );
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import {
+    calculateBulkPayroll,
+    parseBulkPayrollCsv,
+    serializeBulkPayrollCsv,
+} from "./bulk-payroll";
+import { parseCsv } from "./csv";
+import { getRates } from "./rates-configs";
+import { calculateSalary, finalizeSalary } from "./salary";
+
+describe("parseBulkPayrollCsv", () => {
+    it("should match columns case-insensitively and in any order", () => {
+        const result = parseBulkPayrollCsv(
+            "Amount,Name,TYPE,hours\n65000,Ana,gross,20\n",
+        );
+
+        expect(result).toEqual([
+            {
+                row: 1,
+                name: "Ana",
+                type: "gross",
+                amount: "65000",
+                year: undefined,
+                hours: "20",
+            },
+        ]);
+    });
+
+    it("should list every missing required column", () => {
+        expect(() => parseBulkPayrollCsv("name,year\nAna,2025")).toThrow(
+            "Missing CSV columns: type, amount",
+        );
+    });
+
+    it("should name the missing columns in the given language", () => {
+        expect(() => parseBulkPayrollCsv("name\nAna", "sq")).toThrow(
+            "Mungojnë kolonat CSV: type, amount",
+        );
+    });
+});
+
+describe("calculateBulkPayroll", () => {
+    it("should match the single salary calculation for every row", () => {
+        const result = calculateBulkPayroll(
+            parseBulkPayrollCsv(
+                "name,type,amount,year,hours\nAna,gross,65000,2025,\nMarko,net,40000,2024,20\n",
+            ),
+            2025,
+        );
+
+        expect(result.rows[0]).toMatchObject({
+            ok: true,
+            year: 2025,
+            salary: finalizeSalary(
+                calculateSalary(
+                    { type: "gross", amount: 65000, workFraction: 1 },
+                    getRates(2025),
+                ),
+            ),
+        });
+        expect(result.rows[1]).toMatchObject({
+            ok: true,
+            year: 2024,
+            salary: finalizeSalary(
+                calculateSalary(
+                    { type: "net", amount: 40000, workFraction: 0.5 },
+                    getRates(2024),
+                ),
+            ),
+        });
+    });
+
+    it("should report every error of a row and keep calculating the rest", () => {
+        const result = calculateBulkPayroll(
+            parseBulkPayrollCsv(
+                "name,type,amount,year,hours\nAna,yearly,65000,1999,50\nMarko,gross,abc,,\nIva,gross,65000,,\n",
+            ),
+            2025,
+        );
+
+        expect(result.rows[0]).toEqual({
+            row: 1,
+            name: "Ana",
+            ok: false,
+            errors: [
+                'Type must be "gross" or "net", got "yearly"',
+                "Rates for year 1999 not available",
+                "Hours must be more than 0 and at most 40",
+            ],
+        });
+        expect(result.rows[1]).toMatchObject({ row: 2, ok: false });
+        expect(result.rows[2]).toMatchObject({ row: 3, ok: true });
+    });
+
+    it("should write the errors in the given language", () => {
+        const result = calculateBulkPayroll(
+            parseBulkPayrollCsv("name,type,amount\nAna,gross,-1\n"),
+            2025,
+            "mk",
+        );
+
+        expect(result.rows[0]).toMatchObject({
+            ok: false,
+            errors: ["Износот не може да биде негативен"],
+        });
+    });
+
+    it("should total only the rows without errors", () => {
+        const result = calculateBulkPayroll(
+            parseBulkPayrollCsv(
+                "name,type,amount\nAna,gross,65000\nMarko,gross,abc\nIva,gross,80000\n",
+            ),
+            2025,
+        );
+        const salaries = result.rows.flatMap((row) =>
+            row.ok ? [row.salary] : [],
+        );
+
+        expect(salaries).toHaveLength(2);
+        expect(result.totals.gross).toBe(145000);
+        expect(result.totals.net).toBe(salaries[0].net + salaries[1].net);
+        expect(result.totals.totalCost).toBe(
+            salaries[0].employer.totalCost + salaries[1].employer.totalCost,
+        );
+    });
+});
+
+describe("serializeBulkPayrollCsv", () => {
+    const payroll = calculateBulkPayroll(
+        parseBulkPayrollCsv(
+            'name,type,amount\n"Petrovska, Ana",gross,65000\nMarko,gross,abc\nIva,gross,80000\n',
+        ),
+        2025,
+    );
+    const [header, ...rows] = parseCsv(serializeBulkPayrollCsv(payroll));
+
+    it("should write one row per employee and a totals row", () => {
+        expect(header[0]).toBe("name");
+        expect(header.at(-1)).toBe("errors");
+        expect(rows).toHaveLength(4);
+        expect(rows[0][0]).toBe("Petrovska, Ana");
+        expect(rows[3][0]).toBe("Total");
+    });
+
+    it("should list the errors of a row in the last column", () => {
+        expect(rows[1].at(-1)).not.toBe("");
+        expect(rows[1].slice(1, -1).every((field) => field === "")).toBe(true);
+    });
+
+    it("should escape names that a spreadsheet would run as formulas", () => {
+        const [, ...escaped] = parseCsv(
+            serializeBulkPayrollCsv(
+                calculateBulkPayroll(
+                    parseBulkPayrollCsv(
+                        'name,type,amount\n"=HYPERLINK(""x"")",gross,65000\n@Marko,gross,abc\n',
+                    ),
+                    2025,
+                ),
+            ),
+        );
+
+        expect(escaped[0][0]).toBe('\'=HYPERLINK("x")');
+        expect(escaped[1][0]).toBe("'@Marko");
+    });
+
+    it("should sum the breakdown columns in the totals row", () => {
+        const column = (name: string) => header.indexOf(name);
+
+        expect(Number(rows[3][column("gross")])).toBe(payroll.totals.gross);
+        expect(Number(rows[3][column("net")])).toBe(payroll.totals.net);
+        expect(Number(rows[3][column("incomeTax")])).toBe(
+            payroll.totals.incomeTax,
+        );
+        expect(Number(rows[3][column("totalCost")])).toBe(
+            payroll.totals.totalCost,
+        );
+        expect(rows[3][column("year")]).toBe("");
+    });
+});
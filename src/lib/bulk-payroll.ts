@@ -0,0 +1,310 @@
+import { escapeCsvFormula, parseCsv, serializeCsv } from "./csv";
+import { DEFAULT_LOCALE, type Locale, translate } from "./i18n";
+import { type PayrollTotals, sumPayrollTotals } from "./payroll";
+import {
+    type AvailableYear,
+    getDefaultYear,
+    getRates,
+    isAvailableYear,
+} from "./rates-configs";
+import {
+    calculateSalary,
+    type FinalizedSalaryBreakdown,
+    finalizeSalary,
+    type SalaryInput,
+} from "./salary";
+import {
+    getSalaryAmountErrorMessage,
+    validateSalaryAmount,
+} from "./validation";
+import { FULL_TIME_WEEKLY_HOURS, getWorkFraction } from "./work-time";
+
+const REQUIRED_COLUMNS = ["name", "type", "amount"] as const;
+const OPTIONAL_COLUMNS = ["year", "hours"] as const;
+
+type BulkPayrollColumn =
+    | (typeof REQUIRED_COLUMNS)[number]
+    | (typeof OPTIONAL_COLUMNS)[number];
+
+/**
+ * One employee row of an imported CSV, as written in the file. `row` is the
+ * 1-based position among the data rows.
+ */
+export type BulkPayrollRowInput = {
+    row: number;
+} & Record<(typeof REQUIRED_COLUMNS)[number], string> &
+    Partial<Record<(typeof OPTIONAL_COLUMNS)[number], string>>;
+
+export type BulkPayrollRow =
+    | {
+          row: number;
+          name: string;
+          ok: true;
+          year: AvailableYear;
+          input: SalaryInput;
+          salary: FinalizedSalaryBreakdown;
+      }
+    | { row: number; name: string; ok: false; errors: string[] };
+
+export type BulkPayrollTotals = PayrollTotals & { totalCost: number };
+
+export type BulkPayroll = {
+    rows: BulkPayrollRow[];
+    /** Totals of the rows without errors. */
+    totals: BulkPayrollTotals;
+};
+
+/**
+ * Reads employee rows from CSV text. The first line must be a header with
+ * the columns `name`, `type` (gross or net) and `amount`, and may add `year`
+ * and `hours` (weekly hours); column names are matched case-insensitively
+ * and in any order. Unknown columns are ignored.
+ *
+ * @param {string} text - CSV text.
+ * @param {Locale} locale - Language of the error message.
+ * @returns {BulkPayrollRowInput[]} One entry per data row.
+ * @throws {Error} Listing every required column the header is missing.
+ */
+export function parseBulkPayrollCsv(
+    text: string,
+    locale: Locale = DEFAULT_LOCALE,
+): BulkPayrollRowInput[] {
+    const [header = [], ...lines] = parseCsv(text);
+    const columns = header.map((column) => column.trim().toLowerCase());
+
+    const missing = REQUIRED_COLUMNS.filter(
+        (column) => !columns.includes(column),
+    );
+    if (missing.length > 0) {
+        throw new Error(
+            translate(locale, "bulk.missingColumns", {
+                columns: missing.join(", "),
+            }),
+        );
+    }
+
+    const field = (line: string[], column: BulkPayrollColumn) => {
+        const index = columns.indexOf(column);
+        return index === -1 ? undefined : (line[index] ?? "").trim();
+    };
+
+    return lines.map((line, index) => ({
+        row: index + 1,
+        name: field(line, "name") ?? "",
+        type: field(line, "type") ?? "",
+        amount: field(line, "amount") ?? "",
+        year: field(line, "year"),
+        hours: field(line, "hours"),
+    }));
+}
+
+function calculateRow(
+    input: BulkPayrollRowInput,
+    defaultYear: AvailableYear,
+    locale: Locale,
+): BulkPayrollRow {
+    const { row, name } = input;
+    const errors: string[] = [];
+
+    const type = input.type.toLowerCase();
+    if (type !== "gross" && type !== "net") {
+        errors.push(
+            translate(locale, "bulk.invalidType", { type: input.type }),
+        );
+    }
+
+    const year = input.year ? Number(input.year) : defaultYear;
+    if (!isAvailableYear(year)) {
+        errors.push(
+            translate(locale, "bulk.yearNotAvailable", {
+                year: input.year ?? "",
+            }),
+        );
+    }
+
+    const hours = input.hours ? Number(input.hours) : FULL_TIME_WEEKLY_HOURS;
+    if (!(hours > 0 && hours <= FULL_TIME_WEEKLY_HOURS)) {
+        errors.push(
+            translate(locale, "bulk.invalidHours", {
+                maximum: FULL_TIME_WEEKLY_HOURS,
+            }),
+        );
+    }
+
+    if (errors.length > 0 || !isAvailableYear(year)) {
+        return { row, name, ok: false, errors };
+    }
+
+    const salaryType = type as "gross" | "net";
+    const rates = getRates(year);
+    const workFraction = getWorkFraction(hours);
+    const amount = validateSalaryAmount(
+        input.amount,
+        salaryType,
+        rates,
+        workFraction,
+    );
+    if (!amount.ok) {
+        return {
+            row,
+            name,
+            ok: false,
+            errors: [getSalaryAmountErrorMessage(amount.error, locale)],
+        };
+    }
+
+    const salaryInput: SalaryInput = {
+        type: salaryType,
+        amount: amount.amount,
+        workFraction,
+    };
+
+    return {
+        row,
+        name,
+        ok: true,
+        year,
+        input: salaryInput,
+        salary: finalizeSalary(calculateSalary(salaryInput, rates)),
+    };
+}
+
+/**
+ * Calculates the rounded salary of every employee row and the totals of the
+ * rows without errors. A row with errors lists all of them and does not stop
+ * the other rows from being calculated.
+ *
+ * @param {BulkPayrollRowInput[]} inputs - Employee rows as read from the CSV.
+ * @param {AvailableYear} defaultYear - Year used for rows without a year (defaults to the current year).
+ * @param {Locale} locale - Language of the row errors.
+ * @returns {BulkPayroll} One result per row and the totals.
+ */
+export function calculateBulkPayroll(
+    inputs: BulkPayrollRowInput[],
+    defaultYear: AvailableYear = getDefaultYear(),
+    locale: Locale = DEFAULT_LOCALE,
+): BulkPayroll {
+    const rows = inputs.map((input) =>
+        calculateRow(input, defaultYear, locale),
+    );
+    const salaries = rows.flatMap((row) => (row.ok ? [row.salary] : []));
+
+    return {
+        rows,
+        totals: {
+            ...sumPayrollTotals(salaries),
+            totalCost: salaries.reduce(
+                (sum, salary) => sum + salary.employer.totalCost,
+                0,
+            ),
+        },
+    };
+}
+
+type CalculatedRow = Extract<BulkPayrollRow, { ok: true }>;
+
+type ExportColumn = {
+    header: string;
+    value: (row: CalculatedRow) => string | number;
+    /** Whether the totals row sums this column. */
+    summed?: boolean;
+};
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+    { header: "year", value: (row) => row.year },
+    { header: "type", value: (row) => row.input.type },
+    { header: "amount", value: (row) => row.input.amount },
+    { header: "gross", value: (row) => row.salary.gross, summed: true },
+    {
+        header: "contributionBase",
+        value: (row) => row.salary.contributions.base,
+        summed: true,
+    },
+    {
+        header: "pensionAndDisability",
+        value: (row) => row.salary.contributions.pensionAndDisability,
+        summed: true,
+    },
+    {
+        header: "healthInsurance",
+        value: (row) => row.salary.contributions.healthInsurance,
+        summed: true,
+    },
+    {
+        header: "unemploymentInsurance",
+        value: (row) => row.salary.contributions.unemploymentInsurance,
+        summed: true,
+    },
+    {
+        header: "additionalHealthInsurance",
+        value: (row) => row.salary.contributions.additionalHealthInsurance,
+        summed: true,
+    },
+    {
+        header: "contributions",
+        value: (row) => row.salary.contributions.total,
+        summed: true,
+    },
+    {
+        header: "taxableBase",
+        value: (row) => row.salary.tax.taxableBase,
+        summed: true,
+    },
+    {
+        header: "incomeTax",
+        value: (row) => row.salary.tax.incomeTax,
+        summed: true,
+    },
+    { header: "net", value: (row) => row.salary.net, summed: true },
+    {
+        header: "totalCost",
+        value: (row) => row.salary.employer.totalCost,
+        summed: true,
+    },
+];
+
+/**
+ * Serializes a bulk payroll as CSV with the full contribution and tax
+ * breakdown per employee, followed by a row with the column totals. Rows with
+ * errors keep their position and list the errors in the last column. Names
+ * and errors are escaped so spreadsheets do not run them as formulas.
+ *
+ * @param {BulkPayroll} payroll - Calculated bulk payroll.
+ * @returns {string} CSV text.
+ */
+export function serializeBulkPayrollCsv(payroll: BulkPayroll): string {
+    const calculated = payroll.rows.filter((row) => row.ok);
+
+    const rows = payroll.rows.map((row) =>
+        row.ok
+            ? [
+                  escapeCsvFormula(row.name),
+                  ...EXPORT_COLUMNS.map((column) => column.value(row)),
+                  "",
+              ]
+            : [
+                  escapeCsvFormula(row.name),
+                  ...EXPORT_COLUMNS.map(() => ""),
+                  escapeCsvFormula(row.errors.join("; ")),
+              ],
+    );
+
+    const totals = [
+        "Total",
+        ...EXPORT_COLUMNS.map((column) =>
+            column.summed
+                ? calculated.reduce(
+                      (sum, row) => sum + Number(column.value(row)),
+                      0,
+                  )
+                : "",
+        ),
+        "",
+    ];
+
+    return serializeCsv([
+        ["name", ...EXPORT_COLUMNS.map((column) => column.header), "errors"],
+        ...rows,
+        totals,
+    ]);
+}
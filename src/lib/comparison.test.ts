@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { compareSalaryAcrossYears, finalizeYearComparison } from "./comparison";
+import { AvailableYears, getRates } from "./rates-configs";
+import { calculateNetSalary } from "./salary";
+
+describe("compareSalaryAcrossYears", () => {
+    it("should calculate every configured year from oldest to newest", () => {
+        const result = compareSalaryAcrossYears({
+            type: "gross",
+            amount: 65000,
+        });
+
+        expect(result.map((row) => row.year)).toEqual(
+            [...AvailableYears].reverse(),
+        );
+        for (const row of result) {
+            expect(row.salary).toEqual(
+                calculateNetSalary(65000, getRates(row.year)),
+            );
+        }
+    });
+
+    it("should not report a delta for the oldest year", () => {
+        const result = compareSalaryAcrossYears({
+            type: "gross",
+            amount: 65000,
+        });
+
+        expect(result[0].delta).toBeNull();
+    });
+
+    it("should report deltas versus the previous year", () => {
+        const result = compareSalaryAcrossYears(
+            { type: "gross", amount: 65000 },
+            [2025, 2024],
+        );
+        const [previous, current] = result;
+
+        expect(current.delta).toEqual({
+            gross: 0,
+            net: current.salary.net - previous.salary.net,
+            contributions:
+                current.salary.contributions.total -
+                previous.salary.contributions.total,
+            incomeTax:
+                current.salary.tax.incomeTax - previous.salary.tax.incomeTax,
+        });
+        // A higher allowance lowers the tax on an unchanged gross
+        expect(current.delta?.incomeTax).toBeLessThan(0);
+        expect(current.delta?.net).toBeGreaterThan(0);
+    });
+
+    it("should keep the net unchanged when comparing a net amount", () => {
+        const result = compareSalaryAcrossYears(
+            { type: "net", amount: 50000 },
+            [2024, 2025],
+        );
+
+        expect(result[1].delta?.net).toBeCloseTo(0, 5);
+        expect(result[1].delta?.gross).toBeLessThan(0);
+    });
+});
+
+describe("finalizeYearComparison", () => {
+    it("should compute deltas from the rounded salaries", () => {
+        const result = finalizeYearComparison(
+            compareSalaryAcrossYears(
+                { type: "gross", amount: 65000.5 },
+                [2024, 2025],
+            ),
+        );
+
+        expect(result[1].delta?.net).toBe(
+            result[1].salary.net - result[0].salary.net,
+        );
+    });
+});
@@ -0,0 +1,101 @@
+import { getAvailableYears, getRates } from "./rates-configs";
+import {
+    calculateSalary,
+    finalizeSalary,
+    type SalaryBreakdown,
+    type SalaryInput,
+} from "./salary";
+
+/** Change in the main figures of a salary from one breakdown to another. */
+export type SalaryDelta = {
+    gross: number;
+    net: number;
+    contributions: number;
+    incomeTax: number;
+};
+
+export type YearComparisonDelta = SalaryDelta;
+
+export type YearComparison = {
+    year: number;
+    salary: SalaryBreakdown;
+    /** Change versus the previous year, or null for the oldest year. */
+    delta: YearComparisonDelta | null;
+};
+
+/**
+ * Returns how the gross, net, contributions and income tax change from one
+ * salary breakdown to another.
+ *
+ * @param {SalaryBreakdown} from - Breakdown to compare against.
+ * @param {SalaryBreakdown} to - Breakdown to compare.
+ * @returns {SalaryDelta} `to` minus `from` for every figure.
+ */
+export function getSalaryDelta(
+    from: SalaryBreakdown,
+    to: SalaryBreakdown,
+): SalaryDelta {
+    return {
+        gross: to.gross - from.gross,
+        net: to.net - from.net,
+        contributions: to.contributions.total - from.contributions.total,
+        incomeTax: to.tax.incomeTax - from.tax.incomeTax,
+    };
+}
+
+function withDeltas(rows: Omit<YearComparison, "delta">[]): YearComparison[] {
+    return rows.map((row, index) => {
+        const previous = rows[index - 1];
+        if (!previous) {
+            return { ...row, delta: null };
+        }
+
+        return {
+            ...row,
+            delta: getSalaryDelta(previous.salary, row.salary),
+        };
+    });
+}
+
+/**
+ * Calculates the same salary input with every year's rates and the change in
+ * gross, net, contributions and income tax versus the previous year.
+ *
+ * Values are returned as raw numbers (no rounding); use
+ * `finalizeYearComparison` for display.
+ *
+ * @param {SalaryInput} input - Salary input to calculate for every year.
+ * @param {readonly number[]} years - Years to compare (defaults to every available year).
+ * @returns {YearComparison[]} One entry per year, ordered from the oldest to the newest year.
+ */
+export function compareSalaryAcrossYears(
+    input: SalaryInput,
+    years: readonly number[] = getAvailableYears(),
+): YearComparison[] {
+    const rows = [...years]
+        .sort((a, b) => a - b)
+        .map((year) => ({
+            year,
+            salary: calculateSalary(input, getRates(year)),
+        }));
+
+    return withDeltas(rows);
+}
+
+/**
+ * Rounds every year's salary and recomputes the deltas from the rounded
+ * salaries, so the deltas always match the difference of the displayed values.
+ *
+ * @param {YearComparison[]} comparison - Raw year comparison.
+ * @returns {YearComparison[]} Rounded year comparison.
+ */
+export function finalizeYearComparison(
+    comparison: YearComparison[],
+): YearComparison[] {
+    return withDeltas(
+        comparison.map((row) => ({
+            year: row.year,
+            salary: finalizeSalary(row.salary),
+        })),
+    );
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+    ContractTypes,
+    calculateContract,
+    calculateContractGross,
+    calculateContractNet,
+    finalizeContract,
+} from "./contracts";
+import { DEFAULT_ROUNDING_POLICY } from "./money";
+import { getRates } from "./rates-configs";
+
+const RATES = getRates();
+
+describe("calculateContractNet", () => {
+    it("should deduct normed costs before contributions and tax", () => {
+        const rules = RATES.contracts.author;
+        const result = calculateContractNet(100000, "author", RATES);
+
+        const base = 100000 * (1 - rules.normedCosts);
+        const contributions =
+            base *
+            (rules.contributions.pensionAndDisability +
+                rules.contributions.healthInsurance);
+        const incomeTax = (base - contributions) * rules.taxRate;
+
+        expect(result.normedCosts).toBeCloseTo(100000 * rules.normedCosts, 5);
+        expect(result.contributions.base).toBeCloseTo(base, 5);
+        expect(result.contributions.total).toBeCloseTo(contributions, 5);
+        expect(result.tax.incomeTax).toBeCloseTo(incomeTax, 5);
+        expect(result.net).toBeCloseTo(100000 - contributions - incomeTax, 5);
+    });
+
+    it("should skip optional contributions when opted out", () => {
+        const result = calculateContractNet(100000, "author", RATES, {
+            withContributions: false,
+        });
+
+        expect(result.contributions.total).toBe(0);
+        expect(result.tax.taxableBase).toBe(result.contributions.base);
+    });
+
+    it("should keep mandatory contributions when opted out", () => {
+        const result = calculateContractNet(100000, "service", RATES, {
+            withContributions: false,
+        });
+
+        expect(result.contributions.total).toBeGreaterThan(0);
+    });
+});
+
+describe("calculateContractGross", () => {
+    it("should be reversible with calculateContractNet", () => {
+        for (const contract of ContractTypes) {
+            for (const withContributions of [true, false]) {
+                const options = { withContributions };
+                const netResult = calculateContractNet(
+                    75000,
+                    contract,
+                    RATES,
+                    options,
+                );
+                const derived = calculateContractGross(
+                    netResult.net,
+                    contract,
+                    RATES,
+                    options,
+                );
+
+                expect(derived.gross).toBeCloseTo(75000, 5);
+            }
+        }
+    });
+});
+
+describe("calculateContract", () => {
+    it("should dispatch on the input type", () => {
+        expect(
+            calculateContract({
+                type: "gross",
+                contract: "service",
+                amount: 50000,
+            }),
+        ).toEqual(calculateContractNet(50000, "service", RATES));
+        expect(
+            calculateContract({
+                type: "net",
+                contract: "service",
+                amount: 50000,
+            }),
+        ).toEqual(calculateContractGross(50000, "service", RATES));
+    });
+});
+
+describe("finalizeContract", () => {
+    it("should make the rounded breakdown add up", () => {
+        const result = finalizeContract(
+            calculateContractNet(33333.33, "author", RATES),
+        );
+
+        expect(result.contributions.total).toBe(
+            result.contributions.pensionAndDisability +
+                result.contributions.healthInsurance,
+        );
+        expect(result.net).toBe(
+            result.gross - result.contributions.total - result.tax.incomeTax,
+        );
+    });
+
+    it("should follow the rounding policy", () => {
+        const contract = calculateContractNet(33333.33, "author", RATES);
+        const down = finalizeContract(contract, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "down",
+            contributions: "down",
+        });
+        const up = finalizeContract(contract, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "up",
+            contributions: "up",
+        });
+
+        expect(down.gross).toBe(33333);
+        expect(up.gross).toBe(33334);
+        expect(up.contributions.total).toBeGreaterThan(
+            down.contributions.total,
+        );
+    });
+});
@@ -0,0 +1,195 @@
+import {
+    DEFAULT_ROUNDING_POLICY,
+    type Denars,
+    denars,
+    type RoundingPolicy,
+    sumDenars,
+    toDenars,
+} from "./money";
+import { getRates } from "./rates-configs";
+import type { ContractRules, RatesConfig } from "./rates-configs/types";
+
+export type ContractType = keyof RatesConfig["contracts"];
+
+export const ContractTypes: ContractType[] = ["author", "service"];
+
+export type ContractOptions = {
+    /**
+     * Whether contributions are paid (defaults to true). Ignored for contract
+     * types whose contributions are mandatory.
+     */
+    withContributions?: boolean;
+};
+
+export type ContractInput = {
+    type: "gross" | "net";
+    contract: ContractType;
+    amount: number;
+} & ContractOptions;
+
+export type ContractBreakdown<Amount extends number = number> = {
+    contract: ContractType;
+    gross: Amount;
+    normedCosts: Amount;
+    contributions: {
+        base: Amount;
+        pensionAndDisability: Amount;
+        healthInsurance: Amount;
+        total: Amount;
+    };
+    tax: {
+        taxableBase: Amount;
+        incomeTax: Amount;
+    };
+    net: Amount;
+};
+
+/** A contract breakdown rounded to whole denars, see `finalizeContract`. */
+export type FinalizedContractBreakdown = ContractBreakdown<Denars>;
+
+function hasContributions(
+    rules: ContractRules,
+    options: ContractOptions,
+): boolean {
+    return !rules.optionalContributions || (options.withContributions ?? true);
+}
+
+/**
+ * Converts a contract gross amount into the net amount paid out.
+ *
+ * - Deducts normed costs as `gross × normedCosts`.
+ * - Charges contributions on the gross less normed costs, unless the contract
+ *   type allows opting out and `withContributions` is false.
+ * - Applies the flat tax rate to the gross less normed costs and contributions.
+ * - Derives net = gross - contributions - incomeTax.
+ *
+ * @param {number} gross - Contract gross amount.
+ * @param {ContractType} contract - Contract type whose rules apply.
+ * @param {RatesConfig} rates - Rates object containing `contracts`.
+ * @param {ContractOptions} options - Contract options (contributions opt-out).
+ * @returns {ContractBreakdown} Contract breakdown (no rounding).
+ */
+export function calculateContractNet(
+    gross: number,
+    contract: ContractType,
+    rates: RatesConfig,
+    options: ContractOptions = {},
+): ContractBreakdown {
+    const rules = rates.contracts[contract];
+
+    const normedCosts = gross * rules.normedCosts;
+    const base = gross - normedCosts;
+    const pensionAndDisability = hasContributions(rules, options)
+        ? base * rules.contributions.pensionAndDisability
+        : 0;
+    const healthInsurance = hasContributions(rules, options)
+        ? base * rules.contributions.healthInsurance
+        : 0;
+    const totalContributions = pensionAndDisability + healthInsurance;
+
+    const taxableBase = Math.max(0, base - totalContributions);
+    const incomeTax = taxableBase * rules.taxRate;
+
+    return {
+        contract,
+        gross,
+        normedCosts,
+        contributions: {
+            base,
+            pensionAndDisability,
+            healthInsurance,
+            total: totalContributions,
+        },
+        tax: {
+            taxableBase,
+            incomeTax,
+        },
+        net: gross - totalContributions - incomeTax,
+    };
+}
+
+/**
+ * Derives the contract gross amount that results in the given net amount.
+ *
+ * Every deduction is a fixed share of the gross, so net is proportional to
+ * gross and the gross is found by dividing by the net share of a gross of 1.
+ *
+ * @param {number} net - Target net amount.
+ * @param {ContractType} contract - Contract type whose rules apply.
+ * @param {RatesConfig} rates - Rates object containing `contracts`.
+ * @param {ContractOptions} options - Contract options (contributions opt-out).
+ * @returns {ContractBreakdown} Contract breakdown for the computed gross amount.
+ */
+export function calculateContractGross(
+    net: number,
+    contract: ContractType,
+    rates: RatesConfig,
+    options: ContractOptions = {},
+): ContractBreakdown {
+    const netShare = calculateContractNet(1, contract, rates, options).net;
+
+    return calculateContractNet(net / netShare, contract, rates, options);
+}
+
+/**
+ * Calculates a contract conversion and breakdown in either direction.
+ *
+ * @param input - Object specifying the type ("gross" | "net"), the contract type, the amount and the options.
+ * @param rates - Rates object containing `contracts`.
+ * @returns An object containing gross, normed costs, contributions, tax and net for the contract.
+ */
+export function calculateContract(
+    input: ContractInput,
+    rates: RatesConfig = getRates(),
+): ContractBreakdown {
+    const { type, contract, amount, ...options } = input;
+
+    if (type === "gross") {
+        return calculateContractNet(amount, contract, rates, options);
+    }
+
+    return calculateContractGross(amount, contract, rates, options);
+}
+
+/**
+ * Rounds a contract breakdown to whole denars following a rounding policy.
+ * Totals are the sums of the rounded lines, and net is derived from them so
+ * the breakdown adds up.
+ *
+ * @param {ContractBreakdown} contract - Unrounded contract breakdown.
+ * @param {RoundingPolicy} policy - Rounding policy (defaults to the UJP and PIOM rules).
+ * @returns {FinalizedContractBreakdown} The finalized contract breakdown.
+ */
+export function finalizeContract(
+    contract: ContractBreakdown,
+    policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+): FinalizedContractBreakdown {
+    const gross = toDenars(contract.gross, policy.amounts);
+    const pensionAndDisability = toDenars(
+        contract.contributions.pensionAndDisability,
+        policy.contributions,
+    );
+    const healthInsurance = toDenars(
+        contract.contributions.healthInsurance,
+        policy.contributions,
+    );
+    const total = sumDenars([pensionAndDisability, healthInsurance]);
+    const incomeTax = toDenars(contract.tax.incomeTax, policy.incomeTax);
+
+    return {
+        contract: contract.contract,
+        gross,
+        normedCosts: toDenars(contract.normedCosts, policy.amounts),
+        contributions: {
+            base: toDenars(contract.contributions.base, policy.amounts),
+            pensionAndDisability,
+            healthInsurance,
+            total,
+        },
+        tax: {
+            taxableBase: toDenars(contract.tax.taxableBase, policy.amounts),
+            incomeTax,
+        },
+        net: denars(gross - total - incomeTax),
+    };
+}
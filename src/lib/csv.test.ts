@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvFormula, parseCsv, serializeCsv } from "./csv";
+
+describe("parseCsv", () => {
+    it("should split lines and fields", () => {
+        expect(parseCsv("a,b\n1,2\n")).toEqual([
+            ["a", "b"],
+            ["1", "2"],
+        ]);
+    });
+
+    it("should accept CRLF line endings and skip blank lines", () => {
+        expect(parseCsv("a,b\r\n\r\n1,2")).toEqual([
+            ["a", "b"],
+            ["1", "2"],
+        ]);
+    });
+
+    it("should keep commas, line breaks and escaped quotes in quoted fields", () => {
+        expect(parseCsv('"Petrovska, Ana","line\nbreak","say ""hi"""')).toEqual(
+            [["Petrovska, Ana", "line\nbreak", 'say "hi"']],
+        );
+    });
+
+    it("should keep empty fields", () => {
+        expect(parseCsv("a,,c\n,,")).toEqual([
+            ["a", "", "c"],
+            ["", "", ""],
+        ]);
+    });
+});
+
+describe("serializeCsv", () => {
+    it("should quote fields only when needed", () => {
+        expect(
+            serializeCsv([
+                ["name", "amount"],
+                ["Petrovska, Ana", 65000],
+                ['say "hi"', 1],
+            ]),
+        ).toBe('name,amount\r\n"Petrovska, Ana",65000\r\n"say ""hi""",1');
+    });
+
+    it("should round-trip through parseCsv", () => {
+        const rows = [
+            ["a", "b,c", 'd"e'],
+            ["f\ng", "", "h"],
+        ];
+
+        expect(parseCsv(serializeCsv(rows))).toEqual(rows);
+    });
+});
+
+describe("escapeCsvFormula", () => {
+    it("should prefix text a spreadsheet would run as a formula", () => {
+        expect(escapeCsvFormula("=SUM(A1:A2)")).toBe("'=SUM(A1:A2)");
+        expect(escapeCsvFormula("+389")).toBe("'+389");
+        expect(escapeCsvFormula("-1")).toBe("'-1");
+        expect(escapeCsvFormula("@cmd")).toBe("'@cmd");
+    });
+
+    it("should keep other text unchanged", () => {
+        expect(escapeCsvFormula("Ana = Petrovska")).toBe("Ana = Petrovska");
+        expect(escapeCsvFormula("")).toBe("");
+    });
+});
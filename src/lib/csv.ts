@@ -0,0 +1,85 @@
+/**
+ * Parses CSV text (RFC 4180) into rows of fields. Fields may be quoted with
+ * double quotes, in which case they can contain commas, line breaks and
+ * escaped quotes (""). Both LF and CRLF line endings are accepted, and blank
+ * lines are skipped.
+ *
+ * @param {string} text - CSV text.
+ * @returns {string[][]} One array of fields per non-blank line.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== "") {
+            rows.push(row);
+        }
+        row = [];
+        field = "";
+    };
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n") {
+            endRow();
+        } else if (char !== "\r") {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
+
+function escapeCsvField(field: string): string {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Prefixes text that a spreadsheet would run as a formula (starting with "=",
+ * "+", "-", "@", a tab or a carriage return) with "'", so it is shown as
+ * text. Use it for free text such as names, not for numbers.
+ *
+ * @param {string} text - Text to write to a CSV field.
+ * @returns {string} The text, safe to open in a spreadsheet.
+ */
+export function escapeCsvFormula(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Serializes rows of fields as CSV text with CRLF line endings, quoting
+ * fields that contain commas, quotes or line breaks.
+ *
+ * @param {(string | number)[][]} rows - Rows of fields.
+ * @returns {string} CSV text.
+ */
+export function serializeCsv(rows: (string | number)[][]): string {
+    return rows
+        .map((row) =>
+            row.map((field) => escapeCsvField(String(field))).join(","),
+        )
+        .join("\r\n");
+}
@@ -0,0 +1,28 @@
+/**
+ * Saves data as a file through the browser's download prompt.
+ *
+ * @param {Uint8Array | string} data - File contents.
+ * @param {string} type - MIME type of the file.
+ * @param {string} filename - Suggested file name.
+ */
+export function downloadFile(
+    data: Uint8Array | string,
+    type: string,
+    filename: string,
+) {
+    const url = URL.createObjectURL(
+        new Blob(
+            [
+                typeof data === "string"
+                    ? data
+                    : (data as Uint8Array<ArrayBuffer>),
+            ],
+            { type },
+        ),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
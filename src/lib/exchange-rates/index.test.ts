@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+    findExchangeRate,
+    fromMkd,
+    getExchangeRate,
+    getExchangeRateDate,
+    isCurrency,
+    toMkd,
+} from ".";
+import { NBRM_RATES } from "./nbrm";
+
+const TABLE = [
+    { date: "2025-01-01", rates: { EUR: 61.5, USD: 59, CHF: 65 } },
+    { date: "2025-07-01", rates: { EUR: 61.6, USD: 53, CHF: 66 } },
+];
+
+describe("getExchangeRate", () => {
+    it("should always return 1 for MKD", () => {
+        expect(getExchangeRate("MKD", new Date(1990, 0, 1))).toBe(1);
+    });
+
+    it("should use the newest entry in effect on the date", () => {
+        expect(getExchangeRate("USD", new Date(2025, 5, 30), TABLE)).toBe(59);
+        expect(getExchangeRate("USD", new Date(2025, 6, 1), TABLE)).toBe(53);
+        expect(getExchangeRate("EUR", new Date(2030, 0, 1), TABLE)).toBe(61.6);
+    });
+
+    it("should throw before the first entry", () => {
+        expect(() =>
+            getExchangeRate("EUR", new Date(2024, 11, 31), TABLE),
+        ).toThrow("Exchange rate for EUR on 2024-12-31 not available");
+    });
+
+    it("should keep the bundled table ordered by date", () => {
+        const dates = NBRM_RATES.map((entry) => entry.date);
+        expect(dates).toEqual([...dates].sort());
+    });
+});
+
+describe("findExchangeRate", () => {
+    it("should find nothing before the first entry", () => {
+        expect(
+            findExchangeRate("EUR", new Date(2024, 11, 31), TABLE),
+        ).toBeUndefined();
+        expect(findExchangeRate("MKD", new Date(2024, 11, 31), TABLE)).toBe(1);
+        expect(findExchangeRate("EUR", new Date(2025, 0, 1), TABLE)).toBe(61.5);
+    });
+});
+
+describe("getExchangeRateDate", () => {
+    it("should use today in the current year and year end before it", () => {
+        const today = new Date(2026, 3, 15);
+
+        expect(getExchangeRateDate(2026, today)).toBe(today);
+        expect(getExchangeRateDate(2024, today)).toEqual(
+            new Date(2024, 11, 31),
+        );
+    });
+});
+
+describe("toMkd / fromMkd", () => {
+    it("should convert both ways", () => {
+        const date = new Date(2025, 3, 1);
+        const rate = getExchangeRate("EUR", date);
+
+        expect(toMkd(1000, "EUR", date)).toBeCloseTo(1000 * rate, 5);
+        expect(fromMkd(toMkd(1000, "EUR", date), "EUR", date)).toBeCloseTo(
+            1000,
+            5,
+        );
+    });
+});
+
+describe("isCurrency", () => {
+    it("should only accept supported currencies", () => {
+        expect(isCurrency("EUR")).toBe(true);
+        expect(isCurrency("GBP")).toBe(false);
+    });
+});
@@ -0,0 +1,90 @@
+import { toIsoDate } from "../rates-configs";
+import { NBRM_RATES } from "./nbrm";
+import { Currencies, type Currency, type ExchangeRateEntry } from "./types";
+
+export { Currencies, type Currency, type ForeignCurrency } from "./types";
+
+export function isCurrency(value: string): value is Currency {
+    return (Currencies as readonly string[]).includes(value);
+}
+
+/**
+ * Finds the MKD value of one unit of `currency` on the given date, taken
+ * from the newest table entry that is in effect on that date.
+ *
+ * @param {Currency} currency - Currency to convert from; MKD is always 1.
+ * @param {Date} date - Date the rate is needed for.
+ * @param {ExchangeRateEntry[]} table - Exchange rates ordered by date (defaults to the bundled NBRM rates).
+ * @returns {number | undefined} MKD per one unit of the currency, or `undefined` before the first entry.
+ */
+export function findExchangeRate(
+    currency: Currency,
+    date: Date,
+    table: ExchangeRateEntry[] = NBRM_RATES,
+): number | undefined {
+    if (currency === "MKD") return 1;
+
+    const isoDate = toIsoDate(date);
+    return table.findLast((entry) => entry.date <= isoDate)?.rates[currency];
+}
+
+/**
+ * Returns the MKD value of one unit of `currency` on the given date, see
+ * `findExchangeRate`.
+ *
+ * @param {Currency} currency - Currency to convert from; MKD is always 1.
+ * @param {Date} date - Date the rate is needed for.
+ * @param {ExchangeRateEntry[]} table - Exchange rates ordered by date (defaults to the bundled NBRM rates).
+ * @returns {number} MKD per one unit of the currency.
+ * @throws {Error} When the table has no rate in effect on that date.
+ */
+export function getExchangeRate(
+    currency: Currency,
+    date: Date,
+    table: ExchangeRateEntry[] = NBRM_RATES,
+): number {
+    const rate = findExchangeRate(currency, date, table);
+
+    if (rate === undefined) {
+        throw new Error(
+            `Exchange rate for ${currency} on ${toIsoDate(date)} not available`,
+        );
+    }
+
+    return rate;
+}
+
+/**
+ * Returns the date exchange rates are taken from for a calculation in the
+ * given year: today for the current year, and the last day of the year for
+ * past years.
+ *
+ * @param {number} year - Year of the calculation.
+ * @param {Date} today - Current date (defaults to now).
+ * @returns {Date} Date to look up exchange rates for.
+ */
+export function getExchangeRateDate(
+    year: number,
+    today: Date = new Date(),
+): Date {
+    const endOfYear = new Date(year, 11, 31);
+    return endOfYear < today ? endOfYear : today;
+}
+
+/**
+ * Converts an amount in `currency` to MKD (no rounding).
+ */
+export function toMkd(amount: number, currency: Currency, date: Date): number {
+    return amount * getExchangeRate(currency, date);
+}
+
+/**
+ * Converts an MKD amount to `currency` (no rounding).
+ */
+export function fromMkd(
+    amount: number,
+    currency: Currency,
+    date: Date,
+): number {
+    return amount / getExchangeRate(currency, date);
+}
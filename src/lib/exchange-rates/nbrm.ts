@@ -0,0 +1,15 @@
+import type { ExchangeRateEntry } from "./types";
+
+/**
+ * NBRM middle exchange rates, ordered by date. To update offline, append an
+ * entry with the rates from the NBRM exchange rate list of that date.
+ */
+export const NBRM_RATES: ExchangeRateEntry[] = [
+    { date: "2020-01-01", rates: { EUR: 61.6943, USD: 54.9546, CHF: 56.7917 } },
+    { date: "2021-01-01", rates: { EUR: 61.694, USD: 50.2353, CHF: 57.0218 } },
+    { date: "2022-01-01", rates: { EUR: 61.627, USD: 54.3782, CHF: 59.5028 } },
+    { date: "2023-01-01", rates: { EUR: 61.4932, USD: 57.6442, CHF: 62.2508 } },
+    { date: "2024-01-01", rates: { EUR: 61.495, USD: 55.6731, CHF: 66.1397 } },
+    { date: "2025-01-01", rates: { EUR: 61.495, USD: 59.1323, CHF: 65.3781 } },
+    { date: "2026-01-01", rates: { EUR: 61.495, USD: 52.4014, CHF: 66.0392 } },
+];
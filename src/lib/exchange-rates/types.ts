@@ -0,0 +1,14 @@
+export const Currencies = ["MKD", "EUR", "USD", "CHF"] as const;
+
+export type Currency = (typeof Currencies)[number];
+
+export type ForeignCurrency = Exclude<Currency, "MKD">;
+
+/**
+ * NBRM middle exchange rates in effect from `date` (an ISO calendar date,
+ * YYYY-MM-DD) until the next entry, as MKD per one unit of each currency.
+ */
+export interface ExchangeRateEntry {
+    date: string;
+    rates: Record<ForeignCurrency, number>;
+}
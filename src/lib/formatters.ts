@@ -1,3 +1,6 @@
+import type { Currency } from "./exchange-rates";
+import { DEFAULT_LOCALE, intlLocales, type Locale } from "./i18n";
+
 export const mkdFormatter = new Intl.NumberFormat("mk-MK", {
     style: "currency",
     currency: "MKD",
@@ -11,3 +14,96 @@ export function formatMkd(value: number | null | undefined) {
     if (/MKD/.test(formatted)) return formatted.replace(/MKD/g, "ден.");
     return `${formatted} ден.`;
 }
+
+const moneyFormatters = new Map<Currency, Intl.NumberFormat>();
+
+function getMoneyFormatter(currency: Currency): Intl.NumberFormat {
+    let formatter = moneyFormatters.get(currency);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat("mk-MK", {
+            style: "currency",
+            currency,
+        });
+        moneyFormatters.set(currency, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Formats an amount in any supported currency. MKD amounts are formatted
+ * exactly like `formatMkd`.
+ */
+export function formatMoney(
+    value: number | null | undefined,
+    currency: Currency = "MKD",
+) {
+    if (currency === "MKD") return formatMkd(value);
+    if (value == null || Number.isNaN(Number(value))) return "";
+    return getMoneyFormatter(currency).format(Number(value));
+}
+
+const payPeriodFormatters = new Map<Locale, Intl.DateTimeFormat>();
+
+export function formatPayPeriod(
+    period: { year: number; month: number },
+    locale: Locale = DEFAULT_LOCALE,
+) {
+    let formatter = payPeriodFormatters.get(locale);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat(intlLocales[locale], {
+            month: "long",
+            year: "numeric",
+        });
+        payPeriodFormatters.set(locale, formatter);
+    }
+    return formatter.format(new Date(period.year, period.month - 1));
+}
+
+const monthFormatters = new Map<Locale, Intl.DateTimeFormat>();
+
+export function formatMonth(month: number, locale: Locale = DEFAULT_LOCALE) {
+    let formatter = monthFormatters.get(locale);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat(intlLocales[locale], {
+            month: "long",
+        });
+        monthFormatters.set(locale, formatter);
+    }
+    return formatter.format(new Date(2000, month - 1));
+}
+
+export function formatMkdDelta(value: number | null | undefined) {
+    if (value == null || Number.isNaN(Number(value))) return "";
+    const formatted = formatMkd(Math.abs(value));
+    if (value > 0) return `+${formatted}`;
+    if (value < 0) return `−${formatted}`;
+    return formatted;
+}
+
+const percentFormatters = new Map<Locale, Intl.NumberFormat>();
+
+export function formatPercent(value: number, locale: Locale = DEFAULT_LOCALE) {
+    let formatter = percentFormatters.get(locale);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(intlLocales[locale], {
+            style: "percent",
+            maximumFractionDigits: 2,
+        });
+        percentFormatters.set(locale, formatter);
+    }
+    return formatter.format(value);
+}
+
+const compactFormatters = new Map<Locale, Intl.NumberFormat>();
+
+/** Formats a number in short form, e.g. 150K, for chart axes. */
+export function formatCompact(value: number, locale: Locale = DEFAULT_LOCALE) {
+    let formatter = compactFormatters.get(locale);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(intlLocales[locale], {
+            notation: "compact",
+        });
+        compactFormatters.set(locale, formatter);
+    }
+    return formatter.format(value);
+}
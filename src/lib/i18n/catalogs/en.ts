@@ -0,0 +1,270 @@
+export const en = {
+    "app.title": "SalarySense - Full Salary Insight and Reporting",
+    "nav.monthly": "Monthly",
+    "nav.annual": "Annual",
+    "nav.compare": "Compare years",
+    "nav.jobs": "Multiple jobs",
+    "nav.premiums": "Premiums",
+    "nav.contracts": "Contracts",
+    "nav.bulk": "Bulk payroll",
+    "nav.rates": "Rates",
+    "nav.scenario": "What-if",
+    "nav.curve": "Net curve",
+    "nav.language": "Language",
+
+    "mode.gross": "Gross",
+    "mode.net": "Net",
+    "mode.totalCost": "Total cost",
+    "mode.hourly": "Hourly",
+    "modeLabel.gross": "gross salary",
+    "modeLabel.net": "net salary",
+    "modeLabel.totalCost": "total cost to the employer",
+    "modeLabel.hourly": "gross hourly rate",
+
+    "benefit.annualLeave": "Annual leave allowance (regres)",
+    "benefit.meal": "Meal allowance",
+    "benefit.transport": "Transport reimbursement",
+    "benefit.jubilee": "Jubilee bonus",
+
+    "contribution.pensionAndDisability": "Pension and disability: {amount}",
+    "contribution.healthInsurance": "Health insurance: {amount}",
+    "contribution.unemploymentInsurance": "Unemployment insurance: {amount}",
+    "contribution.additionalHealthInsurance":
+        "Additional health insurance: {amount}",
+
+    "home.title": "SalarySense",
+    "home.amount": "Amount",
+    "home.amountHint": "Enter your {mode} in {currency}",
+    "home.useMinimumWage": "Use minimum wage",
+    "home.currency": "Currency",
+    "home.exchangeRate": "1 {currency} = {rate} (NBRM, {date})",
+    "home.noExchangeRate": "No NBRM {currency} rate is available for {year}",
+    "home.weeklyHours": "Weekly hours",
+    "home.fte": "{value} FTE",
+    "home.year": "Year",
+    "home.benefit": "Benefit",
+    "home.benefitAmount": "Benefit amount",
+    "home.benefitExemptLimit": "Exempt up to {amount} a year",
+    "home.removeBenefit": "Remove",
+    "home.addBenefit": "Add benefit",
+    "home.ratesYear": "Calculated with the rates for {year}",
+    "home.gross": "Your gross salary is: {amount}",
+    "home.net": "Your net salary is: {amount}",
+    "home.perHour": "Per hour: {gross} gross, {net} net",
+    "home.totalContributions": "Total contributions: {amount}",
+    "home.totalTax": "Total tax: {amount}",
+    "home.contributionBase": "Contribution base: {amount}",
+    "home.raisedToMinimumBase": " (raised to the minimum base)",
+    "home.cappedAtMaximumBase": " (capped at the maximum base)",
+    "home.taxableBase": "Taxable base: {amount}",
+    "home.bracketTax": "Tax at {rate} on {amount}: {tax}",
+    "home.incomeTax": "Income tax: {amount}",
+    "home.benefitSplit":
+        "{label}: {amount} ({exempt} exempt, {taxable} taxable)",
+    "home.totalBenefits": "Total benefits: {amount}",
+    "home.benefitsExemptTaxable": "Exempt: {exempt}, taxable: {taxable}",
+    "home.employerCharge": "{name}: {amount}",
+    "home.totalEmployerCharges": "Total employer charges: {amount}",
+    "home.totalCost": "Total cost to the employer: {amount}",
+    "home.payslip": "Open payslip",
+
+    "label.amount": "Amount",
+    "label.year": "Year",
+    "label.month": "Month",
+    "label.gross": "Gross",
+    "label.net": "Net",
+    "label.contributions": "Contributions",
+    "label.pensionAndDisability": "Pension and disability",
+    "label.healthInsurance": "Health insurance",
+    "label.unemploymentInsurance": "Unemployment insurance",
+    "label.additionalHealthInsurance": "Additional health insurance",
+    "label.totalContributions": "Total contributions",
+    "label.taxableBase": "Taxable base",
+    "label.incomeTax": "Income tax",
+    "label.total": "Total",
+
+    "result.gross": "Gross: {amount}",
+    "result.net": "Net: {amount}",
+    "result.contributionBase": "Contribution base: {amount}",
+    "result.totalContributions": "Total contributions: {amount}",
+    "result.taxableBase": "Taxable base: {amount}",
+    "result.incomeTax": "Income tax: {amount}",
+
+    "annual.title": "Annual salary - SalarySense",
+    "annual.startYear": "Start year",
+    "annual.startMonth": "Start month",
+    "annual.fillDown": "Fill down",
+    "annual.missingRates": "Rates for {period} are not available yet.",
+
+    "compare.title": "Compare years - SalarySense",
+    "compare.amountHint.gross": "Enter the gross salary to compare",
+    "compare.amountHint.net": "Enter the net salary to compare",
+    "compare.netDelta": "Net vs. previous year",
+    "compare.contributionsDelta": "Contributions vs. previous year",
+    "compare.taxDelta": "Tax vs. previous year",
+
+    "jobs.title": "Multiple jobs - SalarySense",
+    "jobs.job": "Job {number}",
+    "jobs.primary": "Primary job, allowance applied",
+    "jobs.secondary": "Secondary job, no allowance",
+    "jobs.makePrimary": "Make primary",
+    "jobs.remove": "Remove",
+    "jobs.add": "Add job",
+    "jobs.result": "Job {number}: {gross} gross, {net} net",
+    "jobs.combinedGross": "Combined gross: {amount}",
+    "jobs.combinedContributions": "Combined contributions: {amount}",
+    "jobs.combinedIncomeTax": "Combined income tax: {amount}",
+    "jobs.combinedNet": "Combined net: {amount}",
+
+    "premiums.title": "Overtime and premiums - SalarySense",
+    "premiums.baseGross": "Base gross",
+    "premiums.baseGrossHint": "Monthly gross for the contracted hours",
+    "premiums.kind.base": "Base pay",
+    "premiums.kind.overtime": "Overtime",
+    "premiums.kind.night": "Night work",
+    "premiums.kind.holiday": "Public holiday work",
+    "premiums.kind.sunday": "Sunday work",
+    "premiums.hours": "{kind} hours",
+    "premiums.supplementHint": "+{supplement} of the hourly rate",
+    "premiums.line": "{kind}: {hours} h × {rate} = {amount}",
+    "premiums.lineWithSupplement":
+        "{kind}: {hours} h × {rate} (+{supplement}) = {amount}",
+
+    "contracts.title": "Contract income - SalarySense",
+    "contracts.contract": "Contract",
+    "contracts.type.author": "Author contract",
+    "contracts.type.service": "Service contract",
+    "contracts.rules": "{normedCosts} normed costs, {taxRate} income tax",
+    "contracts.contributions": "Contributions",
+    "contracts.paid": "Paid",
+    "contracts.notPaid": "Not paid",
+    "contracts.amountHint.gross": "Enter the gross contract amount",
+    "contracts.amountHint.net": "Enter the net contract amount",
+    "contracts.normedCosts": "Normed costs: {amount}",
+
+    "bulk.title": "Bulk payroll - SalarySense",
+    "bulk.file": "CSV file",
+    "bulk.fileHint":
+        "Columns: name, type (gross or net), amount, and optionally year and hours",
+    "bulk.yearHint": "Used for rows without a year",
+    "bulk.row": "Row",
+    "bulk.name": "Name",
+    "bulk.totalCost": "Total cost",
+    "bulk.export": "Export CSV",
+    "bulk.missingColumns": "Missing CSV columns: {columns}",
+    "bulk.invalidType": 'Type must be "gross" or "net", got "{type}"',
+    "bulk.yearNotAvailable": "Rates for year {year} not available",
+    "bulk.invalidHours": "Hours must be more than 0 and at most {maximum}",
+
+    "rates.title": "Rates - SalarySense",
+    "rates.file": "Rates file",
+    "rates.fileHint":
+        "JSON with one rates period or a list of them, each with from, to and rates",
+    "rates.downloadTemplate": "Download template",
+    "rates.removeUploaded": "Remove uploaded rates",
+    "rates.from": "From",
+    "rates.to": "To",
+    "rates.source": "Source",
+    "rates.source.uploaded": "Uploaded",
+    "rates.source.bundled": "Bundled",
+    "rates.source.published": "Published",
+    "rates.allowance": "Allowance",
+    "rates.averageWage": "Average wage",
+
+    "scenario.title": "What-if rates - SalarySense",
+    "scenario.officialRates": "Official rates",
+    "scenario.officialRatesHint": "The scenario starts from this year's rates",
+    "scenario.percent": "{label} (%)",
+    "scenario.official": "Official: {value}",
+    "scenario.incomeTaxBracket": "Income tax, bracket {number}",
+    "scenario.allowance": "Tax-free allowance (MKD)",
+    "scenario.allowancePlaceholder": "Tax-free allowance",
+    "scenario.notANumber": "Enter a number",
+    "scenario.reset": "Reset to official rates",
+    "scenario.copyLink": "Copy link",
+    "scenario.linkCopied": "Link copied",
+    "scenario.link": "Link to this scenario",
+    "scenario.copyLinkFailed": "Copying failed, copy the link yourself",
+    "scenario.problems": "These rates cannot be calculated:",
+    "scenario.problem.contributionRate": "{label} must be from 0% to 100%",
+    "scenario.problem.totalContributions":
+        "Contributions must add up to less than 100%, got {total}",
+    "scenario.problem.taxRate":
+        "Income tax, bracket {number} must be from 0% to below 100%",
+    "scenario.problem.negativeAllowance":
+        "The tax-free allowance cannot be negative",
+    "scenario.officialYear": "Official {year}",
+    "scenario.scenario": "Scenario",
+    "scenario.change": "Change",
+    "scenario.totalCost": "Total cost to the employer",
+
+    "curve.title": "Net salary curve - SalarySense",
+    "curve.grossFrom": "Gross from",
+    "curve.grossTo": "Gross to",
+    "curve.rangeError": "Must be more than the gross it starts from",
+    "curve.netVsGross": "Net vs gross",
+    "curve.deductionRates": "Deduction rates",
+    "curve.effectiveRate": "Effective deduction rate",
+    "curve.marginalRate": "Marginal rate",
+    "curve.marker.contributionFloor": "Contribution floor",
+    "curve.marker.contributionCeiling": "Contribution ceiling",
+    "curve.marker.thresholdGross": "Income tax starts",
+    "curve.marker.bracket": "Tax bracket {number} starts",
+    "curve.markerTitle": "{label}: {amount}",
+    "curve.markerGross": "{label}: {amount} gross",
+    "curve.pointHint": "Point at a chart to see the breakdown at that gross.",
+    "curve.contributionBase": "Contribution base",
+    "curve.bound.floor": "Contribution base (minimum)",
+    "curve.bound.ceiling": "Contribution base (maximum)",
+
+    "rates.publishedProblems": "These published rates files were skipped:",
+
+    "payslip.title": "Payslip - SalarySense",
+    "payslip.noSalary": "Enter a salary in the calculator first.",
+    "payslip.openCalculator": "Open the calculator",
+    "payslip.employeeName": "Employee name",
+    "payslip.pdfName": 'The PDF will show the name as "{name}"',
+    "payslip.print": "Print",
+    "payslip.downloadPdf": "Download PDF",
+    "payslip.heading": "Payslip",
+    "payslip.employee": "Employee: {name}",
+    "payslip.period": "Period: {period}",
+    "payslip.rates": "Rates: {year}",
+    "payslip.section.earnings": "Earnings",
+    "payslip.section.contributions": "Contributions",
+    "payslip.section.benefits": "Benefits",
+    "payslip.section.incomeTax": "Income tax",
+    "payslip.section.payment": "Payment",
+    "payslip.section.employer": "Employer",
+    "payslip.grossSalary": "Gross salary",
+    "payslip.contributionBase": "Contribution base",
+    "payslip.contributionBase.floor": "Contribution base (minimum base)",
+    "payslip.contributionBase.ceiling": "Contribution base (maximum base)",
+    "payslip.withRate": "{label} ({rate})",
+    "payslip.benefit": "{label} (taxable {amount})",
+    "payslip.totalBenefits": "Total benefits",
+    "payslip.bracket": "Tax at {rate} on {amount}",
+    "payslip.netSalary": "Net salary",
+    "payslip.employerCost": "Total cost to the employer",
+
+    "validation.empty": "Enter an amount",
+    "validation.notANumber": "Enter a plain number, e.g. 65000 or 65000.50",
+    "validation.negative": "The amount cannot be negative",
+    "validation.aboveCeiling": "The amount cannot exceed {ceiling}",
+    "validation.belowMinimumWage": "Below the minimum wage of {minimum}",
+    "validation.hoursNotANumber": "Enter a number of hours, e.g. 8 or 7.5",
+    "validation.hoursNegative": "Hours cannot be negative",
+    "validation.aboveMonthlyHours": "A month has at most {maximum} hours",
+
+    "notFound.title": "Page not found - SalarySense",
+    "notFound.heading": "Page not found",
+    "notFound.description":
+        "It looks like the page you were trying to reach doesn't exist or has been moved.",
+    "notFound.home": "Go back home",
+    "notFound.staleLink":
+        "If you arrived here from a saved link, it may be out of date.",
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, string>;
@@ -0,0 +1,276 @@
+import type { Catalog } from "./en";
+
+export const mk: Catalog = {
+    "app.title": "SalarySense - Целосен увид во платата",
+    "nav.monthly": "Месечно",
+    "nav.annual": "Годишно",
+    "nav.compare": "Споредба по години",
+    "nav.jobs": "Повеќе работни места",
+    "nav.premiums": "Додатоци",
+    "nav.contracts": "Договори",
+    "nav.bulk": "Масовна пресметка",
+    "nav.rates": "Стапки",
+    "nav.scenario": "Што ако",
+    "nav.curve": "Крива на нето",
+    "nav.language": "Јазик",
+
+    "mode.gross": "Бруто",
+    "mode.net": "Нето",
+    "mode.totalCost": "Вкупен трошок",
+    "mode.hourly": "По час",
+    "modeLabel.gross": "бруто плата",
+    "modeLabel.net": "нето плата",
+    "modeLabel.totalCost": "вкупен трошок за работодавачот",
+    "modeLabel.hourly": "бруто плата по час",
+
+    "benefit.annualLeave": "Регрес за годишен одмор",
+    "benefit.meal": "Надоместок за исхрана",
+    "benefit.transport": "Надоместок за превоз",
+    "benefit.jubilee": "Јубилејна награда",
+
+    "contribution.pensionAndDisability":
+        "Пензиско и инвалидско осигурување: {amount}",
+    "contribution.healthInsurance": "Здравствено осигурување: {amount}",
+    "contribution.unemploymentInsurance":
+        "Осигурување во случај на невработеност: {amount}",
+    "contribution.additionalHealthInsurance":
+        "Дополнително здравствено осигурување: {amount}",
+
+    "home.title": "SalarySense",
+    "home.amount": "Износ",
+    "home.amountHint": "Внесете ја вашата {mode} во {currency}",
+    "home.useMinimumWage": "Користи минимална плата",
+    "home.currency": "Валута",
+    "home.exchangeRate": "1 {currency} = {rate} (НБРМ, {date})",
+    "home.noExchangeRate": "Нема курс на НБРМ за {currency} за {year}",
+    "home.weeklyHours": "Часови неделно",
+    "home.fte": "{value} ЕПРВ",
+    "home.year": "Година",
+    "home.benefit": "Надоместок",
+    "home.benefitAmount": "Износ на надоместокот",
+    "home.benefitExemptLimit": "Ослободено до {amount} годишно",
+    "home.removeBenefit": "Отстрани",
+    "home.addBenefit": "Додај надоместок",
+    "home.ratesYear": "Пресметано според стапките за {year}",
+    "home.gross": "Вашата бруто плата е: {amount}",
+    "home.net": "Вашата нето плата е: {amount}",
+    "home.perHour": "По час: {gross} бруто, {net} нето",
+    "home.totalContributions": "Вкупно придонеси: {amount}",
+    "home.totalTax": "Вкупно данок: {amount}",
+    "home.contributionBase": "Основица за придонеси: {amount}",
+    "home.raisedToMinimumBase": " (зголемена до најниската основица)",
+    "home.cappedAtMaximumBase": " (ограничена на највисоката основица)",
+    "home.taxableBase": "Даночна основа: {amount}",
+    "home.bracketTax": "Данок од {rate} на {amount}: {tax}",
+    "home.incomeTax": "Персонален данок на доход: {amount}",
+    "home.benefitSplit":
+        "{label}: {amount} ({exempt} ослободено, {taxable} оданочиво)",
+    "home.totalBenefits": "Вкупно надоместоци: {amount}",
+    "home.benefitsExemptTaxable": "Ослободено: {exempt}, оданочиво: {taxable}",
+    "home.employerCharge": "{name}: {amount}",
+    "home.totalEmployerCharges": "Вкупно давачки на работодавачот: {amount}",
+    "home.totalCost": "Вкупен трошок за работодавачот: {amount}",
+    "home.payslip": "Отвори платен лист",
+
+    "label.amount": "Износ",
+    "label.year": "Година",
+    "label.month": "Месец",
+    "label.gross": "Бруто",
+    "label.net": "Нето",
+    "label.contributions": "Придонеси",
+    "label.pensionAndDisability": "Пензиско и инвалидско осигурување",
+    "label.healthInsurance": "Здравствено осигурување",
+    "label.unemploymentInsurance": "Осигурување во случај на невработеност",
+    "label.additionalHealthInsurance": "Дополнително здравствено осигурување",
+    "label.totalContributions": "Вкупно придонеси",
+    "label.taxableBase": "Даночна основа",
+    "label.incomeTax": "Персонален данок на доход",
+    "label.total": "Вкупно",
+
+    "result.gross": "Бруто: {amount}",
+    "result.net": "Нето: {amount}",
+    "result.contributionBase": "Основица за придонеси: {amount}",
+    "result.totalContributions": "Вкупно придонеси: {amount}",
+    "result.taxableBase": "Даночна основа: {amount}",
+    "result.incomeTax": "Персонален данок на доход: {amount}",
+
+    "annual.title": "Годишна плата - SalarySense",
+    "annual.startYear": "Почетна година",
+    "annual.startMonth": "Почетен месец",
+    "annual.fillDown": "Пополни надолу",
+    "annual.missingRates": "Стапките за {period} сè уште не се достапни.",
+
+    "compare.title": "Споредба по години - SalarySense",
+    "compare.amountHint.gross": "Внесете ја бруто платата за споредба",
+    "compare.amountHint.net": "Внесете ја нето платата за споредба",
+    "compare.netDelta": "Нето во однос на претходната година",
+    "compare.contributionsDelta": "Придонеси во однос на претходната година",
+    "compare.taxDelta": "Данок во однос на претходната година",
+
+    "jobs.title": "Повеќе работни места - SalarySense",
+    "jobs.job": "Работно место {number}",
+    "jobs.primary": "Главно работно место, со лично ослободување",
+    "jobs.secondary": "Дополнително работно место, без лично ослободување",
+    "jobs.makePrimary": "Постави како главно",
+    "jobs.remove": "Отстрани",
+    "jobs.add": "Додај работно место",
+    "jobs.result": "Работно место {number}: {gross} бруто, {net} нето",
+    "jobs.combinedGross": "Вкупно бруто: {amount}",
+    "jobs.combinedContributions": "Вкупно придонеси: {amount}",
+    "jobs.combinedIncomeTax": "Вкупно персонален данок на доход: {amount}",
+    "jobs.combinedNet": "Вкупно нето: {amount}",
+
+    "premiums.title": "Прекувремена работа и додатоци - SalarySense",
+    "premiums.baseGross": "Основна бруто плата",
+    "premiums.baseGrossHint": "Месечна бруто плата за договорените часови",
+    "premiums.kind.base": "Основна плата",
+    "premiums.kind.overtime": "Прекувремена работа",
+    "premiums.kind.night": "Ноќна работа",
+    "premiums.kind.holiday": "Работа на државен празник",
+    "premiums.kind.sunday": "Работа во недела",
+    "premiums.hours": "{kind} (часови)",
+    "premiums.supplementHint": "+{supplement} од платата по час",
+    "premiums.line": "{kind}: {hours} ч × {rate} = {amount}",
+    "premiums.lineWithSupplement":
+        "{kind}: {hours} ч × {rate} (+{supplement}) = {amount}",
+
+    "contracts.title": "Приход од договори - SalarySense",
+    "contracts.contract": "Договор",
+    "contracts.type.author": "Авторски договор",
+    "contracts.type.service": "Договор за дело",
+    "contracts.rules":
+        "{normedCosts} нормирани трошоци, {taxRate} персонален данок на доход",
+    "contracts.contributions": "Придонеси",
+    "contracts.paid": "Се плаќаат",
+    "contracts.notPaid": "Не се плаќаат",
+    "contracts.amountHint.gross": "Внесете го бруто износот на договорот",
+    "contracts.amountHint.net": "Внесете го нето износот на договорот",
+    "contracts.normedCosts": "Нормирани трошоци: {amount}",
+
+    "bulk.title": "Масовна пресметка - SalarySense",
+    "bulk.file": "CSV датотека",
+    "bulk.fileHint":
+        "Колони: name, type (gross или net), amount и по избор year и hours",
+    "bulk.yearHint": "Се користи за редовите без година",
+    "bulk.row": "Ред",
+    "bulk.name": "Име",
+    "bulk.totalCost": "Вкупен трошок",
+    "bulk.export": "Извези CSV",
+    "bulk.missingColumns": "Недостасуваат CSV колони: {columns}",
+    "bulk.invalidType": 'Типот мора да биде "gross" или "net", а е "{type}"',
+    "bulk.yearNotAvailable": "Стапките за {year} не се достапни",
+    "bulk.invalidHours":
+        "Часовите мора да бидат повеќе од 0 и најмногу {maximum}",
+
+    "rates.title": "Стапки - SalarySense",
+    "rates.file": "Датотека со стапки",
+    "rates.fileHint":
+        "JSON со еден период на стапки или листа од нив, секој со from, to и rates",
+    "rates.downloadTemplate": "Преземи образец",
+    "rates.removeUploaded": "Отстрани ги поставените стапки",
+    "rates.from": "Од",
+    "rates.to": "До",
+    "rates.source": "Извор",
+    "rates.source.uploaded": "Поставени",
+    "rates.source.bundled": "Вградени",
+    "rates.source.published": "Објавени",
+    "rates.allowance": "Лично ослободување",
+    "rates.averageWage": "Просечна плата",
+
+    "scenario.title": "Што ако стапките - SalarySense",
+    "scenario.officialRates": "Официјални стапки",
+    "scenario.officialRatesHint":
+        "Сценариото тргнува од стапките за оваа година",
+    "scenario.percent": "{label} (%)",
+    "scenario.official": "Официјално: {value}",
+    "scenario.incomeTaxBracket": "Персонален данок на доход, стапка {number}",
+    "scenario.allowance": "Лично ослободување (MKD)",
+    "scenario.allowancePlaceholder": "Лично ослободување",
+    "scenario.notANumber": "Внесете број",
+    "scenario.reset": "Врати ги официјалните стапки",
+    "scenario.copyLink": "Копирај врска",
+    "scenario.linkCopied": "Врската е копирана",
+    "scenario.link": "Врска до ова сценарио",
+    "scenario.copyLinkFailed":
+        "Копирањето не успеа, копирајте ја врската рачно",
+    "scenario.problems": "Со овие стапки не може да се пресмета:",
+    "scenario.problem.contributionRate": "{label} мора да биде од 0% до 100%",
+    "scenario.problem.totalContributions":
+        "Придонесите мора да изнесуваат помалку од 100%, а изнесуваат {total}",
+    "scenario.problem.taxRate":
+        "Персоналниот данок на доход, стапка {number} мора да биде од 0% до под 100%",
+    "scenario.problem.negativeAllowance":
+        "Личното ослободување не може да биде негативно",
+    "scenario.officialYear": "Официјално {year}",
+    "scenario.scenario": "Сценарио",
+    "scenario.change": "Промена",
+    "scenario.totalCost": "Вкупен трошок за работодавачот",
+
+    "curve.title": "Крива на нето платата - SalarySense",
+    "curve.grossFrom": "Бруто од",
+    "curve.grossTo": "Бруто до",
+    "curve.rangeError": "Мора да биде поголемо од почетното бруто",
+    "curve.netVsGross": "Нето наспроти бруто",
+    "curve.deductionRates": "Стапки на одбивања",
+    "curve.effectiveRate": "Ефективна стапка на одбивања",
+    "curve.marginalRate": "Маргинална стапка",
+    "curve.marker.contributionFloor": "Најниска основица за придонеси",
+    "curve.marker.contributionCeiling": "Највисока основица за придонеси",
+    "curve.marker.thresholdGross": "Почнува персоналниот данок на доход",
+    "curve.marker.bracket": "Почнува даночната стапка {number}",
+    "curve.markerTitle": "{label}: {amount}",
+    "curve.markerGross": "{label}: {amount} бруто",
+    "curve.pointHint":
+        "Посочете на графиконот за да ја видите пресметката за тоа бруто.",
+    "curve.contributionBase": "Основица за придонеси",
+    "curve.bound.floor": "Основица за придонеси (најниска)",
+    "curve.bound.ceiling": "Основица за придонеси (највисока)",
+
+    "rates.publishedProblems":
+        "Овие објавени датотеки со стапки се прескокнати:",
+
+    "payslip.title": "Платен лист - SalarySense",
+    "payslip.noSalary": "Прво внесете плата во калкулаторот.",
+    "payslip.openCalculator": "Отвори го калкулаторот",
+    "payslip.employeeName": "Име на вработениот",
+    "payslip.pdfName": "PDF-от ќе го прикаже името како „{name}“",
+    "payslip.print": "Печати",
+    "payslip.downloadPdf": "Преземи PDF",
+    "payslip.heading": "Платен лист",
+    "payslip.employee": "Вработен: {name}",
+    "payslip.period": "Период: {period}",
+    "payslip.rates": "Стапки: {year}",
+    "payslip.section.earnings": "Примања",
+    "payslip.section.contributions": "Придонеси",
+    "payslip.section.benefits": "Надоместоци",
+    "payslip.section.incomeTax": "Персонален данок на доход",
+    "payslip.section.payment": "Исплата",
+    "payslip.section.employer": "Работодавач",
+    "payslip.grossSalary": "Бруто плата",
+    "payslip.contributionBase": "Основица за придонеси",
+    "payslip.contributionBase.floor": "Основица за придонеси (најниска)",
+    "payslip.contributionBase.ceiling": "Основица за придонеси (највисока)",
+    "payslip.withRate": "{label} ({rate})",
+    "payslip.benefit": "{label} (оданочиво {amount})",
+    "payslip.totalBenefits": "Вкупно надоместоци",
+    "payslip.bracket": "Данок од {rate} на {amount}",
+    "payslip.netSalary": "Нето плата",
+    "payslip.employerCost": "Вкупен трошок за работодавачот",
+
+    "validation.empty": "Внесете износ",
+    "validation.notANumber": "Внесете број, на пр. 65000 или 65000,50",
+    "validation.negative": "Износот не може да биде негативен",
+    "validation.aboveCeiling": "Износот не може да надмине {ceiling}",
+    "validation.belowMinimumWage": "Под минималната плата од {minimum}",
+    "validation.hoursNotANumber": "Внесете број на часови, на пр. 8 или 7,5",
+    "validation.hoursNegative": "Часовите не можат да бидат негативни",
+    "validation.aboveMonthlyHours": "Еден месец има најмногу {maximum} часа",
+
+    "notFound.title": "Страницата не е пронајдена - SalarySense",
+    "notFound.heading": "Страницата не е пронајдена",
+    "notFound.description":
+        "Страницата што ја баравте не постои или е преместена.",
+    "notFound.home": "Назад кон почетната",
+    "notFound.staleLink":
+        "Ако дојдовте преку зачувана врска, можеби е застарена.",
+};
@@ -0,0 +1,277 @@
+import type { Catalog } from "./en";
+
+export const sq: Catalog = {
+    "app.title": "SalarySense - Pasqyrë e plotë e pagës",
+    "nav.monthly": "Mujore",
+    "nav.annual": "Vjetore",
+    "nav.compare": "Krahaso vitet",
+    "nav.jobs": "Disa punë",
+    "nav.premiums": "Shtesat",
+    "nav.contracts": "Kontratat",
+    "nav.bulk": "Listëpagesa masive",
+    "nav.rates": "Normat",
+    "nav.scenario": "Po sikur",
+    "nav.curve": "Kurba e neto",
+    "nav.language": "Gjuha",
+
+    "mode.gross": "Bruto",
+    "mode.net": "Neto",
+    "mode.totalCost": "Kostoja totale",
+    "mode.hourly": "Për orë",
+    "modeLabel.gross": "pagën bruto",
+    "modeLabel.net": "pagën neto",
+    "modeLabel.totalCost": "koston totale për punëdhënësin",
+    "modeLabel.hourly": "pagën bruto për orë",
+
+    "benefit.annualLeave": "Regresi për pushim vjetor",
+    "benefit.meal": "Kompensimi për ushqim",
+    "benefit.transport": "Kompensimi për transport",
+    "benefit.jubilee": "Shpërblimi jubilar",
+
+    "contribution.pensionAndDisability":
+        "Sigurimi pensional dhe invalidor: {amount}",
+    "contribution.healthInsurance": "Sigurimi shëndetësor: {amount}",
+    "contribution.unemploymentInsurance":
+        "Sigurimi në rast papunësie: {amount}",
+    "contribution.additionalHealthInsurance":
+        "Sigurimi shëndetësor shtesë: {amount}",
+
+    "home.title": "SalarySense",
+    "home.amount": "Shuma",
+    "home.amountHint": "Shkruani {mode} në {currency}",
+    "home.useMinimumWage": "Përdor pagën minimale",
+    "home.currency": "Monedha",
+    "home.exchangeRate": "1 {currency} = {rate} (BPRMV, {date})",
+    "home.noExchangeRate": "Nuk ka kurs të BPRMV-së për {currency} për {year}",
+    "home.weeklyHours": "Orë në javë",
+    "home.fte": "{value} ENP",
+    "home.year": "Viti",
+    "home.benefit": "Kompensimi",
+    "home.benefitAmount": "Shuma e kompensimit",
+    "home.benefitExemptLimit": "E liruar deri në {amount} në vit",
+    "home.removeBenefit": "Hiq",
+    "home.addBenefit": "Shto kompensim",
+    "home.ratesYear": "Llogaritur me normat për {year}",
+    "home.gross": "Paga juaj bruto është: {amount}",
+    "home.net": "Paga juaj neto është: {amount}",
+    "home.perHour": "Për orë: {gross} bruto, {net} neto",
+    "home.totalContributions": "Kontributet gjithsej: {amount}",
+    "home.totalTax": "Tatimi gjithsej: {amount}",
+    "home.contributionBase": "Baza e kontributeve: {amount}",
+    "home.raisedToMinimumBase": " (rritur në bazën minimale)",
+    "home.cappedAtMaximumBase": " (kufizuar në bazën maksimale)",
+    "home.taxableBase": "Baza tatimore: {amount}",
+    "home.bracketTax": "Tatim prej {rate} mbi {amount}: {tax}",
+    "home.incomeTax": "Tatimi personal mbi të ardhurat: {amount}",
+    "home.benefitSplit":
+        "{label}: {amount} ({exempt} e liruar, {taxable} e tatueshme)",
+    "home.totalBenefits": "Kompensimet gjithsej: {amount}",
+    "home.benefitsExemptTaxable": "E liruar: {exempt}, e tatueshme: {taxable}",
+    "home.employerCharge": "{name}: {amount}",
+    "home.totalEmployerCharges": "Detyrimet e punëdhënësit gjithsej: {amount}",
+    "home.totalCost": "Kostoja totale për punëdhënësin: {amount}",
+    "home.payslip": "Hap fletëpagesën",
+
+    "label.amount": "Shuma",
+    "label.year": "Viti",
+    "label.month": "Muaji",
+    "label.gross": "Bruto",
+    "label.net": "Neto",
+    "label.contributions": "Kontributet",
+    "label.pensionAndDisability": "Sigurimi pensional dhe invalidor",
+    "label.healthInsurance": "Sigurimi shëndetësor",
+    "label.unemploymentInsurance": "Sigurimi në rast papunësie",
+    "label.additionalHealthInsurance": "Sigurimi shëndetësor shtesë",
+    "label.totalContributions": "Kontributet gjithsej",
+    "label.taxableBase": "Baza tatimore",
+    "label.incomeTax": "Tatimi personal mbi të ardhurat",
+    "label.total": "Gjithsej",
+
+    "result.gross": "Bruto: {amount}",
+    "result.net": "Neto: {amount}",
+    "result.contributionBase": "Baza e kontributeve: {amount}",
+    "result.totalContributions": "Kontributet gjithsej: {amount}",
+    "result.taxableBase": "Baza tatimore: {amount}",
+    "result.incomeTax": "Tatimi personal mbi të ardhurat: {amount}",
+
+    "annual.title": "Paga vjetore - SalarySense",
+    "annual.startYear": "Viti i fillimit",
+    "annual.startMonth": "Muaji i fillimit",
+    "annual.fillDown": "Plotëso poshtë",
+    "annual.missingRates": "Normat për {period} ende nuk janë në dispozicion.",
+
+    "compare.title": "Krahaso vitet - SalarySense",
+    "compare.amountHint.gross": "Shkruani pagën bruto për krahasim",
+    "compare.amountHint.net": "Shkruani pagën neto për krahasim",
+    "compare.netDelta": "Neto krahasuar me vitin e kaluar",
+    "compare.contributionsDelta": "Kontributet krahasuar me vitin e kaluar",
+    "compare.taxDelta": "Tatimi krahasuar me vitin e kaluar",
+
+    "jobs.title": "Disa punë - SalarySense",
+    "jobs.job": "Puna {number}",
+    "jobs.primary": "Puna kryesore, me lirim personal",
+    "jobs.secondary": "Punë dytësore, pa lirim personal",
+    "jobs.makePrimary": "Bëje kryesore",
+    "jobs.remove": "Hiq",
+    "jobs.add": "Shto punë",
+    "jobs.result": "Puna {number}: {gross} bruto, {net} neto",
+    "jobs.combinedGross": "Bruto gjithsej: {amount}",
+    "jobs.combinedContributions": "Kontributet gjithsej: {amount}",
+    "jobs.combinedIncomeTax":
+        "Tatimi personal mbi të ardhurat gjithsej: {amount}",
+    "jobs.combinedNet": "Neto gjithsej: {amount}",
+
+    "premiums.title": "Orët shtesë dhe shtesat - SalarySense",
+    "premiums.baseGross": "Paga bazë bruto",
+    "premiums.baseGrossHint": "Paga mujore bruto për orët e kontraktuara",
+    "premiums.kind.base": "Paga bazë",
+    "premiums.kind.overtime": "Orë shtesë",
+    "premiums.kind.night": "Punë natën",
+    "premiums.kind.holiday": "Punë në festë shtetërore",
+    "premiums.kind.sunday": "Punë të dielën",
+    "premiums.hours": "{kind} (orë)",
+    "premiums.supplementHint": "+{supplement} e pagës për orë",
+    "premiums.line": "{kind}: {hours} orë × {rate} = {amount}",
+    "premiums.lineWithSupplement":
+        "{kind}: {hours} orë × {rate} (+{supplement}) = {amount}",
+
+    "contracts.title": "Të ardhura nga kontratat - SalarySense",
+    "contracts.contract": "Kontrata",
+    "contracts.type.author": "Kontratë autoriale",
+    "contracts.type.service": "Kontratë për vepër",
+    "contracts.rules":
+        "{normedCosts} shpenzime të normuara, {taxRate} tatim personal mbi të ardhurat",
+    "contracts.contributions": "Kontributet",
+    "contracts.paid": "Paguhen",
+    "contracts.notPaid": "Nuk paguhen",
+    "contracts.amountHint.gross": "Shkruani shumën bruto të kontratës",
+    "contracts.amountHint.net": "Shkruani shumën neto të kontratës",
+    "contracts.normedCosts": "Shpenzimet e normuara: {amount}",
+
+    "bulk.title": "Listëpagesa masive - SalarySense",
+    "bulk.file": "Skedari CSV",
+    "bulk.fileHint":
+        "Kolonat: name, type (gross ose net), amount dhe sipas dëshirës year dhe hours",
+    "bulk.yearHint": "Përdoret për rreshtat pa vit",
+    "bulk.row": "Rreshti",
+    "bulk.name": "Emri",
+    "bulk.totalCost": "Kostoja totale",
+    "bulk.export": "Eksporto CSV",
+    "bulk.missingColumns": "Mungojnë kolonat CSV: {columns}",
+    "bulk.invalidType": 'Lloji duhet të jetë "gross" ose "net", jo "{type}"',
+    "bulk.yearNotAvailable": "Normat për vitin {year} nuk janë në dispozicion",
+    "bulk.invalidHours":
+        "Orët duhet të jenë më shumë se 0 dhe më së shumti {maximum}",
+
+    "rates.title": "Normat - SalarySense",
+    "rates.file": "Skedari i normave",
+    "rates.fileHint":
+        "JSON me një periudhë normash ose një listë të tyre, secila me from, to dhe rates",
+    "rates.downloadTemplate": "Shkarko shabllonin",
+    "rates.removeUploaded": "Hiq normat e ngarkuara",
+    "rates.from": "Nga",
+    "rates.to": "Deri",
+    "rates.source": "Burimi",
+    "rates.source.uploaded": "Të ngarkuara",
+    "rates.source.bundled": "Të përfshira",
+    "rates.source.published": "Të publikuara",
+    "rates.allowance": "Lirimi personal",
+    "rates.averageWage": "Paga mesatare",
+
+    "scenario.title": "Po sikur normat - SalarySense",
+    "scenario.officialRates": "Normat zyrtare",
+    "scenario.officialRatesHint": "Skenari nis nga normat e këtij viti",
+    "scenario.percent": "{label} (%)",
+    "scenario.official": "Zyrtare: {value}",
+    "scenario.incomeTaxBracket":
+        "Tatimi personal mbi të ardhurat, shkalla {number}",
+    "scenario.allowance": "Lirimi personal (MKD)",
+    "scenario.allowancePlaceholder": "Lirimi personal",
+    "scenario.notANumber": "Shkruani një numër",
+    "scenario.reset": "Rikthe normat zyrtare",
+    "scenario.copyLink": "Kopjo lidhjen",
+    "scenario.linkCopied": "Lidhja u kopjua",
+    "scenario.link": "Lidhja e këtij skenari",
+    "scenario.copyLinkFailed": "Kopjimi dështoi, kopjojeni lidhjen vetë",
+    "scenario.problems": "Me këto norma nuk mund të llogaritet:",
+    "scenario.problem.contributionRate":
+        "{label} duhet të jetë nga 0% deri në 100%",
+    "scenario.problem.totalContributions":
+        "Kontributet duhet të jenë gjithsej më pak se 100%, por janë {total}",
+    "scenario.problem.taxRate":
+        "Tatimi mbi të ardhurat, shkalla {number} duhet të jetë nga 0% deri nën 100%",
+    "scenario.problem.negativeAllowance":
+        "Lirimi personal nuk mund të jetë negativ",
+    "scenario.officialYear": "Zyrtare {year}",
+    "scenario.scenario": "Skenari",
+    "scenario.change": "Ndryshimi",
+    "scenario.totalCost": "Kostoja totale për punëdhënësin",
+
+    "curve.title": "Kurba e pagës neto - SalarySense",
+    "curve.grossFrom": "Bruto nga",
+    "curve.grossTo": "Bruto deri",
+    "curve.rangeError": "Duhet të jetë më e madhe se bruto e fillimit",
+    "curve.netVsGross": "Neto kundrejt bruto",
+    "curve.deductionRates": "Normat e zbritjeve",
+    "curve.effectiveRate": "Norma efektive e zbritjeve",
+    "curve.marginalRate": "Norma marxhinale",
+    "curve.marker.contributionFloor": "Baza minimale e kontributeve",
+    "curve.marker.contributionCeiling": "Baza maksimale e kontributeve",
+    "curve.marker.thresholdGross": "Fillon tatimi personal mbi të ardhurat",
+    "curve.marker.bracket": "Fillon shkalla tatimore {number}",
+    "curve.markerTitle": "{label}: {amount}",
+    "curve.markerGross": "{label}: {amount} bruto",
+    "curve.pointHint":
+        "Tregoni një pikë në grafik për të parë llogaritjen për atë bruto.",
+    "curve.contributionBase": "Baza e kontributeve",
+    "curve.bound.floor": "Baza e kontributeve (minimale)",
+    "curve.bound.ceiling": "Baza e kontributeve (maksimale)",
+
+    "rates.publishedProblems":
+        "Këto skedarë të publikuar të normave u anashkaluan:",
+
+    "payslip.title": "Fletëpagesa - SalarySense",
+    "payslip.noSalary": "Së pari shkruani një pagë në kalkulator.",
+    "payslip.openCalculator": "Hap kalkulatorin",
+    "payslip.employeeName": "Emri i punonjësit",
+    "payslip.pdfName": "PDF-ja do ta shfaqë emrin si „{name}“",
+    "payslip.print": "Printo",
+    "payslip.downloadPdf": "Shkarko PDF",
+    "payslip.heading": "Fletëpagesa",
+    "payslip.employee": "Punonjësi: {name}",
+    "payslip.period": "Periudha: {period}",
+    "payslip.rates": "Normat: {year}",
+    "payslip.section.earnings": "Të ardhurat",
+    "payslip.section.contributions": "Kontributet",
+    "payslip.section.benefits": "Kompensimet",
+    "payslip.section.incomeTax": "Tatimi personal mbi të ardhurat",
+    "payslip.section.payment": "Pagesa",
+    "payslip.section.employer": "Punëdhënësi",
+    "payslip.grossSalary": "Paga bruto",
+    "payslip.contributionBase": "Baza e kontributeve",
+    "payslip.contributionBase.floor": "Baza e kontributeve (minimale)",
+    "payslip.contributionBase.ceiling": "Baza e kontributeve (maksimale)",
+    "payslip.withRate": "{label} ({rate})",
+    "payslip.benefit": "{label} (e tatueshme {amount})",
+    "payslip.totalBenefits": "Gjithsej kompensime",
+    "payslip.bracket": "Tatim {rate} mbi {amount}",
+    "payslip.netSalary": "Paga neto",
+    "payslip.employerCost": "Kostoja totale për punëdhënësin",
+
+    "validation.empty": "Shkruani një shumë",
+    "validation.notANumber": "Shkruani një numër, p.sh. 65000 ose 65000,50",
+    "validation.negative": "Shuma nuk mund të jetë negative",
+    "validation.aboveCeiling": "Shuma nuk mund të kalojë {ceiling}",
+    "validation.belowMinimumWage": "Nën pagën minimale prej {minimum}",
+    "validation.hoursNotANumber": "Shkruani numrin e orëve, p.sh. 8 ose 7,5",
+    "validation.hoursNegative": "Orët nuk mund të jenë negative",
+    "validation.aboveMonthlyHours": "Një muaj ka më së shumti {maximum} orë",
+
+    "notFound.title": "Faqja nuk u gjet - SalarySense",
+    "notFound.heading": "Faqja nuk u gjet",
+    "notFound.description":
+        "Duket se faqja që kërkuat nuk ekziston ose është zhvendosur.",
+    "notFound.home": "Kthehu në faqen kryesore",
+    "notFound.staleLink":
+        "Nëse keni ardhur nga një lidhje e ruajtur, ajo mund të jetë e vjetëruar.",
+};
@@ -0,0 +1,104 @@
+import {
+    type Accessor,
+    createContext,
+    createSignal,
+    type JSX,
+    useContext,
+} from "solid-js";
+import { getRequestEvent, isServer } from "solid-js/web";
+import {
+    DEFAULT_LOCALE,
+    formatAmountInput,
+    isLocale,
+    LOCALE_COOKIE,
+    type Locale,
+    normalizeAmountInput,
+    resolveLocale,
+    type Translator,
+    translate,
+} from ".";
+
+/** How long the chosen language is remembered, in seconds. */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Returns the locale the page is rendered in: resolved from the request
+ * during SSR, and read back from `<html lang>` in the browser so hydration
+ * uses the same locale.
+ */
+export function getRequestLocale(): Locale {
+    if (isServer) {
+        const request = getRequestEvent()?.request;
+        return resolveLocale(
+            request?.headers.get("cookie") ?? null,
+            request?.headers.get("accept-language") ?? null,
+        );
+    }
+
+    const lang = document.documentElement.lang;
+    return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+type I18nState = {
+    locale: Accessor<Locale>;
+    setLocale: (locale: Locale) => void;
+    t: Translator;
+};
+
+const I18nContext = createContext<I18nState>();
+
+export function I18nProvider(props: { children: JSX.Element }) {
+    const [locale, setLocaleSignal] = createSignal(getRequestLocale());
+
+    const setLocale = (next: Locale) => {
+        setLocaleSignal(next);
+        document.documentElement.lang = next;
+        // biome-ignore lint/suspicious/noDocumentCookie: the Cookie Store API is not available in every browser
+        document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    };
+
+    const t: Translator = (key, params) => translate(locale(), key, params);
+
+    return (
+        <I18nContext.Provider value={{ locale, setLocale, t }}>
+            {props.children}
+        </I18nContext.Provider>
+    );
+}
+
+export function useI18n(): I18nState {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error("useI18n must be used within an I18nProvider");
+    }
+    return context;
+}
+
+/**
+ * Binds an input to a normalized amount (see `normalizeAmountInput`): the
+ * input shows the amount with the decimal separator of the current language,
+ * and what is typed is normalized before `onChange` stores it. While the input
+ * has focus it keeps the text exactly as typed.
+ *
+ * @param {Accessor<string>} value - Normalized amount.
+ * @param {(value: string) => void} onChange - Stores the normalized amount.
+ * @returns Props to spread onto the input.
+ */
+export function useAmountInput(
+    value: Accessor<string>,
+    onChange: (value: string) => void,
+) {
+    const { locale } = useI18n();
+    const [draft, setDraft] = createSignal<string | null>(null);
+
+    return {
+        get value() {
+            return draft() ?? formatAmountInput(value(), locale());
+        },
+        onInput: ((e) => {
+            setDraft(e.currentTarget.value);
+            onChange(normalizeAmountInput(e.currentTarget.value, locale()));
+        }) satisfies JSX.InputEventHandler<HTMLInputElement, InputEvent>,
+        onBlur: () => setDraft(null),
+    };
+}
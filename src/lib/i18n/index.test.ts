@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+    DEFAULT_LOCALE,
+    formatAmountInput,
+    normalizeAmountInput,
+    resolveLocale,
+    translate,
+} from ".";
+import { en } from "./catalogs/en";
+import { mk } from "./catalogs/mk";
+import { sq } from "./catalogs/sq";
+
+describe("translate", () => {
+    it("should look up the message of the locale", () => {
+        expect(translate("en", "home.amount")).toBe("Amount");
+        expect(translate("mk", "home.amount")).toBe("Износ");
+        expect(translate("sq", "home.amount")).toBe("Shuma");
+    });
+
+    it("should replace placeholders with params", () => {
+        expect(
+            translate("en", "home.perHour", { gross: "300", net: "200" }),
+        ).toBe("Per hour: 300 gross, 200 net");
+    });
+
+    it("should keep placeholders without a param", () => {
+        expect(translate("en", "home.ratesYear")).toBe(
+            "Calculated with the rates for {year}",
+        );
+    });
+
+    it("should use the same placeholders in every catalog", () => {
+        const placeholders = (message: string) =>
+            (message.match(/\{\w+\}/g) ?? []).sort();
+
+        for (const key of Object.keys(en) as (keyof typeof en)[]) {
+            expect(placeholders(mk[key]), key).toEqual(placeholders(en[key]));
+            expect(placeholders(sq[key]), key).toEqual(placeholders(en[key]));
+        }
+    });
+});
+
+describe("resolveLocale", () => {
+    it("should prefer the language cookie", () => {
+        expect(resolveLocale("theme=dark; lang=sq", "mk-MK,mk;q=0.9")).toBe(
+            "sq",
+        );
+    });
+
+    it("should fall back to the first supported Accept-Language", () => {
+        expect(resolveLocale("lang=de", "de-DE,mk;q=0.8,en;q=0.5")).toBe("mk");
+    });
+
+    it("should fall back to the default locale", () => {
+        expect(resolveLocale(null, null)).toBe(DEFAULT_LOCALE);
+        expect(resolveLocale(null, "de-DE")).toBe(DEFAULT_LOCALE);
+    });
+});
+
+describe("normalizeAmountInput", () => {
+    it("should read a decimal comma and grouping dots", () => {
+        expect(normalizeAmountInput("65.000,50", "mk")).toBe("65000.50");
+        expect(normalizeAmountInput("65000,5", "sq")).toBe("65000.5");
+        expect(normalizeAmountInput("65.000", "mk")).toBe("65000");
+    });
+
+    it("should keep a decimal dot that does not group thousands", () => {
+        expect(normalizeAmountInput("65000.5", "mk")).toBe("65000.5");
+    });
+
+    it("should drop spaces used for grouping", () => {
+        expect(normalizeAmountInput("65 000,50", "sq")).toBe("65000.50");
+    });
+
+    it("should read grouping commas in English", () => {
+        expect(normalizeAmountInput("65,000.50", "en")).toBe("65000.50");
+    });
+});
+
+describe("formatAmountInput", () => {
+    it("should use the decimal separator of the locale", () => {
+        expect(formatAmountInput("65000.50", "mk")).toBe("65000,50");
+        expect(formatAmountInput("65000.50", "en")).toBe("65000.50");
+        expect(formatAmountInput("65000", "sq")).toBe("65000");
+    });
+
+    it("should read back as the same amount", () => {
+        for (const locale of ["mk", "sq", "en"] as const) {
+            expect(
+                normalizeAmountInput(
+                    formatAmountInput("65000.5", locale),
+                    locale,
+                ),
+            ).toBe("65000.5");
+        }
+    });
+});
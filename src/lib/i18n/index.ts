@@ -0,0 +1,132 @@
+import { type Catalog, en, type MessageKey } from "./catalogs/en";
+import { mk } from "./catalogs/mk";
+import { sq } from "./catalogs/sq";
+
+export type { MessageKey } from "./catalogs/en";
+
+export const Locales = ["mk", "sq", "en"] as const;
+
+export type Locale = (typeof Locales)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Cookie the chosen language is stored in, so SSR can render it. */
+export const LOCALE_COOKIE = "lang";
+
+const catalogs: Record<Locale, Catalog> = { mk, sq, en };
+
+/** Decimal separator users of each language type in numbers. */
+const decimalSeparators: Record<Locale, "." | ","> = {
+    mk: ",",
+    sq: ",",
+    en: ".",
+};
+
+/** Locale tag `Intl` formats dates and numbers of each language with. */
+export const intlLocales: Record<Locale, string> = {
+    mk: "mk-MK",
+    sq: "sq-AL",
+    en: "en",
+};
+
+export const localeNames: Record<Locale, string> = {
+    mk: "Македонски",
+    sq: "Shqip",
+    en: "English",
+};
+
+export function isLocale(value: string): value is Locale {
+    return (Locales as readonly string[]).includes(value);
+}
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Looks up a message in the catalog of `locale` and replaces every `{name}`
+ * placeholder with the matching param. Placeholders without a param are kept
+ * as they are.
+ *
+ * @param {Locale} locale - Language to translate to.
+ * @param {MessageKey} key - Message to look up.
+ * @param {MessageParams} params - Values for the message placeholders.
+ * @returns {string} The translated message.
+ */
+export function translate(
+    locale: Locale,
+    key: MessageKey,
+    params: MessageParams = {},
+): string {
+    return catalogs[locale][key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+        name in params ? String(params[name]) : placeholder,
+    );
+}
+
+/**
+ * Resolves the language of a request: the language cookie when it holds a
+ * supported locale, otherwise the first supported language of the
+ * `Accept-Language` header, otherwise `DEFAULT_LOCALE`.
+ *
+ * @param {string | null} cookie - The request's `Cookie` header.
+ * @param {string | null} acceptLanguage - The request's `Accept-Language` header.
+ * @returns {Locale} Locale to render the request in.
+ */
+export function resolveLocale(
+    cookie: string | null,
+    acceptLanguage: string | null,
+): Locale {
+    const fromCookie = cookie
+        ?.split(";")
+        .map((part) => part.trim().split("="))
+        .find(([name]) => name === LOCALE_COOKIE)?.[1];
+    if (fromCookie && isLocale(fromCookie)) return fromCookie;
+
+    const fromHeader = acceptLanguage
+        ?.split(",")
+        .map((part) => part.split(";")[0].trim().split("-")[0].toLowerCase())
+        .find(isLocale);
+
+    return fromHeader ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Normalizes a number typed in the conventions of `locale` to the plain
+ * decimal form `validateSalaryAmount` accepts.
+ *
+ * Spaces are always dropped. For languages with a decimal comma, the comma is
+ * the decimal separator and dots group thousands; a number with dots only is
+ * read as grouped when every group has three digits ("65.000") and as a
+ * decimal number otherwise ("65000.5"). For languages with a decimal dot,
+ * commas group thousands.
+ *
+ * @param {string} raw - Number as typed.
+ * @param {Locale} locale - Language the number was typed in.
+ * @returns {string} The number with a dot as decimal separator and no grouping.
+ */
+export function normalizeAmountInput(raw: string, locale: Locale): string {
+    const value = raw.trim().replace(/\s/g, "");
+
+    if (decimalSeparators[locale] === ".") {
+        return value.replace(/,/g, "");
+    }
+
+    if (value.includes(",") || /^[+-]?\d{1,3}(\.\d{3})+$/.test(value)) {
+        return value.replace(/\./g, "").replace(",", ".");
+    }
+
+    return value;
+}
+
+/**
+ * Formats a normalized amount (see `normalizeAmountInput`) for an input, with
+ * the decimal separator of `locale`. Amounts are stored normalized, e.g. in a
+ * shared link, so they read the same whatever language opens them.
+ *
+ * @param {string} value - Amount with a dot as decimal separator.
+ * @param {Locale} locale - Language to show the amount in.
+ * @returns {string} The amount as users of `locale` type it.
+ */
+export function formatAmountInput(value: string, locale: Locale): string {
+    return value.replace(".", decimalSeparators[locale]);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { calculateJobs, finalizeJobs } from "./jobs";
+import { getRates } from "./rates-configs";
+import { calculateNetSalary, finalizeSalary } from "./salary";
+
+const RATES = getRates();
+
+describe("calculateJobs", () => {
+    it("should calculate every job and sum them", () => {
+        const result = calculateJobs(
+            [
+                { type: "gross", amount: 60000 },
+                { type: "gross", amount: 20000, applyAllowance: false },
+            ],
+            RATES,
+        );
+
+        const primary = calculateNetSalary(60000, RATES);
+        const secondary = calculateNetSalary(20000, RATES, {
+            applyAllowance: false,
+        });
+
+        expect(result.jobs).toEqual([primary, secondary]);
+        expect(result.totals.gross).toBe(80000);
+        expect(result.totals.net).toBeCloseTo(primary.net + secondary.net, 5);
+        expect(result.totals.incomeTax).toBeCloseTo(
+            primary.tax.incomeTax + secondary.tax.incomeTax,
+            5,
+        );
+    });
+
+    it("should reject more than one job applying the allowance", () => {
+        expect(() =>
+            calculateJobs(
+                [
+                    { type: "gross", amount: 60000 },
+                    { type: "net", amount: 20000 },
+                ],
+                RATES,
+            ),
+        ).toThrow("Only one job may apply the allowance");
+    });
+});
+
+describe("finalizeJobs", () => {
+    it("should sum the rounded jobs", () => {
+        const result = finalizeJobs(
+            calculateJobs(
+                [
+                    { type: "gross", amount: 45678.9 },
+                    { type: "net", amount: 12345.6, applyAllowance: false },
+                ],
+                RATES,
+            ),
+        );
+
+        expect(result.jobs[0]).toEqual(
+            finalizeSalary(calculateNetSalary(45678.9, RATES)),
+        );
+        expect(result.totals.net).toBe(result.jobs[0].net + result.jobs[1].net);
+    });
+});
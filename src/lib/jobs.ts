@@ -0,0 +1,71 @@
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateSalary,
+    finalizeSalary,
+    type SalaryBreakdown,
+    type SalaryInput,
+} from "./salary";
+
+export type JobsTotals = {
+    gross: number;
+    net: number;
+    contributions: number;
+    incomeTax: number;
+    totalCost: number;
+};
+
+export type JobsBreakdown = {
+    jobs: SalaryBreakdown[];
+    totals: JobsTotals;
+};
+
+function sumJobs(jobs: SalaryBreakdown[]): JobsTotals {
+    return jobs.reduce(
+        (totals, job) => ({
+            gross: totals.gross + job.gross,
+            net: totals.net + job.net,
+            contributions: totals.contributions + job.contributions.total,
+            incomeTax: totals.incomeTax + job.tax.incomeTax,
+            totalCost: totals.totalCost + job.employer.totalCost,
+        }),
+        { gross: 0, net: 0, contributions: 0, incomeTax: 0, totalCost: 0 },
+    );
+}
+
+/**
+ * Calculates the salaries of jobs held at the same time and their combined
+ * monthly totals.
+ *
+ * Only one employer may apply the tax-free allowance, so every job apart from
+ * the primary one must set `applyAllowance` to false.
+ *
+ * @param {SalaryInput[]} inputs - One salary input per job.
+ * @param {RatesConfig} rates - Rates object used for every job.
+ * @returns {JobsBreakdown} Salary breakdown per job and the combined totals (no rounding).
+ */
+export function calculateJobs(
+    inputs: SalaryInput[],
+    rates: RatesConfig,
+): JobsBreakdown {
+    const allowanceJobs = inputs.filter(
+        (input) => input.applyAllowance ?? true,
+    );
+    if (allowanceJobs.length > 1) {
+        throw new Error(
+            `Only one job may apply the allowance, got ${allowanceJobs.length}`,
+        );
+    }
+
+    const jobs = inputs.map((input) => calculateSalary(input, rates));
+
+    return { jobs, totals: sumJobs(jobs) };
+}
+
+/**
+ * Rounds every job for display. Totals are the sums of the rounded jobs.
+ */
+export function finalizeJobs(breakdown: JobsBreakdown): JobsBreakdown {
+    const jobs = breakdown.jobs.map((job) => finalizeSalary(job));
+
+    return { jobs, totals: sumJobs(jobs) };
+}
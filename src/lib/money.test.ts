@@ -0,0 +1,102 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { denars, roundMoney, sumDenars, toDenars } from "./money";
+
+describe("toDenars", () => {
+    it("should round halves up by default", () => {
+        expect(toDenars(2.5)).toBe(3);
+        expect(toDenars(2.4999)).toBe(2);
+        expect(toDenars(-2.5)).toBe(-3);
+    });
+
+    it("should round decimals that floats cannot represent exactly", () => {
+        // 0.1 + 0.2 is 0.30000000000000004 and 1.005 is 1.00499999999999989...
+        expect(toDenars((0.1 + 0.2) * 5)).toBe(2);
+        expect(toDenars(1.005 * 1000)).toBe(1005);
+        expect(toDenars(6500 * 0.188)).toBe(1222);
+    });
+
+    it("should support every rounding mode", () => {
+        expect(toDenars(2.5, "halfEven")).toBe(2);
+        expect(toDenars(3.5, "halfEven")).toBe(4);
+        expect(toDenars(2.6, "halfEven")).toBe(3);
+        expect(toDenars(2.1, "up")).toBe(3);
+        expect(toDenars(-2.1, "up")).toBe(-3);
+        expect(toDenars(2.9, "down")).toBe(2);
+        expect(toDenars(-2.9, "down")).toBe(-2);
+    });
+
+    it("should never return negative zero", () => {
+        expect(Object.is(toDenars(-0.2), 0)).toBe(true);
+        expect(Object.is(toDenars(-0.7, "down"), 0)).toBe(true);
+    });
+
+    it("should round amounts too large to count in millionths", () => {
+        expect(toDenars(12_345_678_901.5)).toBe(12_345_678_902);
+        expect(toDenars(12_345_678_901.5, "halfEven")).toBe(12_345_678_902);
+        expect(toDenars(12_345_678_901.25, "up")).toBe(12_345_678_902);
+        expect(toDenars(1e17)).toBe(1e17);
+        expect(toDenars(-1e300, "down")).toBe(-1e300);
+    });
+
+    it("should stay within half a denar of the value", () => {
+        fc.assert(
+            fc.property(
+                fc.double({ min: -1e9, max: 1e9, noNaN: true }),
+                (value) => {
+                    const rounded = toDenars(value);
+
+                    expect(Number.isInteger(rounded)).toBe(true);
+                    expect(Math.abs(rounded - value)).toBeLessThanOrEqual(
+                        0.5 + 1e-6,
+                    );
+                },
+            ),
+        );
+    });
+
+    it("should keep whole denars unchanged in every mode", () => {
+        fc.assert(
+            fc.property(
+                fc.integer({ min: -1e9, max: 1e9 }),
+                fc.constantFrom("halfUp", "halfEven", "up", "down" as const),
+                (value, mode) => {
+                    expect(toDenars(value, mode)).toBe(value);
+                },
+            ),
+        );
+    });
+});
+
+describe("denars", () => {
+    it("should reject amounts that are not whole denars", () => {
+        expect(denars(12)).toBe(12);
+        expect(() => denars(12.5)).toThrow("Expected whole denars, got 12.5");
+        expect(() => denars(Number.POSITIVE_INFINITY)).toThrow(
+            "Expected whole denars, got Infinity",
+        );
+    });
+});
+
+describe("sumDenars", () => {
+    it("should add whole denars exactly", () => {
+        fc.assert(
+            fc.property(
+                fc.array(fc.integer({ min: -1e9, max: 1e9 })),
+                (values) => {
+                    const sum = sumDenars(values.map((value) => denars(value)));
+
+                    expect(sum).toBe(values.reduce((a, b) => a + b, 0));
+                },
+            ),
+        );
+    });
+});
+
+describe("roundMoney", () => {
+    it("should round to the given number of decimals", () => {
+        expect(roundMoney(1.005, 2)).toBe(1.01);
+        expect(roundMoney(371.825, 2)).toBe(371.83);
+        expect(roundMoney(1234.5)).toBe(1235);
+    });
+});
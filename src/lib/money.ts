@@ -0,0 +1,131 @@
+/**
+ * An amount in whole denars. Finalized salary lines are `Denars`, so adding
+ * and subtracting them is exact and totals always match their lines.
+ */
+export type Denars = number & { readonly __unit: "denars" };
+
+/**
+ * How a fractional amount is rounded to a whole unit:
+ *   - halfUp: to the nearest unit, halves away from zero
+ *   - halfEven: to the nearest unit, halves to the even unit
+ *   - up: away from zero
+ *   - down: towards zero
+ */
+export type RoundingMode = "halfUp" | "halfEven" | "up" | "down";
+
+/**
+ * Rounding mode of every kind of line on a finalized salary.
+ */
+export type RoundingPolicy = {
+    /** Gross salary, contribution base, benefits and taxable base. */
+    amounts: RoundingMode;
+    /** Every employee contribution line. */
+    contributions: RoundingMode;
+    /** Income tax of every tax bracket. */
+    incomeTax: RoundingMode;
+    /** Every employer charge line. */
+    employerCharges: RoundingMode;
+};
+
+/**
+ * The Public Revenue Office (UJP) and the Pension and Disability Insurance
+ * Fund (PIOM) round every line of a payslip to whole denars on its own, with
+ * halves rounded up.
+ */
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+    amounts: "halfUp",
+    contributions: "halfUp",
+    incomeTax: "halfUp",
+    employerCharges: "halfUp",
+};
+
+/**
+ * Fixed-point scale amounts are converted to before rounding. Binary floats
+ * cannot represent most decimals exactly (1.005 is stored as 1.00499...), so
+ * rounding them directly can go the wrong way at a half; snapping to
+ * millionths first removes that error for any realistic amount. Amounts too
+ * large to count in millionths are rounded as they are.
+ */
+const SCALE = 1_000_000;
+
+/**
+ * Rounds a number to a whole number, treating it as the decimal it was meant
+ * to be rather than its binary approximation.
+ *
+ * @param {number} value - Number to round.
+ * @param {RoundingMode} mode - Rounding mode (defaults to halfUp).
+ * @returns {number} The rounded whole number.
+ */
+function roundWhole(value: number, mode: RoundingMode = "halfUp"): number {
+    const snapped = Math.round(value * SCALE);
+    const scale = Number.isSafeInteger(snapped) ? SCALE : 1;
+    const scaled = scale === SCALE ? snapped : value;
+    const whole = Math.trunc(scaled / scale);
+    const remainder = Math.abs(scaled - whole * scale);
+    const sign = Math.sign(scaled);
+
+    const awayFromZero =
+        remainder > 0 &&
+        (mode === "up" ||
+            (mode === "halfUp" && remainder >= scale / 2) ||
+            (mode === "halfEven" &&
+                (remainder > scale / 2 ||
+                    (remainder === scale / 2 && whole % 2 !== 0))));
+
+    // Adding 0 turns -0 into 0
+    return whole + (awayFromZero ? sign : 0) + 0;
+}
+
+/**
+ * Rounds an amount to whole denars.
+ *
+ * @param {number} value - Amount in MKD.
+ * @param {RoundingMode} mode - Rounding mode (defaults to halfUp).
+ * @returns {Denars} The rounded amount.
+ */
+export function toDenars(value: number, mode: RoundingMode = "halfUp"): Denars {
+    return roundWhole(value, mode) as Denars;
+}
+
+/**
+ * Checks that the result of adding or subtracting whole denars is still a
+ * whole number of denars. Sums are exact up to `Number.MAX_SAFE_INTEGER`;
+ * beyond that they are as close as a float gets.
+ *
+ * @param {number} value - Amount that must be whole denars.
+ * @returns {Denars} The same amount.
+ * @throws {Error} If the amount is not a finite whole number.
+ */
+export function denars(value: number): Denars {
+    if (!Number.isInteger(value)) {
+        throw new Error(`Expected whole denars, got ${value}`);
+    }
+    return value as Denars;
+}
+
+/**
+ * Adds amounts in whole denars.
+ *
+ * @param {Denars[]} values - Amounts to add.
+ * @returns {Denars} The exact sum.
+ */
+export function sumDenars(values: Denars[]): Denars {
+    return denars(values.reduce((sum: number, value) => sum + value, 0));
+}
+
+/**
+ * Rounds an amount to a number of decimals, e.g. 2 for an hourly rate.
+ *
+ * @param {number} value - Amount to round.
+ * @param {number} decimals - Number of decimals to keep (defaults to 0).
+ * @param {RoundingMode} mode - Rounding mode (defaults to halfUp).
+ * @returns {number} The rounded amount.
+ */
+export function roundMoney(
+    value: number,
+    decimals: number = 0,
+    mode: RoundingMode = "halfUp",
+): number {
+    const factor = 10 ** decimals;
+    return roundWhole(value * factor, mode) / factor;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ROUNDING_POLICY } from "./money";
+import { calculateMonthlyPay, finalizeMonthlyPay } from "./payroll-lines";
+import { getRates } from "./rates-configs";
+import { calculateNetSalary } from "./salary";
+import { getMonthlyHours } from "./work-time";
+
+const RATES = getRates();
+
+describe("calculateMonthlyPay", () => {
+    const baseGross = 60000;
+    const hourlyRate = baseGross / getMonthlyHours();
+
+    it("should only contain the base line without premiums", () => {
+        const result = calculateMonthlyPay({ baseGross, lines: [] }, RATES);
+
+        expect(result.lines).toEqual([
+            {
+                kind: "base",
+                hours: getMonthlyHours(),
+                hourlyRate,
+                supplement: 0,
+                amount: baseGross,
+            },
+        ]);
+        expect(result.salary).toEqual(calculateNetSalary(baseGross, RATES));
+    });
+
+    it("should pay overtime hours on top of the base with the supplement", () => {
+        const result = calculateMonthlyPay(
+            { baseGross, lines: [{ kind: "overtime", hours: 10 }] },
+            RATES,
+        );
+
+        expect(result.lines[1].supplement).toBe(RATES.premiums.overtime);
+        expect(result.lines[1].amount).toBeCloseTo(
+            10 * hourlyRate * (1 + RATES.premiums.overtime),
+            5,
+        );
+    });
+
+    it("should only add the supplement for night, holiday and Sunday hours", () => {
+        const result = calculateMonthlyPay(
+            {
+                baseGross,
+                lines: [
+                    { kind: "night", hours: 8 },
+                    { kind: "holiday", hours: 8 },
+                    { kind: "sunday", hours: 4 },
+                ],
+            },
+            RATES,
+        );
+
+        expect(result.lines[1].amount).toBeCloseTo(
+            8 * hourlyRate * RATES.premiums.night,
+            5,
+        );
+        expect(result.lines[2].amount).toBeCloseTo(
+            8 * hourlyRate * RATES.premiums.holiday,
+            5,
+        );
+        expect(result.lines[3].amount).toBeCloseTo(
+            4 * hourlyRate * RATES.premiums.sunday,
+            5,
+        );
+    });
+
+    it("should apply contributions and tax to the total gross", () => {
+        const result = calculateMonthlyPay(
+            {
+                baseGross,
+                lines: [
+                    { kind: "overtime", hours: 10 },
+                    { kind: "night", hours: 8 },
+                ],
+            },
+            RATES,
+        );
+        const gross = result.lines.reduce((sum, line) => sum + line.amount, 0);
+
+        expect(result.salary).toEqual(calculateNetSalary(gross, RATES));
+    });
+
+    it("should derive the hourly rate from the part-time hours", () => {
+        const result = calculateMonthlyPay(
+            { baseGross: 30000, lines: [], workFraction: 0.5 },
+            RATES,
+        );
+
+        expect(result.lines[0].hourlyRate).toBeCloseTo(hourlyRate, 5);
+        expect(result.salary.workFraction).toBe(0.5);
+    });
+});
+
+describe("finalizeMonthlyPay", () => {
+    it("should round every line and the salary", () => {
+        const result = finalizeMonthlyPay(
+            calculateMonthlyPay(
+                { baseGross: 60000, lines: [{ kind: "overtime", hours: 7 }] },
+                RATES,
+            ),
+        );
+
+        expect(result.lines[0].hourlyRate).toBe(346.15);
+        expect(Number.isInteger(result.lines[1].amount)).toBe(true);
+        expect(Number.isInteger(result.salary.net)).toBe(true);
+    });
+
+    it("should make the line amounts add up to the finalized gross", () => {
+        for (const hours of [1, 2.5, 3, 7.25, 11]) {
+            const result = finalizeMonthlyPay(
+                calculateMonthlyPay(
+                    {
+                        baseGross: 60000.5,
+                        lines: [
+                            { kind: "overtime", hours },
+                            { kind: "night", hours },
+                            { kind: "sunday", hours },
+                        ],
+                    },
+                    RATES,
+                ),
+            );
+
+            expect(
+                result.lines.reduce((sum, line) => sum + line.amount, 0),
+            ).toBe(result.salary.gross);
+        }
+    });
+
+    it("should follow the rounding policy", () => {
+        const pay = calculateMonthlyPay(
+            { baseGross: 60000, lines: [{ kind: "night", hours: 1 }] },
+            RATES,
+        );
+        const down = finalizeMonthlyPay(pay, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "down",
+        });
+        const up = finalizeMonthlyPay(pay, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "up",
+        });
+
+        expect(up.salary.gross - down.salary.gross).toBe(1);
+        expect(up.lines[1].amount - down.lines[1].amount).toBe(1);
+    });
+});
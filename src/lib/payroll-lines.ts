@@ -0,0 +1,158 @@
+import {
+    DEFAULT_ROUNDING_POLICY,
+    type Denars,
+    denars,
+    type RoundingPolicy,
+    roundMoney,
+    sumDenars,
+    toDenars,
+} from "./money";
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateNetSalary,
+    finalizeSalary,
+    type SalaryBreakdown,
+    type SalaryOptions,
+} from "./salary";
+import { getMonthlyHours } from "./work-time";
+
+export type PremiumKind = keyof RatesConfig["premiums"];
+
+export const PremiumKinds: PremiumKind[] = [
+    "overtime",
+    "night",
+    "holiday",
+    "sunday",
+];
+
+export type PremiumLine = {
+    kind: PremiumKind;
+    hours: number;
+};
+
+export type MonthlyPayInput = {
+    /** Monthly gross for the contracted hours, before any premiums. */
+    baseGross: number;
+    lines: PremiumLine[];
+} & SalaryOptions;
+
+export type PayLineBreakdown<Amount extends number = number> = {
+    kind: "base" | PremiumKind;
+    hours: number;
+    hourlyRate: number;
+    /** Supplement as a share of the hourly rate; 0 for the base line. */
+    supplement: number;
+    amount: Amount;
+};
+
+export type MonthlyPayBreakdown<Amount extends number = number> = {
+    lines: PayLineBreakdown<Amount>[];
+    salary: SalaryBreakdown<Amount>;
+};
+
+/** A month's pay rounded to whole denars, see `finalizeMonthlyPay`. */
+export type FinalizedMonthlyPayBreakdown = MonthlyPayBreakdown<Denars>;
+
+/**
+ * Overtime is worked on top of the contracted hours, so those hours are paid
+ * at the hourly rate in addition to the supplement. Night, holiday and Sunday
+ * hours are part of the contracted hours the base gross already pays for, so
+ * only the supplement is added.
+ */
+function isPaidOnTopOfBase(kind: PremiumKind): boolean {
+    return kind === "overtime";
+}
+
+/**
+ * Calculates a month's pay made up of the base gross and premium lines, and
+ * the salary breakdown of the resulting gross.
+ *
+ * The base hourly rate is the base gross divided by the paid hours per month
+ * for the work fraction. Every premium line adds hours × hourly rate ×
+ * supplement to the gross (overtime also adds the hours at the hourly rate),
+ * with the supplements taken from `rates.premiums`. Contributions and tax are
+ * then applied to the total gross by `calculateNetSalary`.
+ *
+ * @param {MonthlyPayInput} input - Base gross, premium lines and employment options.
+ * @param {RatesConfig} rates - Rates object containing the premium supplements.
+ * @returns {MonthlyPayBreakdown} The base line, one line per premium and the salary breakdown (no rounding).
+ */
+export function calculateMonthlyPay(
+    input: MonthlyPayInput,
+    rates: RatesConfig,
+): MonthlyPayBreakdown {
+    const { baseGross, lines, ...options } = input;
+    const monthlyHours = getMonthlyHours(options.workFraction);
+    const hourlyRate = baseGross / monthlyHours;
+
+    const premiumLines = lines.map((line) => {
+        const supplement = rates.premiums[line.kind];
+        const multiplier = isPaidOnTopOfBase(line.kind)
+            ? 1 + supplement
+            : supplement;
+
+        return {
+            kind: line.kind,
+            hours: line.hours,
+            hourlyRate,
+            supplement,
+            amount: line.hours * hourlyRate * multiplier,
+        };
+    });
+
+    const payLines: PayLineBreakdown[] = [
+        {
+            kind: "base",
+            hours: monthlyHours,
+            hourlyRate,
+            supplement: 0,
+            amount: baseGross,
+        },
+        ...premiumLines,
+    ];
+
+    const gross = payLines.reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+        lines: payLines,
+        salary: calculateNetSalary(gross, rates, options),
+    };
+}
+
+/**
+ * Rounds every pay line to whole denars (hours and hourly rates to two
+ * decimals) and the salary breakdown following a rounding policy. The line
+ * amounts add up to the finalized gross.
+ *
+ * @param {MonthlyPayBreakdown} pay - Raw monthly pay breakdown.
+ * @param {RoundingPolicy} policy - Rounding policy (defaults to the UJP and PIOM rules).
+ * @returns {FinalizedMonthlyPayBreakdown} Rounded monthly pay breakdown.
+ */
+export function finalizeMonthlyPay(
+    pay: MonthlyPayBreakdown,
+    policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+): FinalizedMonthlyPayBreakdown {
+    const salary = finalizeSalary(pay.salary, policy);
+    const amounts = pay.lines.map((line) =>
+        toDenars(line.amount, policy.amounts),
+    );
+
+    // Rounding each line can leave them a denar off the rounded gross; the
+    // last line absorbs the difference.
+    if (amounts.length > 0) {
+        const last = amounts.length - 1;
+        amounts[last] = denars(
+            amounts[last] + salary.gross - sumDenars(amounts),
+        );
+    }
+
+    return {
+        lines: pay.lines.map((line, index) => ({
+            ...line,
+            hours: roundMoney(line.hours, 2),
+            hourlyRate: roundMoney(line.hourlyRate, 2),
+            amount: amounts[index],
+        })),
+        salary,
+    };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+    calculatePayrollSchedule,
+    finalizePayrollSchedule,
+    getPayPeriodDate,
+    getPayPeriods,
+} from "./payroll";
+import { getRates } from "./rates-configs";
+import { calculateGrossSalary, calculateNetSalary } from "./salary";
+
+describe("getPayPeriods", () => {
+    it("should return twelve months within one calendar year", () => {
+        const result = getPayPeriods({ year: 2025, month: 1 });
+
+        expect(result).toHaveLength(12);
+        expect(result[0]).toEqual({ year: 2025, month: 1 });
+        expect(result[11]).toEqual({ year: 2025, month: 12 });
+    });
+
+    it("should roll over into the next year after December", () => {
+        const result = getPayPeriods({ year: 2025, month: 7 });
+
+        expect(result[5]).toEqual({ year: 2025, month: 12 });
+        expect(result[6]).toEqual({ year: 2026, month: 1 });
+        expect(result[11]).toEqual({ year: 2026, month: 6 });
+    });
+});
+
+describe("getPayPeriodDate", () => {
+    it("should return the first day of the pay period", () => {
+        expect(getPayPeriodDate({ year: 2025, month: 7 })).toBe("2025-07-01");
+        expect(getPayPeriodDate({ year: 2026, month: 12 })).toBe("2026-12-01");
+    });
+});
+
+describe("calculatePayrollSchedule", () => {
+    it("should use each pay period's year rates across a year boundary", () => {
+        const amounts = Array.from({ length: 12 }, () => 65000);
+        const result = calculatePayrollSchedule({
+            start: { year: 2025, month: 7 },
+            type: "gross",
+            amounts,
+        });
+
+        expect(result.rows[0].salary).toEqual(
+            calculateNetSalary(65000, getRates(2025)),
+        );
+        expect(result.rows[6].salary).toEqual(
+            calculateNetSalary(65000, getRates(2026)),
+        );
+        expect(result.rows[0].salary.net).not.toBe(result.rows[6].salary.net);
+    });
+
+    it("should handle raises, unpaid months and bonuses", () => {
+        const amounts = [
+            60000, 60000, 60000, 0, 60000, 70000, 70000, 70000, 70000, 70000,
+            70000, 140000,
+        ];
+        const result = calculatePayrollSchedule({
+            start: { year: 2025, month: 1 },
+            type: "gross",
+            amounts,
+        });
+
+        expect(result.rows[3].salary.net).toBe(0);
+        expect(result.rows[3].salary.contributions.total).toBe(0);
+        expect(result.totals.gross).toBe(
+            amounts.reduce((sum, amount) => sum + amount, 0),
+        );
+    });
+
+    it("should derive gross from net amounts", () => {
+        const result = calculatePayrollSchedule({
+            start: { year: 2025, month: 1 },
+            type: "net",
+            amounts: [40000],
+        });
+
+        expect(result.rows[0].salary).toEqual(
+            calculateGrossSalary(40000, getRates(2025)),
+        );
+    });
+
+    it("should sum contributions, taxable base and tax into the totals", () => {
+        const result = calculatePayrollSchedule({
+            start: { year: 2025, month: 1 },
+            type: "gross",
+            amounts: [50000, 80000],
+        });
+        const [first, second] = result.rows.map((row) => row.salary);
+
+        expect(result.totals.contributions).toBe(
+            first.contributions.total + second.contributions.total,
+        );
+        expect(result.totals.taxableBase).toBe(
+            first.tax.taxableBase + second.tax.taxableBase,
+        );
+        expect(result.totals.incomeTax).toBe(
+            first.tax.incomeTax + second.tax.incomeTax,
+        );
+    });
+
+    it("should throw when rates are missing for a pay period", () => {
+        expect(() =>
+            calculatePayrollSchedule({
+                start: { year: 2026, month: 12 },
+                type: "gross",
+                amounts: [65000, 65000],
+            }),
+        ).toThrow("Rates for 2027-01-01 not available");
+    });
+});
+
+describe("finalizePayrollSchedule", () => {
+    it("should compute totals from the rounded rows", () => {
+        const schedule = calculatePayrollSchedule({
+            start: { year: 2025, month: 1 },
+            type: "gross",
+            amounts: [50000.4, 50000.4],
+        });
+        const result = finalizePayrollSchedule(schedule);
+
+        expect(result.totals.gross).toBe(100000);
+        expect(result.totals.net).toBe(
+            result.rows[0].salary.net + result.rows[1].salary.net,
+        );
+    });
+});
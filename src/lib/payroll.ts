@@ -0,0 +1,139 @@
+import { getRatesForDate } from "./rates-configs";
+import {
+    calculateSalary,
+    finalizeSalary,
+    type SalaryBreakdown,
+    type SalaryInput,
+} from "./salary";
+
+export type PayPeriod = {
+    year: number;
+    /** Calendar month, 1 (January) to 12 (December). */
+    month: number;
+};
+
+export type PayrollScheduleInput = {
+    start: PayPeriod;
+    type: SalaryInput["type"];
+    /** One amount per month, starting at `start`. Use 0 for unpaid months. */
+    amounts: number[];
+};
+
+export type PayrollRow = PayPeriod & {
+    salary: SalaryBreakdown;
+};
+
+export type PayrollTotals = {
+    gross: number;
+    net: number;
+    contributions: number;
+    taxableBase: number;
+    incomeTax: number;
+};
+
+export type PayrollSchedule = {
+    rows: PayrollRow[];
+    totals: PayrollTotals;
+};
+
+/**
+ * Returns `count` consecutive pay periods starting at `start`, rolling over
+ * into the next calendar year after December.
+ *
+ * @param {PayPeriod} start - First pay period.
+ * @param {number} count - Number of pay periods to return (defaults to 12).
+ * @returns {PayPeriod[]} Consecutive pay periods.
+ */
+export function getPayPeriods(
+    start: PayPeriod,
+    count: number = 12,
+): PayPeriod[] {
+    return Array.from({ length: count }, (_, index) => {
+        const offset = start.month - 1 + index;
+        return {
+            year: start.year + Math.floor(offset / 12),
+            month: (offset % 12) + 1,
+        };
+    });
+}
+
+/**
+ * Returns the date whose rates apply to a pay period: the first day of the
+ * month, as an ISO calendar date (YYYY-MM-DD).
+ */
+export function getPayPeriodDate(period: PayPeriod): string {
+    return `${period.year}-${String(period.month).padStart(2, "0")}-01`;
+}
+
+/**
+ * Sums the salaries of a payroll schedule into annual totals.
+ *
+ * @param {SalaryBreakdown[]} salaries - Monthly salary breakdowns.
+ * @returns {PayrollTotals} Totals of gross, net, contributions, taxable base and income tax.
+ */
+export function sumPayrollTotals(salaries: SalaryBreakdown[]): PayrollTotals {
+    return salaries.reduce<PayrollTotals>(
+        (totals, salary) => ({
+            gross: totals.gross + salary.gross,
+            net: totals.net + salary.net,
+            contributions: totals.contributions + salary.contributions.total,
+            taxableBase: totals.taxableBase + salary.tax.taxableBase,
+            incomeTax: totals.incomeTax + salary.tax.incomeTax,
+        }),
+        { gross: 0, net: 0, contributions: 0, taxableBase: 0, incomeTax: 0 },
+    );
+}
+
+/**
+ * Calculates a month-by-month payroll schedule.
+ *
+ * Every amount is converted with the rates in effect at the start of its pay
+ * period, so a schedule that crosses a year boundary (e.g. July 2025 to
+ * June 2026) or a mid-year rate change uses the rates of both periods.
+ *
+ * Values are returned as raw numbers (no rounding); use
+ * `finalizePayrollSchedule` for display.
+ *
+ * @param {PayrollScheduleInput} input - First pay period, the type of the amounts and one amount per month.
+ * @returns {PayrollSchedule} One row per month and the annual totals.
+ * @throws {Error} If rates are not available for one of the pay periods.
+ */
+export function calculatePayrollSchedule(
+    input: PayrollScheduleInput,
+): PayrollSchedule {
+    const periods = getPayPeriods(input.start, input.amounts.length);
+
+    const rows = periods.map((period, index) => ({
+        ...period,
+        salary: calculateSalary(
+            { type: input.type, amount: input.amounts[index] },
+            getRatesForDate(getPayPeriodDate(period)),
+        ),
+    }));
+
+    return {
+        rows,
+        totals: sumPayrollTotals(rows.map((row) => row.salary)),
+    };
+}
+
+/**
+ * Rounds every row of a payroll schedule and recomputes the totals from the
+ * rounded rows, so the totals always match the sum of the displayed months.
+ *
+ * @param {PayrollSchedule} schedule - Raw payroll schedule.
+ * @returns {PayrollSchedule} Rounded payroll schedule.
+ */
+export function finalizePayrollSchedule(
+    schedule: PayrollSchedule,
+): PayrollSchedule {
+    const rows = schedule.rows.map((row) => ({
+        ...row,
+        salary: finalizeSalary(row.salary),
+    }));
+
+    return {
+        rows,
+        totals: sumPayrollTotals(rows.map((row) => row.salary)),
+    };
+}
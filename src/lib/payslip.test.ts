@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { createPayslipPdf, getPayslipSections } from "./payslip";
+import { getRates } from "./rates-configs";
+import { calculateNetSalary, finalizeSalary } from "./salary";
+
+const RATES = getRates();
+
+const payslip = (gross: number) => ({
+    employeeName: "Ana Petrovska",
+    period: { year: 2026, month: 3 },
+    salary: finalizeSalary(calculateNetSalary(gross, RATES)),
+});
+
+describe("getPayslipSections", () => {
+    it("should list every contribution line and the totals", () => {
+        const sections = getPayslipSections(payslip(65000), RATES);
+        const rows = sections.flatMap((section) => section.rows);
+        const { salary } = payslip(65000);
+
+        expect(sections.map((section) => section.title)).toEqual([
+            "Earnings",
+            "Contributions",
+            "Income tax",
+            "Payment",
+            "Employer",
+        ]);
+        expect(
+            rows.find((row) => row.label === "Total contributions")?.amount,
+        ).toBe(salary.contributions.total);
+        expect(rows.find((row) => row.label === "Net salary")?.amount).toBe(
+            salary.net,
+        );
+    });
+
+    it("should note the contribution floor", () => {
+        const sections = getPayslipSections(payslip(10000), RATES);
+
+        expect(sections[1].rows[0].label).toBe(
+            "Contribution base (minimum base)",
+        );
+    });
+
+    it("should list benefits when there are any", () => {
+        const sections = getPayslipSections(
+            {
+                ...payslip(65000),
+                salary: finalizeSalary(
+                    calculateNetSalary(65000, RATES, {
+                        benefits: [{ kind: "meal", amount: 3000 }],
+                    }),
+                ),
+            },
+            RATES,
+        );
+
+        expect(sections.map((section) => section.title)).toContain("Benefits");
+    });
+
+    it("should translate titles and labels", () => {
+        const sections = getPayslipSections(payslip(10000), RATES, "mk");
+
+        expect(sections[0].title).toBe("Примања");
+        expect(sections[1].rows[0].label).toBe(
+            "Основица за придонеси (најниска)",
+        );
+        expect(sections[1].rows[1].label).toMatch(
+            /^Пензиско и инвалидско осигурување \(18,8\s%\)$/,
+        );
+    });
+});
+
+describe("createPayslipPdf", () => {
+    it("should include the employee, period and net salary", () => {
+        const pdf = Array.from(
+            createPayslipPdf(payslip(65000), RATES),
+            (byte) => String.fromCharCode(byte),
+        ).join("");
+
+        expect(pdf).toContain("Employee: Ana Petrovska");
+        expect(pdf).toContain("March 2026");
+        expect(pdf).toMatch(/\(Net salary +[\d.,]+ MKD\) Tj/);
+    });
+});
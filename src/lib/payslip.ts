@@ -0,0 +1,217 @@
+import { formatPayPeriod, formatPercent, mkdFormatter } from "./formatters";
+import { DEFAULT_LOCALE, type Locale, translate } from "./i18n";
+import type { PayPeriod } from "./payroll";
+import { createTextPdf, PDF_LINE_LENGTH, type PdfLine } from "./pdf";
+import type { RatesConfig } from "./rates-configs/types";
+import type { FinalizedSalaryBreakdown } from "./salary";
+
+/**
+ * A finalized salary breakdown issued to an employee for one pay period.
+ *
+ * Payslip PDFs are in English: they use the standard PDF fonts, which only
+ * cover Latin script. The page shows the payslip in the page language.
+ */
+export type Payslip = {
+    employeeName: string;
+    period: PayPeriod;
+    salary: FinalizedSalaryBreakdown;
+};
+
+export type PayslipRow = {
+    label: string;
+    /** Amount in MKD. */
+    amount: number;
+    /** Whether the row is a total that should stand out. */
+    total?: boolean;
+};
+
+export type PayslipSection = {
+    title: string;
+    rows: PayslipRow[];
+};
+
+/**
+ * Lists the lines of a payslip, grouped into sections: the gross, every
+ * contribution line with its rate, benefits if any, the tax and the net,
+ * followed by what the employer pays.
+ *
+ * @param {Payslip} payslip - Payslip to list.
+ * @param {RatesConfig} rates - Rates the salary was calculated with.
+ * @param {Locale} locale - Language of the titles and labels.
+ * @returns {PayslipSection[]} Payslip sections in display order.
+ */
+export function getPayslipSections(
+    payslip: Payslip,
+    rates: RatesConfig,
+    locale: Locale = DEFAULT_LOCALE,
+): PayslipSection[] {
+    const { salary } = payslip;
+    const { contributions } = rates;
+
+    const contributionLine = (
+        kind:
+            | "pensionAndDisability"
+            | "healthInsurance"
+            | "unemploymentInsurance"
+            | "additionalHealthInsurance",
+    ): PayslipRow => ({
+        label: translate(locale, "payslip.withRate", {
+            label: translate(locale, `label.${kind}`),
+            rate: formatPercent(contributions[kind], locale),
+        }),
+        amount: salary.contributions[kind],
+    });
+
+    const sections: PayslipSection[] = [
+        {
+            title: translate(locale, "payslip.section.earnings"),
+            rows: [
+                {
+                    label: translate(locale, "payslip.grossSalary"),
+                    amount: salary.gross,
+                    total: true,
+                },
+            ],
+        },
+        {
+            title: translate(locale, "payslip.section.contributions"),
+            rows: [
+                {
+                    label: translate(
+                        locale,
+                        salary.contributions.appliedBound
+                            ? `payslip.contributionBase.${salary.contributions.appliedBound}`
+                            : "payslip.contributionBase",
+                    ),
+                    amount: salary.contributions.base,
+                },
+                contributionLine("pensionAndDisability"),
+                contributionLine("healthInsurance"),
+                contributionLine("unemploymentInsurance"),
+                contributionLine("additionalHealthInsurance"),
+                {
+                    label: translate(locale, "label.totalContributions"),
+                    amount: salary.contributions.total,
+                    total: true,
+                },
+            ],
+        },
+    ];
+
+    if (salary.benefits.items.length > 0) {
+        sections.push({
+            title: translate(locale, "payslip.section.benefits"),
+            rows: [
+                ...salary.benefits.items.map((item) => ({
+                    label: translate(locale, "payslip.benefit", {
+                        label: translate(locale, `benefit.${item.kind}`),
+                        amount: mkdFormatter.format(item.taxable),
+                    }),
+                    amount: item.amount,
+                })),
+                {
+                    label: translate(locale, "payslip.totalBenefits"),
+                    amount: salary.benefits.total,
+                    total: true,
+                },
+            ],
+        });
+    }
+
+    sections.push(
+        {
+            title: translate(locale, "payslip.section.incomeTax"),
+            rows: [
+                {
+                    label: translate(locale, "label.taxableBase"),
+                    amount: salary.tax.taxableBase,
+                },
+                ...(salary.tax.brackets.length > 1
+                    ? salary.tax.brackets.map((bracket) => ({
+                          label: translate(locale, "payslip.bracket", {
+                              rate: formatPercent(bracket.rate, locale),
+                              amount: mkdFormatter.format(
+                                  bracket.taxableAmount,
+                              ),
+                          }),
+                          amount: bracket.incomeTax,
+                      }))
+                    : []),
+                {
+                    label: translate(locale, "label.incomeTax"),
+                    amount: salary.tax.incomeTax,
+                    total: true,
+                },
+            ],
+        },
+        {
+            title: translate(locale, "payslip.section.payment"),
+            rows: [
+                {
+                    label: translate(locale, "payslip.netSalary"),
+                    amount: salary.net,
+                    total: true,
+                },
+            ],
+        },
+        {
+            title: translate(locale, "payslip.section.employer"),
+            rows: [
+                ...salary.employer.charges.map((charge) => ({
+                    label: charge.name,
+                    amount: charge.amount,
+                })),
+                {
+                    label: translate(locale, "payslip.employerCost"),
+                    amount: salary.employer.totalCost,
+                    total: true,
+                },
+            ],
+        },
+    );
+
+    return sections;
+}
+
+/**
+ * Renders a payslip as a PDF document, with amounts right-aligned in a
+ * column.
+ *
+ * @param {Payslip} payslip - Payslip to render.
+ * @param {RatesConfig} rates - Rates the salary was calculated with.
+ * @returns {Uint8Array} The PDF file.
+ */
+export function createPayslipPdf(
+    payslip: Payslip,
+    rates: RatesConfig,
+): Uint8Array {
+    const lines: PdfLine[] = [
+        { text: "PAYSLIP", bold: true },
+        { text: "" },
+        { text: `Employee: ${payslip.employeeName}` },
+        { text: `Period:   ${formatPayPeriod(payslip.period)}` },
+        { text: `Rates:    ${payslip.period.year}` },
+    ];
+
+    for (const section of getPayslipSections(payslip, rates)) {
+        lines.push({ text: "" }, { text: section.title, bold: true });
+
+        for (const row of section.rows) {
+            const amount = mkdFormatter.format(row.amount);
+            const width = PDF_LINE_LENGTH - amount.length - 1;
+            const label =
+                row.label.length > width
+                    ? `${row.label.slice(0, width - 3)}...`
+                    : row.label;
+
+            lines.push({
+                text: `${label.padEnd(width)} ${amount}`,
+                bold: row.total,
+            });
+        }
+    }
+
+    return createTextPdf(lines, {
+        title: `Payslip ${payslip.employeeName} ${formatPayPeriod(payslip.period)}`,
+    });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { createTextPdf, toPdfText } from "./pdf";
+
+const decode = (pdf: Uint8Array) =>
+    Array.from(pdf, (byte) => String.fromCharCode(byte)).join("");
+
+describe("createTextPdf", () => {
+    it("should produce a PDF document", () => {
+        const pdf = decode(createTextPdf([{ text: "Hello" }]));
+
+        expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+        expect(pdf.endsWith("%%EOF\n")).toBe(true);
+        expect(pdf).toContain("(Hello) Tj");
+    });
+
+    it("should point every cross-reference entry at its object", () => {
+        const pdf = decode(
+            createTextPdf([{ text: "Gross", bold: true }, { text: "Net" }]),
+        );
+        const xref = pdf.slice(pdf.indexOf("\nxref\n"));
+        const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map(
+            (match) => Number(match[1]),
+        );
+
+        expect(offsets.length).toBeGreaterThan(0);
+        offsets.forEach((offset, index) => {
+            expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+        });
+
+        const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+        expect(pdf.startsWith("xref", startxref)).toBe(true);
+    });
+
+    it("should escape and replace characters the fonts cannot show", () => {
+        const pdf = decode(createTextPdf([{ text: "Tax (10%) \\ ден. €" }]));
+
+        expect(pdf).toContain("(Tax \\(10%\\) \\\\ den. ?) Tj");
+    });
+
+    it("should start a new page when a page is full", () => {
+        const lines = Array.from({ length: 120 }, (_, index) => ({
+            text: `Line ${index}`,
+        }));
+        const pdf = decode(createTextPdf(lines));
+
+        expect(pdf).toContain("/Count 3");
+    });
+});
+
+describe("toPdfText", () => {
+    it("should spell Macedonian Cyrillic in Latin letters", () => {
+        expect(toPdfText("Ана Ѓорѓиевска")).toBe("Ana Gjorgjievska");
+        expect(toPdfText("Џеват Шаќири")).toBe("Dzhevat Shakjiri");
+    });
+
+    it("should keep Latin-1 and drop other accents", () => {
+        expect(toPdfText("Zoë Ćosić")).toBe("Zoë Cosic");
+    });
+
+    it("should replace characters without a Latin spelling", () => {
+        expect(toPdfText("王 €")).toBe("? ?");
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * A line of text on a PDF page. Bold lines use the bold variant of the font.
+ */
+export type PdfLine = {
+    text: string;
+    bold?: boolean;
+};
+
+export type PdfOptions = {
+    /** Document title shown by PDF viewers. */
+    title?: string;
+};
+
+/** A4 in points. */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LEADING = 14;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+/**
+ * Width of one character of the monospaced font, so callers can lay out
+ * columns by padding text.
+ */
+export const PDF_CHARACTER_WIDTH = FONT_SIZE * 0.6;
+
+/** Characters that fit on one line between the margins. */
+export const PDF_LINE_LENGTH = Math.floor(
+    (PAGE_WIDTH - 2 * MARGIN) / PDF_CHARACTER_WIDTH,
+);
+
+/** Latin spelling of Cyrillic letters, following the Macedonian romanization. */
+const cyrillicToLatin: Record<string, string> = {
+    а: "a",
+    б: "b",
+    в: "v",
+    г: "g",
+    д: "d",
+    ѓ: "gj",
+    е: "e",
+    ж: "zh",
+    з: "z",
+    ѕ: "dz",
+    и: "i",
+    ј: "j",
+    к: "k",
+    л: "l",
+    љ: "lj",
+    м: "m",
+    н: "n",
+    њ: "nj",
+    о: "o",
+    п: "p",
+    р: "r",
+    с: "s",
+    т: "t",
+    ќ: "kj",
+    у: "u",
+    ф: "f",
+    х: "h",
+    ц: "c",
+    ч: "ch",
+    џ: "dzh",
+    ш: "sh",
+};
+
+/**
+ * Returns text as it will appear in the PDF. The standard fonts only cover
+ * Latin-1, so Cyrillic is spelled in Latin letters, accents outside Latin-1
+ * are dropped, and any other character is replaced with "?".
+ *
+ * @param {string} text - Text to show.
+ * @returns {string} The text limited to Latin-1.
+ */
+export function toPdfText(text: string): string {
+    return text
+        .replace(/[Ѐ-џ]/g, (char) => {
+            const lower = char.toLowerCase();
+            const latin = cyrillicToLatin[lower];
+            if (latin == null) return char;
+            return char === lower
+                ? latin
+                : latin.charAt(0).toUpperCase() + latin.slice(1);
+        })
+        .replace(/[^ -ÿ]+/g, (chars) =>
+            chars.normalize("NFD").replace(/\p{M}/gu, ""),
+        )
+        .replace(/[^ -ÿ]/g, "?");
+}
+
+/** Escapes text for a PDF string literal, see `toPdfText`. */
+function escapePdfText(text: string): string {
+    return toPdfText(text).replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function pageContent(lines: PdfLine[]): string {
+    const operations = lines.map(
+        (line) =>
+            `/${line.bold ? "F2" : "F1"} ${FONT_SIZE} Tf (${escapePdfText(line.text)}) Tj T*`,
+    );
+
+    return [
+        "BT",
+        `${LEADING} TL`,
+        `${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td`,
+        ...operations,
+        "ET",
+    ].join("\n");
+}
+
+/**
+ * Builds a PDF document of plain text lines set in Courier, starting a new
+ * A4 page whenever a page is full.
+ *
+ * The document is assembled directly, so it needs no external service or
+ * library and works in the browser and on the server alike.
+ *
+ * @param {PdfLine[]} lines - Lines of text, top to bottom.
+ * @param {PdfOptions} options - Document options (title).
+ * @returns {Uint8Array} The PDF file.
+ */
+export function createTextPdf(
+    lines: PdfLine[],
+    options: PdfOptions = {},
+): Uint8Array {
+    const pages: PdfLine[][] = [];
+    for (let index = 0; index < lines.length; index += LINES_PER_PAGE) {
+        pages.push(lines.slice(index, index + LINES_PER_PAGE));
+    }
+    if (pages.length === 0) {
+        pages.push([]);
+    }
+
+    // Objects 1-4 are the catalog, page tree, fonts; 5 is the info
+    // dictionary; every page then takes a page and a content object.
+    const pageIds = pages.map((_, index) => 6 + index * 2);
+    const objects: string[] = [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>",
+        `<< /Title (${escapePdfText(options.title ?? "")}) /Producer (SalarySense) >>`,
+    ];
+
+    pages.forEach((page, index) => {
+        const content = pageContent(page);
+        objects.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+            `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        );
+    });
+
+    let document = "%PDF-1.4\n";
+    const offsets = objects.map((object, index) => {
+        const offset = document.length;
+        document += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = document.length;
+    document += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+        document += `${String(offset).padStart(10, "0")} 00000 n \n`;
+    }
+    document += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is within Latin-1 after escaping, so it maps to one byte
+    return Uint8Array.from(document, (char) => char.charCodeAt(0));
+}
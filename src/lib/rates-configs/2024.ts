@@ -7,6 +7,53 @@ export const RATES: RatesConfig = {
         additionalHealthInsurance: 0.005,
         unemploymentInsurance: 0.012,
     },
-    tax: 0.1,
+    averageWage: 55008,
+    contributionBase: {
+        minimum: 0.5,
+        maximum: 16,
+    },
+    tax: [
+        {
+            threshold: { monthly: 0, annual: 0 },
+            rate: 0.1,
+        },
+    ],
     allowance: 9540,
+    minimumWage: {
+        gross: 33354,
+        net: 22567,
+    },
+    premiums: {
+        overtime: 0.35,
+        night: 0.35,
+        holiday: 0.5,
+        sunday: 0.5,
+    },
+    benefitExemptions: {
+        annualLeave: 15000,
+        meal: 36000,
+        transport: 24000,
+        jubilee: 30000,
+    },
+    employerCharges: [],
+    contracts: {
+        author: {
+            normedCosts: 0.25,
+            taxRate: 0.1,
+            contributions: {
+                pensionAndDisability: 0.188,
+                healthInsurance: 0.075,
+            },
+            optionalContributions: true,
+        },
+        service: {
+            normedCosts: 0,
+            taxRate: 0.1,
+            contributions: {
+                pensionAndDisability: 0.188,
+                healthInsurance: 0.075,
+            },
+            optionalContributions: false,
+        },
+    },
 } as const;
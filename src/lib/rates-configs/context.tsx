@@ -0,0 +1,147 @@
+import {
+    type Accessor,
+    createContext,
+    createSignal,
+    type JSX,
+    onMount,
+    Show,
+    useContext,
+} from "solid-js";
+import {
+    getRatesRegistry,
+    mergeRatesRegistry,
+    RatesRegistry,
+    setRatesRegistry,
+} from ".";
+import { parseRatesPeriods } from "./schema";
+import type { PublishedRates, RatesPeriod } from "./types";
+
+/** Id of the script element the server embeds published rates in. */
+export const PUBLISHED_RATES_ID = "published-rates";
+
+/** localStorage key of the rates uploaded in this browser. */
+const UPLOADED_RATES_KEY = "uploaded-rates";
+
+let publishedErrors: string[] = [];
+
+/**
+ * Returns the problems of the published rates files that were skipped, so
+ * they can be listed to whoever published them.
+ */
+export function getPublishedRatesErrors(): string[] {
+    return publishedErrors;
+}
+
+/**
+ * Uses published rates on top of the bundled ones and remembers the problems
+ * of the files that were skipped.
+ */
+export function setPublishedRates(published: PublishedRates): void {
+    setRatesRegistry(mergeRatesRegistry(RatesRegistry, published.periods));
+    publishedErrors = published.errors;
+}
+
+/**
+ * Serializes published rates for a `<script type="application/json">`
+ * element, escaping `<` so the JSON cannot close the element.
+ */
+export function serializePublishedRates(published: PublishedRates): string {
+    return JSON.stringify(published).replace(/</g, "\\u003c");
+}
+
+/**
+ * Applies the rates the server published with the page, so the browser
+ * calculates with the same rates the page was rendered with. Must run before
+ * hydration.
+ */
+export function applyPublishedRates(): void {
+    const text = document.getElementById(PUBLISHED_RATES_ID)?.textContent;
+    if (!text) return;
+
+    const { periods, errors } = JSON.parse(text);
+    setPublishedRates({
+        periods: parseRatesPeriods(periods),
+        errors: Array.isArray(errors) ? errors.map(String) : [],
+    });
+}
+
+function readUploadedRates(): RatesPeriod[] {
+    const text = localStorage.getItem(UPLOADED_RATES_KEY);
+    if (!text) return [];
+
+    try {
+        return parseRatesPeriods(JSON.parse(text));
+    } catch {
+        localStorage.removeItem(UPLOADED_RATES_KEY);
+        return [];
+    }
+}
+
+type RatesState = {
+    /** Rates periods uploaded in this browser. */
+    uploaded: Accessor<RatesPeriod[]>;
+    /**
+     * Uses uploaded rates periods on top of the bundled and published ones
+     * and remembers them in this browser.
+     *
+     * @throws {Error} Listing every problem in the merged registry.
+     */
+    upload: (periods: RatesPeriod[]) => void;
+    /** Forgets the uploaded rates periods. */
+    reset: () => void;
+};
+
+const RatesContext = createContext<RatesState>();
+
+/**
+ * Provides the uploaded rates. Its children are rendered again whenever the
+ * rates change, so every page calculates with the new rates.
+ */
+export function RatesProvider(props: { children: JSX.Element }) {
+    const published = getRatesRegistry();
+    const [uploaded, setUploaded] = createSignal<RatesPeriod[]>([]);
+    const [version, setVersion] = createSignal(1);
+
+    const apply = (periods: RatesPeriod[]) => {
+        setRatesRegistry(mergeRatesRegistry(published, periods));
+        setUploaded(periods);
+        setVersion(version() + 1);
+    };
+
+    onMount(() => {
+        const stored = readUploadedRates();
+        if (stored.length === 0) return;
+
+        try {
+            apply(stored);
+        } catch {
+            localStorage.removeItem(UPLOADED_RATES_KEY);
+        }
+    });
+
+    const upload = (periods: RatesPeriod[]) => {
+        apply(periods);
+        localStorage.setItem(UPLOADED_RATES_KEY, JSON.stringify(periods));
+    };
+
+    const reset = () => {
+        apply([]);
+        localStorage.removeItem(UPLOADED_RATES_KEY);
+    };
+
+    return (
+        <RatesContext.Provider value={{ uploaded, upload, reset }}>
+            <Show when={version()} keyed>
+                {props.children}
+            </Show>
+        </RatesContext.Provider>
+    );
+}
+
+export function useRates(): RatesState {
+    const context = useContext(RatesContext);
+    if (!context) {
+        throw new Error("useRates must be used within a RatesProvider");
+    }
+    return context;
+}
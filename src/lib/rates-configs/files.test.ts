@@ -0,0 +1,120 @@
+import {
+    mkdtempSync,
+    rmSync,
+    statSync,
+    utimesSync,
+    writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getRates } from ".";
+import { loadPublishedRates, readRatesFiles } from "./files";
+
+const RATES = getRates(2025);
+
+describe("readRatesFiles", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), "rates-"));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should read every JSON file in file name order", () => {
+        const period = (year: number) => ({
+            from: `${year}-01-01`,
+            to: `${year}-12-31`,
+            rates: RATES,
+        });
+        writeFileSync(join(directory, "b.json"), JSON.stringify(period(2028)));
+        writeFileSync(join(directory, "a.json"), JSON.stringify(period(2027)));
+        writeFileSync(join(directory, "notes.txt"), "not rates");
+
+        expect(readRatesFiles(directory)).toEqual({
+            periods: [period(2027), period(2028)],
+            errors: [],
+        });
+    });
+
+    it("should skip invalid files and report their problems", () => {
+        writeFileSync(join(directory, "bad.json"), "{");
+
+        const result = readRatesFiles(directory);
+
+        expect(result.periods).toEqual([]);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatch(
+            /^bad\.json: Invalid rates file: not valid JSON/,
+        );
+    });
+
+    it("should read nothing from a missing directory", () => {
+        expect(readRatesFiles(join(directory, "missing"))).toEqual({
+            periods: [],
+            errors: [],
+        });
+    });
+});
+
+describe("loadPublishedRates", () => {
+    let directory: string;
+
+    const period = (year: number) => ({
+        from: `${year}-01-01`,
+        to: `${year}-12-31`,
+        rates: RATES,
+    });
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), "rates-"));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should read the files again only when a file is added", () => {
+        writeFileSync(join(directory, "a.json"), JSON.stringify(period(2027)));
+        const first = loadPublishedRates(directory);
+
+        expect(first.periods).toEqual([period(2027)]);
+        expect(loadPublishedRates(directory)).toBe(first);
+
+        writeFileSync(join(directory, "b.json"), JSON.stringify(period(2028)));
+
+        expect(loadPublishedRates(directory).periods).toEqual([
+            period(2027),
+            period(2028),
+        ]);
+    });
+
+    it("should read a file again when it is rewritten in place", () => {
+        const file = join(directory, "a.json");
+        writeFileSync(file, JSON.stringify(period(2027)));
+        utimesSync(directory, 1_000_000, 1_000_000);
+        loadPublishedRates(directory);
+
+        const corrected = {
+            ...period(2027),
+            rates: { ...RATES, averageWage: RATES.averageWage * 10 },
+        };
+        writeFileSync(file, JSON.stringify(corrected));
+        utimesSync(directory, 1_000_000, 1_000_000);
+
+        expect(statSync(directory).mtimeMs).toBe(1_000_000_000);
+        expect(loadPublishedRates(directory).periods).toEqual([corrected]);
+    });
+
+    it("should publish nothing when the files do not merge with the bundled rates", () => {
+        writeFileSync(join(directory, "a.json"), JSON.stringify(period(2040)));
+
+        const result = loadPublishedRates(directory);
+
+        expect(result.periods).toEqual([]);
+        expect(result.errors[0]).toMatch(/^Invalid rates registry/);
+    });
+});
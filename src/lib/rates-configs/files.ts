@@ -0,0 +1,120 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { mergeRatesRegistry, RatesRegistry } from ".";
+import { parseRatesFile } from "./schema";
+import type { PublishedRates, RatesPeriod } from "./types";
+
+/**
+ * Directory the server reads published rates files from. Set `RATES_DIR` to
+ * use another directory.
+ */
+export const RATES_DIR = process.env.RATES_DIR ?? "rates";
+
+/**
+ * Reads every `.json` file in a directory as rates periods (see
+ * `parseRatesFile`), in file name order.
+ *
+ * A file with problems is skipped and its problems are returned, so one bad
+ * file does not stop the others from loading.
+ *
+ * @param {string} directory - Directory to read (defaults to `RATES_DIR`).
+ * @returns {{ periods: RatesPeriod[]; errors: string[] }} Periods of every valid file and the
+ *   problems of every invalid one. A missing directory has no periods.
+ */
+export function readRatesFiles(directory: string = RATES_DIR): {
+    periods: RatesPeriod[];
+    errors: string[];
+} {
+    const periods: RatesPeriod[] = [];
+    const errors: string[] = [];
+
+    if (!existsSync(directory)) {
+        return { periods, errors };
+    }
+
+    const files = readdirSync(directory)
+        .filter((file) => file.endsWith(".json"))
+        .sort();
+
+    for (const file of files) {
+        try {
+            periods.push(
+                ...parseRatesFile(readFileSync(join(directory, file), "utf8")),
+            );
+        } catch (error) {
+            errors.push(
+                `${file}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+    }
+
+    return { periods, errors };
+}
+
+let publishedCache:
+    | { directory: string; version: string; published: PublishedRates }
+    | undefined;
+
+/**
+ * Describes the `.json` files of a directory by name, modification time and
+ * size, so editing a file in place changes the result even though the
+ * directory itself is left untouched.
+ */
+function ratesFilesVersion(directory: string): string {
+    if (!existsSync(directory)) return "";
+
+    return readdirSync(directory)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .map((file) => {
+            const stats = statSync(join(directory, file), {
+                throwIfNoEntry: false,
+            });
+            return `${file}:${stats?.mtimeMs}:${stats?.size}`;
+        })
+        .join("\n");
+}
+
+/**
+ * Returns the rates files published in a directory (see `readRatesFiles`),
+ * checked to merge with the bundled registry. If they do not, none of them
+ * are published and the merge problems are returned, so a bad file never
+ * takes the site down.
+ *
+ * The result is cached until a file is added, removed or changed (by name,
+ * modification time or size), so publishing or correcting a file takes
+ * effect without a rebuild or restart while the files are not read on every
+ * request.
+ *
+ * @param {string} directory - Directory to read (defaults to `RATES_DIR`).
+ * @returns {PublishedRates} The published periods and the problems of the skipped files. The
+ *   same object is returned until the files change.
+ */
+export function loadPublishedRates(
+    directory: string = RATES_DIR,
+): PublishedRates {
+    const version = ratesFilesVersion(directory);
+    if (
+        publishedCache?.directory === directory &&
+        publishedCache.version === version
+    ) {
+        return publishedCache.published;
+    }
+
+    const { periods, errors } = readRatesFiles(directory);
+    let published: PublishedRates = { periods, errors };
+    try {
+        mergeRatesRegistry(RatesRegistry, periods);
+    } catch (error) {
+        published = {
+            periods: [],
+            errors: [
+                ...errors,
+                error instanceof Error ? error.message : String(error),
+            ],
+        };
+    }
+
+    publishedCache = { directory, version, published };
+    return published;
+}
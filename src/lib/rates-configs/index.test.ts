@@ -0,0 +1,231 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+    AvailableYears,
+    getAvailableYears,
+    getDefaultYear,
+    getRates,
+    getRatesForDate,
+    getRatesRegistry,
+    hasRatesForDate,
+    isAvailableYear,
+    mergeRatesRegistry,
+    RatesRegistry,
+    setRatesRegistry,
+    toIsoDate,
+    validateRatesRegistry,
+} from ".";
+import type { RatesPeriod } from "./types";
+
+const RATES = getRates(2025);
+const CHANGED_RATES = { ...RATES, allowance: RATES.allowance + 500 };
+
+const MID_YEAR_REGISTRY: RatesPeriod[] = [
+    { from: "2025-01-01", to: "2025-06-30", rates: RATES },
+    { from: "2025-07-01", to: "2025-12-31", rates: CHANGED_RATES },
+];
+
+describe("getRates", () => {
+    it("should default to the newest configured year", () => {
+        expect(getRates()).toBe(getRates(AvailableYears[0]));
+        expect(getRates()).toBe(getRates(2026));
+    });
+
+    it("should throw for a year without rates", () => {
+        expect(() => getRates(2019)).toThrow(
+            "Rates for year 2019 not available",
+        );
+    });
+});
+
+describe("isAvailableYear", () => {
+    it("should only accept configured years", () => {
+        expect(isAvailableYear(2025)).toBe(true);
+        expect(isAvailableYear(2019)).toBe(false);
+        expect(isAvailableYear(Number.NaN)).toBe(false);
+    });
+});
+
+describe("getDefaultYear", () => {
+    it("should use the year of the given date", () => {
+        expect(getDefaultYear(new Date(2024, 5, 1))).toBe(2024);
+    });
+
+    it("should clamp to the configured years", () => {
+        expect(getDefaultYear(new Date(2030, 0, 1))).toBe(AvailableYears[0]);
+        expect(getDefaultYear(new Date(2010, 0, 1))).toBe(
+            AvailableYears[AvailableYears.length - 1],
+        );
+    });
+});
+
+describe("toIsoDate", () => {
+    it("should format a date in local time", () => {
+        expect(toIsoDate(new Date(2025, 6, 1))).toBe("2025-07-01");
+        expect(toIsoDate(new Date(2025, 11, 31, 23, 59))).toBe("2025-12-31");
+    });
+});
+
+describe("validateRatesRegistry", () => {
+    it("should accept the bundled registry", () => {
+        expect(() => validateRatesRegistry(RatesRegistry)).not.toThrow();
+    });
+
+    it("should accept a mid-year change", () => {
+        expect(() => validateRatesRegistry(MID_YEAR_REGISTRY)).not.toThrow();
+    });
+
+    it("should reject overlapping periods", () => {
+        expect(() =>
+            validateRatesRegistry([
+                { from: "2025-01-01", to: "2025-07-01", rates: RATES },
+                { from: "2025-07-01", to: "2025-12-31", rates: CHANGED_RATES },
+            ]),
+        ).toThrow("overlaps");
+    });
+
+    it("should reject gaps between periods", () => {
+        expect(() =>
+            validateRatesRegistry([
+                { from: "2025-01-01", to: "2025-06-29", rates: RATES },
+                { from: "2025-07-01", to: "2025-12-31", rates: CHANGED_RATES },
+            ]),
+        ).toThrow("Gap");
+    });
+
+    it("should reject a period that ends before it starts", () => {
+        expect(() =>
+            validateRatesRegistry([
+                { from: "2025-07-01", to: "2025-01-01", rates: RATES },
+            ]),
+        ).toThrow("ends (2025-01-01) before it starts (2025-07-01)");
+    });
+
+    it("should reject an invalid rates config", () => {
+        expect(() =>
+            validateRatesRegistry([
+                {
+                    from: "2025-01-01",
+                    to: "2025-12-31",
+                    rates: { ...RATES, allowance: -1 },
+                },
+            ]),
+        ).toThrow("Period 0: rates.allowance must be a number of at least 0");
+    });
+
+    it("should list every problem", () => {
+        expect(() =>
+            validateRatesRegistry([
+                { from: "2025-01-01", to: "2025-03-31", rates: RATES },
+                { from: "2025-05-01", to: "2025-04-01", rates: RATES },
+                { from: "not-a-date", to: "2025-12-31", rates: RATES },
+            ]),
+        ).toThrow(/ends[\s\S]*Gap[\s\S]*invalid date range/);
+    });
+});
+
+describe("hasRatesForDate", () => {
+    it("should tell whether rates were in effect on a date", () => {
+        expect(hasRatesForDate("2025-07-01", MID_YEAR_REGISTRY)).toBe(true);
+        expect(hasRatesForDate("2026-01-01", MID_YEAR_REGISTRY)).toBe(false);
+    });
+});
+
+describe("getRatesForDate", () => {
+    it("should pick the rates in effect on a date around a mid-year change", () => {
+        expect(getRatesForDate("2025-06-30", MID_YEAR_REGISTRY)).toBe(RATES);
+        expect(getRatesForDate("2025-07-01", MID_YEAR_REGISTRY)).toBe(
+            CHANGED_RATES,
+        );
+    });
+
+    it("should accept Date objects", () => {
+        expect(getRatesForDate(new Date(2025, 6, 15), MID_YEAR_REGISTRY)).toBe(
+            CHANGED_RATES,
+        );
+    });
+
+    it("should match the calendar-year rates by default", () => {
+        expect(getRatesForDate("2024-05-01")).toBe(getRates(2024));
+    });
+
+    it("should throw when no rates are in effect", () => {
+        expect(() => getRatesForDate("2019-12-31")).toThrow(
+            "Rates for 2019-12-31 not available",
+        );
+    });
+});
+
+describe("mergeRatesRegistry", () => {
+    const NEXT_YEAR = { ...RATES, allowance: RATES.allowance + 1000 };
+
+    it("should add a loaded year after the bundled ones", () => {
+        const result = mergeRatesRegistry(RatesRegistry, [
+            { from: "2027-01-01", to: "2027-12-31", rates: NEXT_YEAR },
+        ]);
+
+        expect(result).toHaveLength(RatesRegistry.length + 1);
+        expect(getRatesForDate("2027-03-01", result)).toBe(NEXT_YEAR);
+        expect(getRatesForDate("2026-03-01", result)).toBe(getRates(2026));
+    });
+
+    it("should override every bundled period a loaded one overlaps", () => {
+        const result = mergeRatesRegistry(RatesRegistry, [
+            { from: "2025-01-01", to: "2025-06-30", rates: NEXT_YEAR },
+            { from: "2025-07-01", to: "2025-12-31", rates: CHANGED_RATES },
+        ]);
+
+        expect(result).toHaveLength(RatesRegistry.length + 1);
+        expect(getRatesForDate("2025-03-01", result)).toBe(NEXT_YEAR);
+        expect(getRatesForDate("2025-09-01", result)).toBe(CHANGED_RATES);
+    });
+
+    it("should reject a loaded year that leaves a gap", () => {
+        expect(() =>
+            mergeRatesRegistry(RatesRegistry, [
+                { from: "2028-01-01", to: "2028-12-31", rates: NEXT_YEAR },
+            ]),
+        ).toThrow("Gap between the period ending 2026-12-31");
+    });
+});
+
+describe("setRatesRegistry", () => {
+    afterEach(() => setRatesRegistry(RatesRegistry));
+
+    it("should make loaded years available by default", () => {
+        const loaded = { ...RATES, allowance: RATES.allowance + 1000 };
+        setRatesRegistry(
+            mergeRatesRegistry(RatesRegistry, [
+                { from: "2027-01-01", to: "2027-12-31", rates: loaded },
+            ]),
+        );
+
+        expect(getAvailableYears()).toEqual([2027, ...AvailableYears]);
+        expect(isAvailableYear(2027)).toBe(true);
+        expect(getRates()).toBe(loaded);
+        expect(getRatesForDate("2027-05-01")).toBe(loaded);
+        expect(getDefaultYear(new Date(2030, 0, 1))).toBe(2027);
+    });
+
+    it("should reject an invalid registry and keep the current one", () => {
+        expect(() =>
+            setRatesRegistry([
+                { from: "2025-07-01", to: "2025-01-01", rates: RATES },
+            ]),
+        ).toThrow("Invalid rates registry");
+        expect(getRatesRegistry()).toBe(RatesRegistry);
+    });
+});
+
+describe("getAvailableYears", () => {
+    it("should list the bundled years newest first", () => {
+        expect(getAvailableYears()).toEqual([...AvailableYears]);
+    });
+
+    it("should only list years with rates on January 1st", () => {
+        expect(
+            getAvailableYears([
+                { from: "2025-07-01", to: "2026-06-30", rates: RATES },
+            ]),
+        ).toEqual([2026]);
+    });
+});
@@ -5,31 +5,253 @@ import { RATES as RATES_2023 } from "./2023";
 import { RATES as RATES_2024 } from "./2024";
 import { RATES as RATES_2025 } from "./2025";
 import { RATES as RATES_2026 } from "./2026";
-import type { RatesConfig } from "./types";
+import { getRatesConfigProblems, ISO_DATE } from "./schema";
+import type { RatesConfig, RatesPeriod } from "./types";
 
+/** Years of the bundled rates configs, newest first. */
 export const AvailableYears = [
     2026, 2025, 2024, 2023, 2022, 2021, 2020,
 ] as const;
 
-const RatesMap: Record<number, RatesConfig> = {
-    2026: RATES_2026,
-    2025: RATES_2025,
-    2024: RATES_2024,
-    2023: RATES_2023,
-    2022: RATES_2022,
-    2021: RATES_2021,
-    2020: RATES_2020,
-};
+/**
+ * A calendar year with rates in effect on January 1st, either bundled or
+ * loaded at runtime (see `setRatesRegistry`).
+ */
+export type AvailableYear = number;
 
+/**
+ * Every rates config with the date range it is in effect for, ordered by date.
+ * A mid-year change is expressed by ending one period the day before the next
+ * one starts.
+ */
+export const RatesRegistry: RatesPeriod[] = [
+    { from: "2020-01-01", to: "2020-12-31", rates: RATES_2020 },
+    { from: "2021-01-01", to: "2021-12-31", rates: RATES_2021 },
+    { from: "2022-01-01", to: "2022-12-31", rates: RATES_2022 },
+    { from: "2023-01-01", to: "2023-12-31", rates: RATES_2023 },
+    { from: "2024-01-01", to: "2024-12-31", rates: RATES_2024 },
+    { from: "2025-01-01", to: "2025-12-31", rates: RATES_2025 },
+    { from: "2026-01-01", to: "2026-12-31", rates: RATES_2026 },
+];
+
+/**
+ * Formats a date as an ISO calendar date (YYYY-MM-DD) in local time, so a
+ * date constructed as `new Date(2025, 6, 1)` is always "2025-07-01".
+ */
+export function toIsoDate(date: Date): string {
+    const year = String(date.getFullYear()).padStart(4, "0");
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${year}-${month}-${day}`;
+}
+
+function getNextIsoDate(isoDate: string): string {
+    const [year, month, day] = isoDate.split("-").map(Number);
+    return toIsoDate(new Date(year, month - 1, day + 1));
+}
+
+/**
+ * Checks that a rates registry is well-formed: every period has valid ISO
+ * dates and does not end before it starts, the periods follow each other
+ * without overlaps or gaps, and every rates config is valid (see
+ * `getRatesConfigProblems`).
+ *
+ * @param {RatesPeriod[]} registry - Rates periods ordered by date.
+ * @throws {Error} Listing every problem found in the registry.
+ */
+export function validateRatesRegistry(registry: RatesPeriod[]): void {
+    const problems: string[] = [];
+
+    registry.forEach((period, index) => {
+        if (!ISO_DATE.test(period.from) || !ISO_DATE.test(period.to)) {
+            problems.push(
+                `Period ${index} has an invalid date range ${period.from} to ${period.to}`,
+            );
+            return;
+        }
+
+        if (period.to < period.from) {
+            problems.push(
+                `Period ${index} ends (${period.to}) before it starts (${period.from})`,
+            );
+        }
+
+        problems.push(
+            ...getRatesConfigProblems(period.rates, `Period ${index}: rates`),
+        );
+
+        const previous = registry[index - 1];
+        if (!previous || !ISO_DATE.test(previous.to)) return;
+
+        const expectedFrom = getNextIsoDate(previous.to);
+        if (period.from < expectedFrom) {
+            problems.push(
+                `Period ${index} starting ${period.from} overlaps the period ending ${previous.to}`,
+            );
+        } else if (period.from > expectedFrom) {
+            problems.push(
+                `Gap between the period ending ${previous.to} and the period starting ${period.from}`,
+            );
+        }
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid rates registry:\n${problems.join("\n")}`);
+    }
+}
+
+validateRatesRegistry(RatesRegistry);
+
+/**
+ * Replaces the periods of a registry with loaded ones, e.g. next year's rates
+ * published as a JSON file. Every period that overlaps a loaded period is
+ * dropped, so a loaded period can override a bundled year or split it with a
+ * mid-year change.
+ *
+ * @param {RatesPeriod[]} registry - Rates periods ordered by date.
+ * @param {RatesPeriod[]} periods - Loaded rates periods, in any order.
+ * @returns {RatesPeriod[]} The merged registry, ordered by date.
+ * @throws {Error} Listing every problem in the merged registry, e.g. a gap before a loaded year.
+ */
+export function mergeRatesRegistry(
+    registry: RatesPeriod[],
+    periods: RatesPeriod[],
+): RatesPeriod[] {
+    const kept = registry.filter((period) =>
+        periods.every(
+            (loaded) => loaded.to < period.from || period.to < loaded.from,
+        ),
+    );
+    const merged = [...kept, ...periods].sort((a, b) =>
+        a.from.localeCompare(b.from),
+    );
+
+    validateRatesRegistry(merged);
+    return merged;
+}
+
+let activeRegistry = RatesRegistry;
+
+/**
+ * Returns the registry rates are looked up in by default: the bundled one,
+ * unless `setRatesRegistry` replaced it.
+ */
+export function getRatesRegistry(): RatesPeriod[] {
+    return activeRegistry;
+}
+
+/**
+ * Replaces the registry rates are looked up in by default, e.g. with the
+ * result of `mergeRatesRegistry`.
+ *
+ * @param {RatesPeriod[]} registry - Rates periods ordered by date.
+ * @throws {Error} Listing every problem found in the registry.
+ */
+export function setRatesRegistry(registry: RatesPeriod[]): void {
+    validateRatesRegistry(registry);
+    activeRegistry = registry;
+}
+
+/**
+ * Returns every year with rates in effect on January 1st, newest first.
+ *
+ * @param {RatesPeriod[]} registry - Rates periods to search (defaults to the active registry).
+ */
+export function getAvailableYears(
+    registry: RatesPeriod[] = activeRegistry,
+): AvailableYear[] {
+    const first = Number(registry[0]?.from.slice(0, 4));
+    const last = Number(registry[registry.length - 1]?.to.slice(0, 4));
+    const years: AvailableYear[] = [];
+
+    for (let year = last; year >= first; year--) {
+        if (findRatesPeriod(`${year}-01-01`, registry)) {
+            years.push(year);
+        }
+    }
+
+    return years;
+}
+
+export function isAvailableYear(year: number): boolean {
+    return getAvailableYears().includes(year);
+}
+
+/**
+ * Returns the year of `today`, clamped to the configured years, so a date
+ * past the newest configured year falls back to the newest one and a date
+ * before the oldest one falls back to the oldest one.
+ *
+ * @param {Date} today - Date to derive the year from (defaults to now).
+ * @returns {AvailableYear} A year that rates are available for.
+ */
+export function getDefaultYear(today: Date = new Date()): AvailableYear {
+    const years = getAvailableYears();
+    const newest = years[0];
+    const oldest = years[years.length - 1];
+    const year = Math.min(newest, Math.max(oldest, today.getFullYear()));
+
+    return isAvailableYear(year) ? year : newest;
+}
+
+function findRatesPeriod(
+    isoDate: string,
+    registry: RatesPeriod[],
+): RatesPeriod | undefined {
+    return registry.find(
+        (period) => period.from <= isoDate && isoDate <= period.to,
+    );
+}
+
+/**
+ * Returns whether any rates were in effect on the given date.
+ *
+ * @param {Date | string} date - A date or an ISO calendar date (YYYY-MM-DD).
+ * @param {RatesPeriod[]} registry - Rates periods to search (defaults to the active registry).
+ */
+export function hasRatesForDate(
+    date: Date | string,
+    registry: RatesPeriod[] = activeRegistry,
+): boolean {
+    const isoDate = typeof date === "string" ? date : toIsoDate(date);
+    return findRatesPeriod(isoDate, registry) != null;
+}
+
+/**
+ * Returns the rates that were in effect on the given date.
+ *
+ * @param {Date | string} date - A date or an ISO calendar date (YYYY-MM-DD).
+ * @param {RatesPeriod[]} registry - Rates periods to search (defaults to the active registry).
+ * @returns {RatesConfig} The rates in effect on that date.
+ * @throws {Error} If no rates were in effect on that date.
+ */
+export function getRatesForDate(
+    date: Date | string,
+    registry: RatesPeriod[] = activeRegistry,
+): RatesConfig {
+    const isoDate = typeof date === "string" ? date : toIsoDate(date);
+
+    const found = findRatesPeriod(isoDate, registry);
+    if (!found) {
+        throw new Error(`Rates for ${isoDate} not available`);
+    }
+
+    return found.rates;
+}
+
+/**
+ * Returns the rates in effect at the start of the given calendar year, or of
+ * the newest configured year when no year is given.
+ */
 export function getRates(year?: number): RatesConfig {
     if (year == null) {
-        return RatesMap[AvailableYears[AvailableYears.length - 1]];
+        return getRates(getAvailableYears()[0]);
     }
 
-    const found = RatesMap[year];
+    const found = findRatesPeriod(`${year}-01-01`, activeRegistry);
     if (!found) {
         throw new Error(`Rates for year ${year} not available`);
     }
 
-    return found;
+    return found.rates;
 }
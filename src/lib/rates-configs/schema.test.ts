@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { AvailableYears, getRates } from ".";
+import {
+    getRatesConfigProblems,
+    parseRatesFile,
+    parseRatesPeriods,
+    validateRatesConfig,
+} from "./schema";
+
+const RATES = getRates(2025);
+
+describe("getRatesConfigProblems", () => {
+    it("should accept every bundled config", () => {
+        for (const year of AvailableYears) {
+            expect(getRatesConfigProblems(getRates(year))).toEqual([]);
+        }
+    });
+
+    it("should report missing, mistyped and unknown fields", () => {
+        const { allowance: _, ...withoutAllowance } = RATES;
+
+        expect(
+            getRatesConfigProblems({
+                ...withoutAllowance,
+                averageWage: "65000",
+                typo: 1,
+            }),
+        ).toEqual([
+            'rates.averageWage must be a number of at least 0, got "65000"',
+            "rates.allowance must be a number of at least 0, got nothing",
+            "rates.typo is not a known field",
+        ]);
+    });
+
+    it("should report rates outside 0 to 1", () => {
+        expect(
+            getRatesConfigProblems({
+                ...RATES,
+                contributions: { ...RATES.contributions, healthInsurance: 7.5 },
+                tax: [{ ...RATES.tax[0], rate: 1 }],
+            }),
+        ).toEqual([
+            "rates.contributions.healthInsurance must be a number from 0 to 1, got 7.5",
+            "rates.tax[0].rate must be a number from 0 to below 1, got 1",
+        ]);
+    });
+
+    it("should check employer charges by kind", () => {
+        expect(
+            getRatesConfigProblems({
+                ...RATES,
+                employerCharges: [
+                    { name: "Injury", kind: "rate", rate: 0.005 },
+                    { name: "Meal", kind: "fixed", amount: -1 },
+                    { name: "Other", kind: "percent", rate: 0.1 },
+                ],
+            }),
+        ).toEqual([
+            "rates.employerCharges[1].amount must be a number of at least 0, got -1",
+            'rates.employerCharges[2].kind must be one of "rate", "fixed"',
+        ]);
+    });
+
+    it("should report rules between fields", () => {
+        expect(
+            getRatesConfigProblems({
+                ...RATES,
+                contributions: {
+                    pensionAndDisability: 0.5,
+                    healthInsurance: 0.3,
+                    additionalHealthInsurance: 0.1,
+                    unemploymentInsurance: 0.1,
+                },
+                contributionBase: { minimum: 16, maximum: 0.5 },
+                allowance: 0,
+                tax: [
+                    { threshold: { monthly: 1000, annual: 12000 }, rate: 0.1 },
+                    { threshold: { monthly: 500, annual: 6000 }, rate: 0.18 },
+                ],
+                minimumWage: { gross: 20000, net: 25000 },
+            }),
+        ).toEqual([
+            "rates.contributions must add up to less than 1, got 1",
+            "rates.contributionBase.minimum must be less than the maximum",
+            "rates.allowance must be more than 0",
+            "rates.tax[0].threshold must start at 0",
+            "rates.tax[1].threshold must be above the previous bracket's",
+            "rates.minimumWage.net must be less than the gross minimum wage",
+        ]);
+    });
+});
+
+describe("validateRatesConfig", () => {
+    it("should return a valid config", () => {
+        expect(validateRatesConfig(RATES)).toBe(RATES);
+    });
+
+    it("should list every problem in the error", () => {
+        expect(() =>
+            validateRatesConfig({ ...RATES, allowance: -1, averageWage: -1 }),
+        ).toThrow(
+            "Invalid rates config:\nrates.averageWage must be a number of at least 0, got -1\nrates.allowance must be a number of at least 0, got -1",
+        );
+    });
+});
+
+describe("parseRatesPeriods", () => {
+    it("should accept one period or a list of periods", () => {
+        const period = { from: "2027-01-01", to: "2027-12-31", rates: RATES };
+
+        expect(parseRatesPeriods(period)).toEqual([period]);
+        expect(parseRatesPeriods([period, period])).toHaveLength(2);
+    });
+
+    it("should list the problems of every period", () => {
+        expect(() =>
+            parseRatesPeriods([
+                { from: "2027-01-01", to: "2027-12-31", rates: RATES },
+                { from: "2027", to: "2026-12-31", rates: RATES },
+                {
+                    from: "2028-12-31",
+                    to: "2028-01-01",
+                    rates: { ...RATES, allowance: -1 },
+                },
+            ]),
+        ).toThrow(
+            [
+                "Invalid rates file:",
+                '[1].from must be a date as YYYY-MM-DD, got "2027"',
+                "[2] ends (2028-01-01) before it starts (2028-12-31)",
+                "[2].rates.allowance must be a number of at least 0, got -1",
+            ].join("\n"),
+        );
+    });
+
+    it("should reject an empty list", () => {
+        expect(() => parseRatesPeriods([])).toThrow(
+            "The file does not contain any rates periods",
+        );
+    });
+});
+
+describe("parseRatesFile", () => {
+    it("should read periods from JSON", () => {
+        const period = { from: "2027-01-01", to: "2027-12-31", rates: RATES };
+
+        expect(parseRatesFile(JSON.stringify(period))).toEqual([period]);
+    });
+
+    it("should reject text that is not JSON", () => {
+        expect(() => parseRatesFile("{ rates: ")).toThrow(
+            "Invalid rates file: not valid JSON",
+        );
+    });
+});
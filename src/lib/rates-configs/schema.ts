@@ -0,0 +1,370 @@
+import type { RatesConfig, RatesPeriod } from "./types";
+
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Describes the shape of a value and the range of every number in it.
+ * Object schemas list every field of their type, so adding a field to
+ * `RatesConfig` does not compile until its schema says how to check it.
+ */
+type Schema =
+    | { kind: "number"; min: number; max: number; maxExclusive?: boolean }
+    | { kind: "boolean" }
+    | { kind: "string" }
+    | { kind: "object"; fields: Record<string, Schema> }
+    | { kind: "array"; items: Schema; minLength: number }
+    | {
+          kind: "variants";
+          discriminant: string;
+          variants: Record<string, Schema & { kind: "object" }>;
+      };
+
+const rate: Schema = { kind: "number", min: 0, max: 1 };
+const amount: Schema = {
+    kind: "number",
+    min: 0,
+    max: Number.POSITIVE_INFINITY,
+};
+const string: Schema = { kind: "string" };
+const boolean: Schema = { kind: "boolean" };
+
+function object<T>(fields: { [K in keyof T]-?: Schema }): Schema & {
+    kind: "object";
+} {
+    return { kind: "object", fields };
+}
+
+const contractRules = object<RatesConfig["contracts"]["author"]>({
+    normedCosts: { ...rate, maxExclusive: true },
+    taxRate: { ...rate, maxExclusive: true },
+    contributions: object<RatesConfig["contracts"]["author"]["contributions"]>({
+        pensionAndDisability: rate,
+        healthInsurance: rate,
+    }),
+    optionalContributions: boolean,
+});
+
+const RATES_CONFIG_SCHEMA = object<RatesConfig>({
+    contributions: object<RatesConfig["contributions"]>({
+        pensionAndDisability: rate,
+        healthInsurance: rate,
+        additionalHealthInsurance: rate,
+        unemploymentInsurance: rate,
+    }),
+    averageWage: amount,
+    contributionBase: object<RatesConfig["contributionBase"]>({
+        minimum: amount,
+        maximum: amount,
+    }),
+    tax: {
+        kind: "array",
+        minLength: 1,
+        items: object<RatesConfig["tax"][number]>({
+            threshold: object<RatesConfig["tax"][number]["threshold"]>({
+                monthly: amount,
+                annual: amount,
+            }),
+            rate: { ...rate, maxExclusive: true },
+        }),
+    },
+    allowance: amount,
+    minimumWage: object<RatesConfig["minimumWage"]>({
+        gross: amount,
+        net: amount,
+    }),
+    premiums: object<RatesConfig["premiums"]>({
+        overtime: amount,
+        night: amount,
+        holiday: amount,
+        sunday: amount,
+    }),
+    benefitExemptions: object<RatesConfig["benefitExemptions"]>({
+        annualLeave: amount,
+        meal: amount,
+        transport: amount,
+        jubilee: amount,
+    }),
+    employerCharges: {
+        kind: "array",
+        minLength: 0,
+        items: {
+            kind: "variants",
+            discriminant: "kind",
+            variants: {
+                rate: object<{ name: string; kind: string; rate: number }>({
+                    name: string,
+                    kind: string,
+                    rate: rate,
+                }),
+                fixed: object<{ name: string; kind: string; amount: number }>({
+                    name: string,
+                    kind: string,
+                    amount: amount,
+                }),
+            },
+        },
+    },
+    contracts: object<RatesConfig["contracts"]>({
+        author: contractRules,
+        service: contractRules,
+    }),
+});
+
+function describeValue(value: unknown): string {
+    return value === undefined ? "nothing" : JSON.stringify(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkSchema(
+    schema: Schema,
+    value: unknown,
+    path: string,
+    problems: string[],
+): void {
+    switch (schema.kind) {
+        case "number": {
+            const { min, max, maxExclusive } = schema;
+            const inRange =
+                typeof value === "number" &&
+                Number.isFinite(value) &&
+                value >= min &&
+                (maxExclusive ? value < max : value <= max);
+            if (!inRange) {
+                const range =
+                    max === Number.POSITIVE_INFINITY
+                        ? `a number of at least ${min}`
+                        : `a number from ${min} to ${maxExclusive ? "below " : ""}${max}`;
+                problems.push(
+                    `${path} must be ${range}, got ${describeValue(value)}`,
+                );
+            }
+            return;
+        }
+        case "boolean":
+        case "string":
+            if (typeof value !== schema.kind) {
+                problems.push(
+                    `${path} must be a ${schema.kind}, got ${describeValue(value)}`,
+                );
+            }
+            return;
+        case "array":
+            if (!Array.isArray(value)) {
+                problems.push(
+                    `${path} must be a list, got ${describeValue(value)}`,
+                );
+                return;
+            }
+            if (value.length < schema.minLength) {
+                problems.push(
+                    `${path} must have at least ${schema.minLength} item(s)`,
+                );
+            }
+            value.forEach((item, index) => {
+                checkSchema(schema.items, item, `${path}[${index}]`, problems);
+            });
+            return;
+        case "variants": {
+            const variant = isRecord(value)
+                ? schema.variants[String(value[schema.discriminant])]
+                : undefined;
+            if (!variant) {
+                problems.push(
+                    `${path}.${schema.discriminant} must be one of ${Object.keys(
+                        schema.variants,
+                    )
+                        .map((key) => `"${key}"`)
+                        .join(", ")}`,
+                );
+                return;
+            }
+            checkSchema(variant, value, path, problems);
+            return;
+        }
+        case "object":
+            if (!isRecord(value)) {
+                problems.push(
+                    `${path} must be an object, got ${describeValue(value)}`,
+                );
+                return;
+            }
+            for (const [key, field] of Object.entries(schema.fields)) {
+                checkSchema(field, value[key], `${path}.${key}`, problems);
+            }
+            for (const key of Object.keys(value)) {
+                if (!(key in schema.fields)) {
+                    problems.push(`${path}.${key} is not a known field`);
+                }
+            }
+    }
+}
+
+/**
+ * Checks the rules between fields, once every field has the right shape.
+ */
+function checkRules(
+    rates: RatesConfig,
+    path: string,
+    problems: string[],
+): void {
+    const contributionRate = Object.values(rates.contributions).reduce(
+        (sum, value) => sum + value,
+        0,
+    );
+    if (contributionRate >= 1) {
+        problems.push(
+            `${path}.contributions must add up to less than 1, got ${contributionRate}`,
+        );
+    }
+
+    if (rates.averageWage <= 0) {
+        problems.push(`${path}.averageWage must be more than 0`);
+    }
+
+    if (rates.contributionBase.minimum >= rates.contributionBase.maximum) {
+        problems.push(
+            `${path}.contributionBase.minimum must be less than the maximum`,
+        );
+    }
+
+    if (rates.allowance <= 0) {
+        problems.push(`${path}.allowance must be more than 0`);
+    }
+
+    const [first] = rates.tax;
+    if (first.threshold.monthly !== 0 || first.threshold.annual !== 0) {
+        problems.push(`${path}.tax[0].threshold must start at 0`);
+    }
+    rates.tax.forEach((bracket, index) => {
+        const previous = rates.tax[index - 1];
+        if (
+            previous &&
+            (bracket.threshold.monthly <= previous.threshold.monthly ||
+                bracket.threshold.annual <= previous.threshold.annual)
+        ) {
+            problems.push(
+                `${path}.tax[${index}].threshold must be above the previous bracket's`,
+            );
+        }
+    });
+
+    if (rates.minimumWage.net >= rates.minimumWage.gross) {
+        problems.push(
+            `${path}.minimumWage.net must be less than the gross minimum wage`,
+        );
+    }
+}
+
+/**
+ * Lists every problem with a rates config: missing, unknown or mistyped
+ * fields, rates outside 0 to 1, negative amounts, and rules between fields
+ * such as a total contribution rate below 1 and ascending tax brackets.
+ *
+ * @param {unknown} value - Rates config to check, e.g. parsed from JSON.
+ * @param {string} path - Name of the value in the messages (defaults to "rates").
+ * @returns {string[]} One message per problem; empty when the config is valid.
+ */
+export function getRatesConfigProblems(
+    value: unknown,
+    path: string = "rates",
+): string[] {
+    const problems: string[] = [];
+    checkSchema(RATES_CONFIG_SCHEMA, value, path, problems);
+
+    if (problems.length === 0) {
+        checkRules(value as RatesConfig, path, problems);
+    }
+
+    return problems;
+}
+
+/**
+ * Checks that a value is a valid rates config.
+ *
+ * @param {unknown} value - Rates config to check, e.g. parsed from JSON.
+ * @returns {RatesConfig} The same value, typed as a rates config.
+ * @throws {Error} Listing every problem found in the config.
+ */
+export function validateRatesConfig(value: unknown): RatesConfig {
+    const problems = getRatesConfigProblems(value);
+    if (problems.length > 0) {
+        throw new Error(`Invalid rates config:\n${problems.join("\n")}`);
+    }
+    return value as RatesConfig;
+}
+
+/**
+ * Reads rates periods from parsed JSON: either one period or a list of
+ * periods, each `{ "from": "YYYY-MM-DD", "to": "YYYY-MM-DD", "rates": {...} }`.
+ *
+ * @param {unknown} value - Parsed JSON.
+ * @returns {RatesPeriod[]} The periods, in the order given.
+ * @throws {Error} Listing every problem found in any of the periods.
+ */
+export function parseRatesPeriods(value: unknown): RatesPeriod[] {
+    const periods = Array.isArray(value) ? value : [value];
+    const problems: string[] = [];
+
+    if (periods.length === 0) {
+        problems.push("The file does not contain any rates periods");
+    }
+
+    periods.forEach((period, index) => {
+        const path = `[${index}]`;
+        if (!isRecord(period)) {
+            problems.push(
+                `${path} must be an object with from, to and rates, got ${describeValue(period)}`,
+            );
+            return;
+        }
+
+        for (const key of ["from", "to"] as const) {
+            const date = period[key];
+            if (typeof date !== "string" || !ISO_DATE.test(date)) {
+                problems.push(
+                    `${path}.${key} must be a date as YYYY-MM-DD, got ${describeValue(date)}`,
+                );
+            }
+        }
+        const { from, to } = period;
+        if (
+            typeof from === "string" &&
+            typeof to === "string" &&
+            ISO_DATE.test(from) &&
+            ISO_DATE.test(to) &&
+            to < from
+        ) {
+            problems.push(`${path} ends (${to}) before it starts (${from})`);
+        }
+
+        problems.push(...getRatesConfigProblems(period.rates, `${path}.rates`));
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid rates file:\n${problems.join("\n")}`);
+    }
+
+    return periods as RatesPeriod[];
+}
+
+/**
+ * Reads rates periods from the text of a JSON file (see `parseRatesPeriods`).
+ *
+ * @param {string} text - Contents of the JSON file.
+ * @returns {RatesPeriod[]} The periods, in the order given.
+ * @throws {Error} If the text is not JSON, listing every problem otherwise.
+ */
+export function parseRatesFile(text: string): RatesPeriod[] {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        throw new Error(
+            `Invalid rates file: not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+        );
+    }
+    return parseRatesPeriods(value);
+}
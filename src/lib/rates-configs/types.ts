@@ -1,3 +1,41 @@
+/**
+ * A charge the employer pays on top of the gross salary. Percentage charges
+ * are applied to the gross, fixed charges are a monthly amount in MKD.
+ */
+export type EmployerCharge =
+    | { name: string; kind: "rate"; rate: number }
+    | { name: string; kind: "fixed"; amount: number };
+
+/**
+ * A progressive income tax bracket. The rate applies to the part of the
+ * taxable base between this bracket's threshold and the next bracket's one.
+ * Thresholds are given both per month (payroll) and per year (annual return).
+ */
+export interface TaxBracket {
+    threshold: {
+        monthly: number;
+        annual: number;
+    };
+    rate: number;
+}
+
+/**
+ * Rules for income from a contract outside employment. Normed costs are the
+ * share of the gross deducted as presumed expenses; contributions are charged
+ * on the gross less normed costs and the flat tax on what remains after
+ * contributions. When `optionalContributions` is set, the contractor may opt
+ * out of contributions.
+ */
+export interface ContractRules {
+    normedCosts: number;
+    taxRate: number;
+    contributions: {
+        pensionAndDisability: number;
+        healthInsurance: number;
+    };
+    optionalContributions: boolean;
+}
+
 export interface RatesConfig {
     contributions: {
         pensionAndDisability: number;
@@ -5,6 +43,82 @@ export interface RatesConfig {
         additionalHealthInsurance: number;
         unemploymentInsurance: number;
     };
-    tax: number;
+    /**
+     * Average monthly gross wage (MKD) that the contribution base bounds are
+     * derived from for this year.
+     */
+    averageWage: number;
+    /**
+     * Lowest and highest contribution base, expressed as multiples of
+     * `averageWage` (e.g. 0.5 for 50%, 16 for 16×).
+     */
+    contributionBase: {
+        minimum: number;
+        maximum: number;
+    };
+    /**
+     * Income tax brackets ordered by threshold, the first one starting at 0.
+     * A flat tax is expressed as a single bracket.
+     */
+    tax: TaxBracket[];
     allowance: number;
+    /**
+     * Statutory monthly minimum wage (MKD) for full-time work this year.
+     */
+    minimumWage: {
+        gross: number;
+        net: number;
+    };
+    /**
+     * Wage supplements as a share of the base hourly wage (e.g. 0.35 for 35%)
+     * for overtime, night work, work on public holidays and Sunday work.
+     */
+    premiums: {
+        overtime: number;
+        night: number;
+        holiday: number;
+        sunday: number;
+    };
+    /**
+     * Yearly amounts (MKD) of each benefit that are exempt from contributions
+     * and income tax: annual leave allowance (regres), meal allowance,
+     * transport reimbursement and jubilee bonuses.
+     */
+    benefitExemptions: {
+        annualLeave: number;
+        meal: number;
+        transport: number;
+        jubilee: number;
+    };
+    /**
+     * Employer-side charges for this year (e.g. workplace injury insurance,
+     * mandatory meal or transport benefits). Empty when the employer pays
+     * nothing beyond the gross salary.
+     */
+    employerCharges: EmployerCharge[];
+    /**
+     * Rules for author (copyright) contracts and service contracts.
+     */
+    contracts: {
+        author: ContractRules;
+        service: ContractRules;
+    };
+}
+
+/**
+ * A rates config together with the date range it is in effect for. Both dates
+ * are inclusive ISO calendar dates (YYYY-MM-DD).
+ */
+export interface RatesPeriod {
+    from: string;
+    to: string;
+    rates: RatesConfig;
 }
+
+/** Rates files published on the server, see `loadPublishedRates`. */
+export type PublishedRates = {
+    /** Rates periods that merge with the bundled registry. */
+    periods: RatesPeriod[];
+    /** Problems of the files that were skipped. */
+    errors: string[];
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { getRates } from "./rates-configs";
+import {
+    calculateNetSalary,
+    getContributionBaseBounds,
+    getSalaryBreakpoints,
+    getTotalContributionRate,
+} from "./salary";
+import {
+    calculateSalaryCurve,
+    getSalaryCurveMarkers,
+    getSalaryCurvePoint,
+} from "./salary-curve";
+
+const RATES = getRates(2025);
+
+const PROGRESSIVE_RATES = {
+    ...RATES,
+    tax: [
+        { threshold: { monthly: 0, annual: 0 }, rate: 0.1 },
+        { threshold: { monthly: 90000, annual: 1080000 }, rate: 0.18 },
+    ],
+} satisfies typeof RATES;
+
+describe("getSalaryCurvePoint", () => {
+    it("should match the net of calculateNetSalary", () => {
+        const point = getSalaryCurvePoint(65000, RATES);
+
+        expect(point.gross).toBe(65000);
+        expect(point.net).toBe(calculateNetSalary(65000, RATES).net);
+        expect(point.deductionRate).toBeCloseTo((65000 - point.net) / 65000);
+    });
+
+    it("should not deduct more below the allowance while contributions are at the floor", () => {
+        const { thresholdGross } = getSalaryBreakpoints(RATES);
+        const point = getSalaryCurvePoint(thresholdGross / 2, RATES);
+
+        expect(point.marginalRate).toBeCloseTo(0);
+    });
+
+    it("should deduct contributions and income tax between the contribution bounds", () => {
+        const { minimum } = getContributionBaseBounds(RATES);
+        const contributionRate = getTotalContributionRate(RATES);
+        const point = getSalaryCurvePoint(minimum + 10000, RATES);
+
+        expect(point.marginalRate).toBeCloseTo(
+            contributionRate + (1 - contributionRate) * RATES.tax[0].rate,
+        );
+    });
+
+    it("should only deduct income tax above the contribution ceiling", () => {
+        const { maximum } = getContributionBaseBounds(RATES);
+        const point = getSalaryCurvePoint(maximum + 10000, RATES);
+
+        expect(point.marginalRate).toBeCloseTo(RATES.tax[0].rate);
+    });
+
+    it("should have no deduction rate for a gross of zero", () => {
+        expect(getSalaryCurvePoint(0, RATES).deductionRate).toBe(0);
+    });
+
+    it("should not take the marginal rate across the jump to the contribution floor", () => {
+        const point = getSalaryCurvePoint(0, RATES);
+
+        expect(point.marginalRate).toBeCloseTo(
+            getSalaryCurvePoint(1, RATES).marginalRate,
+        );
+        expect(point.marginalRate).toBeGreaterThanOrEqual(0);
+        expect(point.marginalRate).toBeLessThanOrEqual(1);
+    });
+});
+
+describe("calculateSalaryCurve", () => {
+    it("should include evenly spaced points and the breakpoints in range", () => {
+        const { thresholdGross } = getSalaryBreakpoints(RATES);
+        const curve = calculateSalaryCurve(RATES, {
+            from: 0,
+            to: 40000,
+            steps: 5,
+        });
+        const grosses = curve.map((point) => point.gross);
+
+        expect(grosses).toEqual(
+            expect.arrayContaining([0, 10000, 20000, 30000, 40000]),
+        );
+        expect(grosses).toContain(thresholdGross);
+        expect(grosses).toEqual([...grosses].sort((a, b) => a - b));
+    });
+
+    it("should start a curve from zero with a marginal rate of at most 100%", () => {
+        const [first] = calculateSalaryCurve(RATES, {
+            from: 0,
+            to: 150000,
+            steps: 200,
+        });
+
+        expect(first.gross).toBe(0);
+        expect(first.marginalRate).toBeLessThanOrEqual(1);
+    });
+
+    it("should leave out breakpoints outside the range", () => {
+        const curve = calculateSalaryCurve(RATES, {
+            from: 1000,
+            to: 2000,
+            steps: 3,
+        });
+
+        expect(curve.map((point) => point.gross)).toEqual([1000, 1500, 2000]);
+    });
+
+    it("should reject an empty range", () => {
+        expect(() =>
+            calculateSalaryCurve(RATES, { from: 5000, to: 5000, steps: 10 }),
+        ).toThrow("Invalid salary curve range");
+        expect(() =>
+            calculateSalaryCurve(RATES, { from: 0, to: 5000, steps: 1 }),
+        ).toThrow("Invalid salary curve range");
+    });
+
+    it("should have a net that never decreases from the contribution floor", () => {
+        const curve = calculateSalaryCurve(PROGRESSIVE_RATES, {
+            from: getContributionBaseBounds(PROGRESSIVE_RATES).minimum,
+            to: 400000,
+            steps: 50,
+        });
+
+        curve.slice(1).forEach((point, index) => {
+            expect(point.net).toBeGreaterThanOrEqual(curve[index].net);
+        });
+    });
+});
+
+describe("getSalaryCurveMarkers", () => {
+    it("should mark the contribution bounds and where income tax starts", () => {
+        const breakpoints = getSalaryBreakpoints(RATES);
+
+        expect(getSalaryCurveMarkers(RATES)).toEqual(
+            expect.arrayContaining([
+                expect.objectContaining({
+                    kind: "contributionFloor",
+                    gross: breakpoints.contributionFloor,
+                }),
+                expect.objectContaining({
+                    kind: "contributionCeiling",
+                    gross: breakpoints.contributionCeiling,
+                }),
+                expect.objectContaining({
+                    kind: "thresholdGross",
+                    gross: breakpoints.thresholdGross,
+                }),
+            ]),
+        );
+    });
+
+    it("should mark every further tax bracket, ordered by gross", () => {
+        const markers = getSalaryCurveMarkers(PROGRESSIVE_RATES);
+        const grosses = markers.map((marker) => marker.gross);
+
+        expect(markers.filter((marker) => marker.kind === "bracket")).toEqual([
+            {
+                kind: "bracket",
+                gross: getSalaryBreakpoints(PROGRESSIVE_RATES)
+                    .bracketGrosses[0],
+                bracket: 2,
+            },
+        ]);
+        expect(grosses).toEqual([...grosses].sort((a, b) => a - b));
+    });
+});
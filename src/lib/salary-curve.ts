@@ -0,0 +1,154 @@
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateNetSalary,
+    getSalaryBreakpoints,
+    type SalaryOptions,
+} from "./salary";
+
+/** Extra gross the marginal rate is measured over, in MKD. */
+const MARGINAL_STEP = 1;
+
+export type SalaryCurvePoint = {
+    gross: number;
+    net: number;
+    /** Share of the gross taken by contributions and income tax. */
+    deductionRate: number;
+    /** Share of the next denar of gross taken by contributions and income tax. */
+    marginalRate: number;
+};
+
+export type SalaryCurveRange = {
+    from: number;
+    to: number;
+    /** Number of evenly spaced points between `from` and `to` (at least 2). */
+    steps: number;
+};
+
+export type SalaryCurveMarkerKind =
+    | "contributionFloor"
+    | "contributionCeiling"
+    | "thresholdGross"
+    | "bracket";
+
+export type SalaryCurveMarker =
+    | {
+          kind: Exclude<SalaryCurveMarkerKind, "bracket">;
+          gross: number;
+      }
+    | {
+          kind: "bracket";
+          gross: number;
+          /** 1-based number of the tax bracket that starts at `gross`. */
+          bracket: number;
+      };
+
+/**
+ * Calculates net, the effective deduction rate and the marginal rate of a
+ * single gross salary.
+ *
+ * At a gross of zero or less nothing is paid and no contribution floor
+ * applies, so the marginal rate there is that of the first paid denar rather
+ * than of the jump to contributions on the floor.
+ *
+ * @param {number} gross - Gross salary amount.
+ * @param {RatesConfig} rates - Rates to calculate with.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
+ * @returns {SalaryCurvePoint} The point on the curve (no rounding).
+ */
+export function getSalaryCurvePoint(
+    gross: number,
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): SalaryCurvePoint {
+    const { net } = calculateNetSalary(gross, rates, options);
+    const marginalFrom = gross > 0 ? gross : MARGINAL_STEP;
+    const marginalNet =
+        marginalFrom === gross
+            ? net
+            : calculateNetSalary(marginalFrom, rates, options).net;
+    const nextNet = calculateNetSalary(
+        marginalFrom + MARGINAL_STEP,
+        rates,
+        options,
+    ).net;
+
+    return {
+        gross,
+        net,
+        deductionRate: gross > 0 ? (gross - net) / gross : 0,
+        marginalRate: 1 - (nextNet - marginalNet) / MARGINAL_STEP,
+    };
+}
+
+/**
+ * Calculates the salary curve over a range of gross salaries. Besides the
+ * evenly spaced points, every breakpoint inside the range (see
+ * `getSalaryBreakpoints`) is included, so the corners of the curve are drawn
+ * where they are rather than between two points.
+ *
+ * @param {RatesConfig} rates - Rates to calculate with.
+ * @param {SalaryCurveRange} range - Gross range and number of points.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
+ * @returns {SalaryCurvePoint[]} Points ordered by gross.
+ * @throws {Error} If the range is empty or has fewer than 2 steps.
+ */
+export function calculateSalaryCurve(
+    rates: RatesConfig,
+    range: SalaryCurveRange,
+    options: SalaryOptions = {},
+): SalaryCurvePoint[] {
+    const { from, to, steps } = range;
+    if (!(from >= 0 && to > from) || !(steps >= 2)) {
+        throw new Error(
+            `Invalid salary curve range: ${from} to ${to} in ${steps} steps`,
+        );
+    }
+
+    const step = (to - from) / (steps - 1);
+    const evenly = Array.from({ length: steps }, (_, index) =>
+        index === steps - 1 ? to : from + index * step,
+    );
+    const breakpoints = getSalaryCurveMarkers(rates, options)
+        .map((marker) => marker.gross)
+        .filter((gross) => gross > from && gross < to);
+
+    return [...new Set([...evenly, ...breakpoints])]
+        .sort((a, b) => a - b)
+        .map((gross) => getSalaryCurvePoint(gross, rates, options));
+}
+
+/**
+ * Lists the gross salaries where the curve changes slope: the contribution
+ * floor and ceiling, `thresholdGross` where income tax starts after the
+ * allowance, and the start of every further tax bracket.
+ *
+ * @param {RatesConfig} rates - Rates to calculate with.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
+ * @returns {SalaryCurveMarker[]} Markers ordered by gross.
+ */
+export function getSalaryCurveMarkers(
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): SalaryCurveMarker[] {
+    const {
+        contributionFloor,
+        contributionCeiling,
+        thresholdGross,
+        bracketGrosses,
+    } = getSalaryBreakpoints(rates, options);
+
+    const markers: SalaryCurveMarker[] = [
+        { kind: "contributionFloor", gross: contributionFloor },
+        { kind: "contributionCeiling", gross: contributionCeiling },
+        { kind: "thresholdGross", gross: thresholdGross },
+        ...bracketGrosses.map(
+            (gross, index): SalaryCurveMarker => ({
+                kind: "bracket",
+                gross,
+                bracket: index + 2,
+            }),
+        ),
+    ];
+
+    return markers.sort((a, b) => a.gross - b.gross);
+}
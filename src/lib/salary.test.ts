@@ -1,16 +1,39 @@
+import fc from "fast-check";
 import { describe, expect, it } from "vitest";
-import { getRates } from "./rates-configs";
+import { AvailableYears, getRates } from "./rates-configs";
+import type { RatesConfig } from "./rates-configs/types";
 import {
+    BenefitKinds,
+    calculateBenefits,
     calculateContributions,
+    calculateEmployerCharges,
     calculateGrossSalary,
     calculateNetSalary,
     calculateSalary,
+    calculateSalaryFromTotalCost,
     calculateTax,
+    finalizeSalary,
+    getAllowance,
+    getContributionBase,
+    getContributionBaseBounds,
+    getMinimumWage,
+    getSalaryBreakpoints,
     getTotalContributionRate,
+    type SalaryOptions,
 } from "./salary";
+import { SALARY_AMOUNT_CEILING } from "./validation";
+import { getMonthlyHours } from "./work-time";
 
 const RATES = getRates();
 
+const PROGRESSIVE_RATES = {
+    ...RATES,
+    tax: [
+        { threshold: { monthly: 0, annual: 0 }, rate: 0.1 },
+        { threshold: { monthly: 90000, annual: 1080000 }, rate: 0.18 },
+    ],
+} satisfies typeof RATES;
+
 describe("getTotalContributionRate", () => {
     it("should sum all employee contribution rates correctly", () => {
         const result = getTotalContributionRate(RATES);
@@ -19,6 +42,55 @@ describe("getTotalContributionRate", () => {
     });
 });
 
+describe("getContributionBaseBounds", () => {
+    it("should derive the bounds from the average wage", () => {
+        const result = getContributionBaseBounds(RATES);
+
+        expect(result.minimum).toBe(
+            RATES.averageWage * RATES.contributionBase.minimum,
+        );
+        expect(result.maximum).toBe(
+            RATES.averageWage * RATES.contributionBase.maximum,
+        );
+    });
+});
+
+describe("getContributionBase", () => {
+    const { minimum, maximum } = getContributionBaseBounds(RATES);
+
+    it("should raise a gross below the minimum to the floor", () => {
+        expect(getContributionBase(minimum - 1000, RATES)).toEqual({
+            base: minimum,
+            appliedBound: "floor",
+        });
+    });
+
+    it("should cap a gross above the maximum at the ceiling", () => {
+        expect(getContributionBase(maximum + 1000, RATES)).toEqual({
+            base: maximum,
+            appliedBound: "ceiling",
+        });
+    });
+
+    it("should use a gross within the bounds as-is", () => {
+        expect(getContributionBase(minimum, RATES)).toEqual({
+            base: minimum,
+            appliedBound: null,
+        });
+        expect(getContributionBase(maximum, RATES)).toEqual({
+            base: maximum,
+            appliedBound: null,
+        });
+    });
+
+    it("should not apply the floor when nothing is paid", () => {
+        expect(getContributionBase(0, RATES)).toEqual({
+            base: 0,
+            appliedBound: null,
+        });
+    });
+});
+
 describe("calculateContributions", () => {
     it("should calculate contributions correctly for gross salary of 65000", () => {
         const gross = 65000;
@@ -61,6 +133,30 @@ describe("calculateContributions", () => {
         );
         expect(result.total).toBeLessThan(0);
     });
+
+    it("should calculate contributions on the floor for a low gross", () => {
+        const { minimum } = getContributionBaseBounds(RATES);
+        const result = calculateContributions(minimum / 2, RATES);
+
+        expect(result.base).toBe(minimum);
+        expect(result.appliedBound).toBe("floor");
+        expect(result.total).toBeCloseTo(
+            minimum * getTotalContributionRate(RATES),
+            5,
+        );
+    });
+
+    it("should calculate contributions on the ceiling for a high gross", () => {
+        const { maximum } = getContributionBaseBounds(RATES);
+        const result = calculateContributions(maximum * 2, RATES);
+
+        expect(result.base).toBe(maximum);
+        expect(result.appliedBound).toBe("ceiling");
+        expect(result.total).toBeCloseTo(
+            maximum * getTotalContributionRate(RATES),
+            5,
+        );
+    });
 });
 
 describe("calculateTax", () => {
@@ -70,7 +166,7 @@ describe("calculateTax", () => {
         const expectedTaxableBase = grossAfterContributions - RATES.allowance;
 
         expect(result.taxableBase).toBe(expectedTaxableBase);
-        expect(result.incomeTax).toBe(expectedTaxableBase * RATES.tax);
+        expect(result.incomeTax).toBe(expectedTaxableBase * RATES.tax[0].rate);
     });
 
     it("should return 0 taxable base and tax when grossAfterContributions is below allowance", () => {
@@ -87,6 +183,61 @@ describe("calculateTax", () => {
         expect(result.taxableBase).toBe(0);
         expect(result.incomeTax).toBe(0);
     });
+
+    it("should report a single bracket for a flat rate", () => {
+        const result = calculateTax(50000, RATES);
+
+        expect(result.brackets).toEqual([
+            {
+                rate: RATES.tax[0].rate,
+                taxableAmount: result.taxableBase,
+                incomeTax: result.incomeTax,
+            },
+        ]);
+    });
+
+    it("should split the taxable base across progressive brackets", () => {
+        const grossAfterContributions = PROGRESSIVE_RATES.allowance + 100000;
+        const result = calculateTax(grossAfterContributions, PROGRESSIVE_RATES);
+
+        expect(result.taxableBase).toBe(100000);
+        expect(result.brackets).toEqual([
+            { rate: 0.1, taxableAmount: 90000, incomeTax: 9000 },
+            { rate: 0.18, taxableAmount: 10000, incomeTax: 1800 },
+        ]);
+        expect(result.incomeTax).toBe(10800);
+    });
+
+    it("should leave higher brackets empty below their threshold", () => {
+        const grossAfterContributions = PROGRESSIVE_RATES.allowance + 50000;
+        const result = calculateTax(grossAfterContributions, PROGRESSIVE_RATES);
+
+        expect(result.brackets[1].taxableAmount).toBe(0);
+        expect(result.incomeTax).toBe(5000);
+    });
+
+    it("should use annual thresholds and allowance for an annual amount", () => {
+        const grossAfterContributions =
+            PROGRESSIVE_RATES.allowance * 12 + 1200000;
+        const result = calculateTax(
+            grossAfterContributions,
+            PROGRESSIVE_RATES,
+            "annual",
+        );
+
+        expect(result.taxableBase).toBe(1200000);
+        expect(result.brackets[0].taxableAmount).toBe(1080000);
+        expect(result.brackets[1].taxableAmount).toBe(120000);
+    });
+
+    it("should deduct a given allowance instead of the period's one", () => {
+        const result = calculateTax(50000, RATES, "annual", 20000);
+
+        expect(result.taxableBase).toBe(30000);
+        expect(calculateTax(50000, RATES, "monthly", 0).taxableBase).toBe(
+            50000,
+        );
+    });
 });
 
 describe("calculateNetSalary", () => {
@@ -109,6 +260,49 @@ describe("calculateNetSalary", () => {
     });
 });
 
+describe("getSalaryBreakpoints", () => {
+    it("should return the contribution base bounds", () => {
+        const result = getSalaryBreakpoints(RATES);
+
+        expect(result.contributionFloor).toBe(
+            getContributionBaseBounds(RATES).minimum,
+        );
+        expect(result.contributionCeiling).toBe(
+            getContributionBaseBounds(RATES).maximum,
+        );
+    });
+
+    it("should return the gross at which income tax starts", () => {
+        const { thresholdGross } = getSalaryBreakpoints(RATES);
+
+        expect(
+            calculateNetSalary(thresholdGross - 1, RATES).tax.incomeTax,
+        ).toBe(0);
+        expect(
+            calculateNetSalary(thresholdGross + 1, RATES).tax.incomeTax,
+        ).toBeGreaterThan(0);
+    });
+
+    it("should return the gross at which each further bracket starts", () => {
+        const { bracketGrosses } = getSalaryBreakpoints(PROGRESSIVE_RATES);
+
+        expect(bracketGrosses).toHaveLength(1);
+        const [, higher] = calculateNetSalary(
+            bracketGrosses[0] + 1,
+            PROGRESSIVE_RATES,
+        ).tax.brackets;
+        expect(higher.taxableAmount).toBeGreaterThan(0);
+        expect(
+            calculateNetSalary(bracketGrosses[0] - 1, PROGRESSIVE_RATES).tax
+                .brackets[1].taxableAmount,
+        ).toBe(0);
+    });
+
+    it("should not have further brackets with a flat tax", () => {
+        expect(getSalaryBreakpoints(RATES).bracketGrosses).toEqual([]);
+    });
+});
+
 describe("calculateGrossSalary", () => {
     it("should derive gross from net in no-tax zone", () => {
         // Net amount that should be below the threshold
@@ -149,6 +343,86 @@ describe("calculateGrossSalary", () => {
         expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
         expect(derivedGross.net).toBeCloseTo(netResult.net, 5);
     });
+
+    it("should be reversible across progressive brackets", () => {
+        for (const originalGross of [20000, 100000, 140000, 400000]) {
+            const netResult = calculateNetSalary(
+                originalGross,
+                PROGRESSIVE_RATES,
+            );
+            const derivedGross = calculateGrossSalary(
+                netResult.net,
+                PROGRESSIVE_RATES,
+            );
+
+            expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
+        }
+    });
+
+    it("should be reversible below the contribution floor", () => {
+        const { minimum } = getContributionBaseBounds(RATES);
+        const originalGross = minimum * 0.8;
+        const netResult = calculateNetSalary(originalGross, RATES);
+        const derivedGross = calculateGrossSalary(netResult.net, RATES);
+
+        expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
+        expect(derivedGross.contributions.appliedBound).toBe("floor");
+    });
+
+    it("should be reversible above the contribution ceiling", () => {
+        const { maximum } = getContributionBaseBounds(RATES);
+        const originalGross = maximum * 1.5;
+        const netResult = calculateNetSalary(originalGross, RATES);
+        const derivedGross = calculateGrossSalary(netResult.net, RATES);
+
+        expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
+        expect(derivedGross.contributions.appliedBound).toBe("ceiling");
+    });
+});
+
+describe("calculateEmployerCharges", () => {
+    const ratesWithCharges = {
+        ...RATES,
+        employerCharges: [
+            { name: "Workplace injury insurance", kind: "rate", rate: 0.01 },
+            { name: "Meal allowance", kind: "fixed", amount: 3000 },
+        ],
+    } satisfies typeof RATES;
+
+    it("should apply rate and fixed charges on top of the gross", () => {
+        const result = calculateEmployerCharges(65000, ratesWithCharges);
+
+        expect(result.charges).toEqual([
+            { name: "Workplace injury insurance", amount: 650 },
+            { name: "Meal allowance", amount: 3000 },
+        ]);
+        expect(result.total).toBe(3650);
+        expect(result.totalCost).toBe(68650);
+    });
+
+    it("should not charge anything when nothing is paid", () => {
+        const result = calculateEmployerCharges(0, ratesWithCharges);
+
+        expect(result.total).toBe(0);
+        expect(result.totalCost).toBe(0);
+    });
+
+    it("should equal the gross when no charges are configured", () => {
+        const result = calculateEmployerCharges(65000, {
+            ...RATES,
+            employerCharges: [],
+        });
+
+        expect(result.charges).toEqual([]);
+        expect(result.totalCost).toBe(65000);
+    });
+
+    it("should be reversible with calculateSalaryFromTotalCost", () => {
+        const result = calculateSalaryFromTotalCost(68650, ratesWithCharges);
+
+        expect(result.gross).toBeCloseTo(65000, 5);
+        expect(result.employer.totalCost).toBeCloseTo(68650, 5);
+    });
 });
 
 describe("calculateSalary", () => {
@@ -168,6 +442,17 @@ describe("calculateSalary", () => {
         expect(result).toEqual(expected);
     });
 
+    it("should calculate gross and net when type is totalCost", () => {
+        const totalCost = 65000;
+        const result = calculateSalary({
+            type: "totalCost",
+            amount: totalCost,
+        });
+        const expected = calculateSalaryFromTotalCost(totalCost, RATES);
+
+        expect(result).toEqual(expected);
+    });
+
     it("should handle edge case: gross input of 0", () => {
         const result = calculateSalary({ type: "gross", amount: 0 });
 
@@ -182,3 +467,584 @@ describe("calculateSalary", () => {
         expect(result.gross).toBeCloseTo(0, 5);
     });
 });
+
+describe("getMinimumWage", () => {
+    it("should return the configured minimum wage for full-time work", () => {
+        expect(getMinimumWage(RATES)).toEqual(RATES.minimumWage);
+    });
+
+    it("should pro-rate the gross minimum wage for part-time work", () => {
+        const result = getMinimumWage(RATES, 0.5);
+
+        expect(result.gross).toBe(RATES.minimumWage.gross / 2);
+        expect(result.net).toBe(
+            calculateNetSalary(result.gross, RATES, { workFraction: 0.5 }).net,
+        );
+    });
+});
+
+describe("part-time work", () => {
+    it("should pro-rate the contribution floor to the work fraction", () => {
+        const fullTime = getContributionBaseBounds(RATES);
+        const halfTime = getContributionBaseBounds(RATES, {
+            workFraction: 0.5,
+        });
+
+        expect(halfTime.minimum).toBe(fullTime.minimum / 2);
+        expect(halfTime.maximum).toBe(fullTime.maximum);
+    });
+
+    it("should not apply the floor to a pro-rated part-time gross", () => {
+        const { minimum } = getContributionBaseBounds(RATES);
+        const result = calculateNetSalary(minimum * 0.6, RATES, {
+            workFraction: 0.5,
+        });
+
+        expect(result.contributions.appliedBound).toBeNull();
+        expect(result.contributions.base).toBe(minimum * 0.6);
+    });
+
+    it("should report hourly equivalents for the paid hours", () => {
+        const result = calculateNetSalary(40000, RATES, { workFraction: 0.5 });
+        const monthlyHours = getMonthlyHours(0.5);
+
+        expect(result.workFraction).toBe(0.5);
+        expect(result.hourly.gross).toBeCloseTo(40000 / monthlyHours, 5);
+        expect(result.hourly.net).toBeCloseTo(result.net / monthlyHours, 5);
+    });
+
+    it("should be reversible for part-time work", () => {
+        const options = { workFraction: 0.25 };
+        const netResult = calculateNetSalary(12000, RATES, options);
+        const derivedGross = calculateGrossSalary(
+            netResult.net,
+            RATES,
+            options,
+        );
+
+        expect(derivedGross.gross).toBeCloseTo(12000, 5);
+    });
+
+    it("should derive the monthly gross from an hourly rate", () => {
+        const result = calculateSalary({
+            type: "hourly",
+            amount: 300,
+            workFraction: 0.5,
+        });
+
+        expect(result.gross).toBeCloseTo(300 * getMonthlyHours(0.5), 5);
+        expect(result.hourly.gross).toBeCloseTo(300, 5);
+    });
+});
+
+describe("benefits", () => {
+    const { annualLeave, meal } = RATES.benefitExemptions;
+
+    it("should exempt benefits up to their yearly limit", () => {
+        const result = calculateBenefits(
+            [
+                { kind: "annualLeave", amount: annualLeave + 5000 },
+                { kind: "meal", amount: 3000 },
+            ],
+            RATES,
+        );
+
+        expect(result.items[0]).toEqual({
+            kind: "annualLeave",
+            amount: annualLeave + 5000,
+            exempt: annualLeave,
+            taxable: 5000,
+        });
+        expect(result.items[1].taxable).toBe(0);
+        expect(result.exempt).toBe(annualLeave + 3000);
+        expect(result.taxable).toBe(5000);
+    });
+
+    it("should only exempt what is left of the yearly limit", () => {
+        const result = calculateBenefits(
+            [{ kind: "meal", amount: 4000, usedThisYear: meal - 1000 }],
+            RATES,
+        );
+
+        expect(result.exempt).toBe(1000);
+        expect(result.taxable).toBe(3000);
+    });
+
+    it("should add exempt benefits to net without tax or contributions", () => {
+        const plain = calculateNetSalary(65000, RATES);
+        const result = calculateNetSalary(65000, RATES, {
+            benefits: [{ kind: "transport", amount: 2000 }],
+        });
+
+        expect(result.contributions).toEqual(plain.contributions);
+        expect(result.tax).toEqual(plain.tax);
+        expect(result.net).toBe(plain.net + 2000);
+    });
+
+    it("should tax the excess over the limit as income", () => {
+        const plain = calculateNetSalary(65000, RATES);
+        const result = calculateNetSalary(65000, RATES, {
+            benefits: [{ kind: "annualLeave", amount: annualLeave + 5000 }],
+        });
+        const withExcess = calculateNetSalary(70000, RATES);
+
+        expect(result.contributions).toEqual(withExcess.contributions);
+        expect(result.tax).toEqual(withExcess.tax);
+        expect(result.net).toBeCloseTo(
+            withExcess.net - 5000 + annualLeave + 5000,
+            5,
+        );
+        expect(result.tax.taxableBase).toBeGreaterThan(plain.tax.taxableBase);
+    });
+
+    it("should charge contributions on the excess over the limit", () => {
+        const contributionRate = getTotalContributionRate(RATES);
+        const plain = calculateNetSalary(65000, RATES);
+        const result = calculateNetSalary(65000, RATES, {
+            benefits: [{ kind: "annualLeave", amount: annualLeave + 5000 }],
+        });
+
+        expect(result.contributions.base).toBe(70000);
+        expect(result.contributions.total).toBeCloseTo(
+            plain.contributions.total + 5000 * contributionRate,
+            5,
+        );
+    });
+
+    it("should keep the contribution ceiling with taxable benefits", () => {
+        const { maximum } = getContributionBaseBounds(RATES);
+        const result = calculateNetSalary(maximum, RATES, {
+            benefits: [{ kind: "annualLeave", amount: annualLeave + 5000 }],
+        });
+
+        expect(result.contributions.base).toBe(maximum);
+        expect(result.contributions.appliedBound).toBe("ceiling");
+    });
+
+    it("should be reversible with taxable benefits", () => {
+        const options = {
+            benefits: [
+                { kind: "annualLeave" as const, amount: annualLeave + 20000 },
+            ],
+        };
+
+        for (const originalGross of [5000, 20000, 100000]) {
+            const netResult = calculateNetSalary(
+                originalGross,
+                PROGRESSIVE_RATES,
+                options,
+            );
+            const derivedGross = calculateGrossSalary(
+                netResult.net,
+                PROGRESSIVE_RATES,
+                options,
+            );
+
+            expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
+        }
+    });
+
+    it("should keep the rounded benefit split consistent", () => {
+        const result = finalizeSalary(
+            calculateNetSalary(65000, RATES, {
+                benefits: [{ kind: "jubilee", amount: 40000.4 }],
+            }),
+        );
+
+        for (const item of result.benefits.items) {
+            expect(item.exempt + item.taxable).toBe(item.amount);
+        }
+        expect(result.benefits.total).toBe(
+            result.benefits.exempt + result.benefits.taxable,
+        );
+    });
+});
+
+describe("secondary employment", () => {
+    it("should only deduct the allowance when the employer applies it", () => {
+        expect(getAllowance(RATES)).toBe(RATES.allowance);
+        expect(getAllowance(RATES, { applyAllowance: false })).toBe(0);
+    });
+
+    it("should tax a secondary job without the allowance", () => {
+        const primary = calculateNetSalary(30000, RATES);
+        const secondary = calculateNetSalary(30000, RATES, {
+            applyAllowance: false,
+        });
+
+        expect(secondary.tax.taxableBase).toBeCloseTo(
+            30000 - secondary.contributions.total,
+            5,
+        );
+        expect(primary.net - secondary.net).toBeCloseTo(
+            RATES.allowance * RATES.tax[0].rate,
+            5,
+        );
+    });
+
+    it("should be reversible without the allowance", () => {
+        const options = { applyAllowance: false };
+
+        for (const originalGross of [20000, 50000, 200000]) {
+            const netResult = calculateNetSalary(
+                originalGross,
+                PROGRESSIVE_RATES,
+                options,
+            );
+            const derivedGross = calculateGrossSalary(
+                netResult.net,
+                PROGRESSIVE_RATES,
+                options,
+            );
+
+            expect(derivedGross.gross).toBeCloseTo(originalGross, 5);
+            expect(derivedGross.tax.taxableBase).toBeCloseTo(
+                netResult.tax.taxableBase,
+                5,
+            );
+        }
+    });
+});
+
+describe("finalizeSalary", () => {
+    const salaryInput = fc.record({
+        type: fc.constantFrom("gross" as const, "net" as const),
+        amount: fc.double({ min: 1000, max: 2_000_000, noNaN: true }),
+        workFraction: fc.constantFrom(0.25, 0.5, 0.75, 1),
+        applyAllowance: fc.boolean(),
+        benefits: fc.array(
+            fc.record({
+                kind: fc.constantFrom(...BenefitKinds),
+                amount: fc.double({ min: 0, max: 100_000, noNaN: true }),
+            }),
+            { maxLength: 3 },
+        ),
+    });
+    const rates = fc.constantFrom(RATES, PROGRESSIVE_RATES);
+
+    it("should return whole denars that reconcile with gross and net", () => {
+        fc.assert(
+            fc.property(salaryInput, rates, (input, rates) => {
+                const result = finalizeSalary(calculateSalary(input, rates));
+                const { contributions, tax, benefits, employer } = result;
+
+                for (const amount of [
+                    result.gross,
+                    result.net,
+                    contributions.total,
+                    tax.incomeTax,
+                    benefits.total,
+                    employer.totalCost,
+                ]) {
+                    expect(Number.isInteger(amount)).toBe(true);
+                }
+
+                expect(result.net).toBe(
+                    result.gross -
+                        contributions.total +
+                        benefits.total -
+                        tax.incomeTax,
+                );
+                expect(contributions.total).toBe(
+                    contributions.pensionAndDisability +
+                        contributions.healthInsurance +
+                        contributions.unemploymentInsurance +
+                        contributions.additionalHealthInsurance,
+                );
+                expect(
+                    tax.brackets.reduce(
+                        (sum, bracket) => sum + bracket.taxableAmount,
+                        0,
+                    ),
+                ).toBe(tax.taxableBase);
+                expect(
+                    tax.brackets.reduce(
+                        (sum, bracket) => sum + bracket.incomeTax,
+                        0,
+                    ),
+                ).toBe(tax.incomeTax);
+                expect(benefits.total).toBe(benefits.exempt + benefits.taxable);
+                expect(employer.totalCost).toBe(
+                    result.gross +
+                        employer.charges.reduce(
+                            (sum, charge) => sum + charge.amount,
+                            0,
+                        ),
+                );
+            }),
+        );
+    });
+
+    it("should stay within a few denars of the unrounded net", () => {
+        fc.assert(
+            fc.property(salaryInput, rates, (input, rates) => {
+                const salary = calculateSalary(input, rates);
+                const result = finalizeSalary(salary);
+                // Half a denar of rounding on the gross, every contribution
+                // line, every bracket and every benefit part.
+                const lines =
+                    1 +
+                    4 +
+                    2 * salary.tax.brackets.length +
+                    2 * salary.benefits.items.length;
+
+                expect(Math.abs(result.net - salary.net)).toBeLessThanOrEqual(
+                    lines / 2,
+                );
+            }),
+        );
+    });
+
+    it("should follow the rounding policy", () => {
+        const salary = calculateNetSalary(65432.5, RATES);
+        const down = finalizeSalary(salary, {
+            amounts: "down",
+            contributions: "down",
+            incomeTax: "down",
+            employerCharges: "down",
+        });
+        const up = finalizeSalary(salary, {
+            amounts: "up",
+            contributions: "up",
+            incomeTax: "up",
+            employerCharges: "up",
+        });
+
+        expect(down.gross).toBe(65432);
+        expect(up.gross).toBe(65433);
+        expect(down.contributions.pensionAndDisability).toBe(
+            Math.floor(salary.contributions.pensionAndDisability),
+        );
+        expect(up.contributions.pensionAndDisability).toBe(
+            Math.ceil(salary.contributions.pensionAndDisability),
+        );
+        expect(down.net).toBe(
+            down.gross - down.contributions.total - down.tax.incomeTax,
+        );
+    });
+
+    it("should finalize salaries too large to count in millionths", () => {
+        const result = finalizeSalary(calculateNetSalary(1e17, RATES));
+
+        expect(result.gross).toBe(1e17);
+        expect(Number.isInteger(result.net)).toBe(true);
+    });
+});
+
+/**
+ * Every number in a rates config, whatever field it is in, so boundaries of
+ * rules added later are tested without changing these tests.
+ */
+function getConfiguredNumbers(value: unknown): number[] {
+    if (typeof value === "number") return [value];
+    if (value !== null && typeof value === "object") {
+        return Object.values(value).flatMap(getConfiguredNumbers);
+    }
+    return [];
+}
+
+/**
+ * Returns a copy of a rates config with every number scaled by the next
+ * factor, cycling through `factors`.
+ */
+function scaleConfiguredNumbers<T>(value: T, factors: number[]): T {
+    let index = 0;
+    const scale = (value: unknown): unknown => {
+        if (typeof value === "number") {
+            return value * factors[index++ % factors.length];
+        }
+        if (Array.isArray(value)) return value.map(scale);
+        if (value !== null && typeof value === "object") {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, entry]) => [
+                    key,
+                    scale(entry),
+                ]),
+            );
+        }
+        return value;
+    };
+    return scale(value) as T;
+}
+
+/**
+ * Grosses at and around every point where a rule starts or stops applying:
+ * the contribution bounds, the gross where each tax bracket starts, and every
+ * amount in the config.
+ */
+function getBoundaryGrosses(
+    rates: RatesConfig,
+    options: SalaryOptions,
+): number[] {
+    const { minimum, maximum } = getContributionBaseBounds(rates, options);
+    const contributionRate = getTotalContributionRate(rates);
+    const allowance = getAllowance(rates, options);
+    const taxable = calculateBenefits(options.benefits ?? [], rates).taxable;
+
+    const boundaries = [
+        minimum,
+        maximum,
+        ...rates.tax.map(
+            (bracket) =>
+                (allowance + bracket.threshold.monthly - taxable) /
+                (1 - contributionRate),
+        ),
+        ...getConfiguredNumbers(rates).filter((value) => value > 1),
+    ];
+
+    return boundaries
+        .flatMap((gross) => [gross - 1, gross - 0.01, gross, gross + 0.01])
+        .filter((gross) => gross > 0 && gross <= SALARY_AMOUNT_CEILING);
+}
+
+describe("gross and net round trip", () => {
+    const scenario = fc
+        .record({
+            year: fc.constantFrom(...AvailableYears),
+            factors: fc.option(
+                fc.array(fc.double({ min: 0.8, max: 1.2, noNaN: true }), {
+                    minLength: 1,
+                    maxLength: 64,
+                }),
+            ),
+            extraBracket: fc.option(
+                fc.record({
+                    monthly: fc.integer({ min: 10000, max: 500000 }),
+                    rate: fc.double({ min: 0.01, max: 0.3, noNaN: true }),
+                }),
+            ),
+            workFraction: fc.constantFrom(0.25, 0.5, 0.75, 1),
+            applyAllowance: fc.boolean(),
+            benefits: fc.array(
+                fc.record({
+                    kind: fc.constantFrom(...BenefitKinds),
+                    amount: fc.double({ min: 0, max: 100_000, noNaN: true }),
+                }),
+                { maxLength: 2 },
+            ),
+        })
+        .map(({ year, factors, extraBracket, ...options }) => {
+            const configured = getRates(year);
+            const scaled = factors
+                ? scaleConfiguredNumbers(configured, factors)
+                : configured;
+            const lastBracket = scaled.tax[scaled.tax.length - 1];
+            const rates: RatesConfig = extraBracket
+                ? {
+                      ...scaled,
+                      tax: [
+                          ...scaled.tax,
+                          {
+                              threshold: {
+                                  monthly:
+                                      lastBracket.threshold.monthly +
+                                      extraBracket.monthly,
+                                  annual:
+                                      lastBracket.threshold.annual +
+                                      extraBracket.monthly * 12,
+                              },
+                              rate: lastBracket.rate + extraBracket.rate,
+                          },
+                      ],
+                  }
+                : scaled;
+
+            return { rates, options: options as SalaryOptions };
+        });
+    const gross = fc.double({
+        min: 1,
+        max: SALARY_AMOUNT_CEILING,
+        noNaN: true,
+    });
+
+    it("should recover the gross from the net", () => {
+        fc.assert(
+            fc.property(scenario, gross, ({ rates, options }, gross) => {
+                for (const original of [
+                    gross,
+                    ...getBoundaryGrosses(rates, options),
+                ]) {
+                    const { net } = calculateNetSalary(
+                        original,
+                        rates,
+                        options,
+                    );
+                    // A net of zero or less is reversed as no pay at all
+                    if (net <= 0) continue;
+
+                    const derived = calculateGrossSalary(net, rates, options);
+
+                    expect(
+                        Math.abs(derived.gross - original),
+                    ).toBeLessThanOrEqual(1e-6 * Math.max(1, original));
+                    expect(Math.abs(derived.net - net)).toBeLessThanOrEqual(
+                        1e-6 * Math.max(1, net),
+                    );
+                }
+            }),
+        );
+    });
+
+    it("should never lower the net when the gross rises", () => {
+        fc.assert(
+            fc.property(
+                scenario,
+                gross,
+                fc.double({ min: 0, max: 100_000, noNaN: true }),
+                ({ rates, options }, gross, raise) => {
+                    const pairs = [
+                        [gross, gross + raise],
+                        ...getBoundaryGrosses(rates, options).map((gross) => [
+                            gross,
+                            gross + 0.01,
+                        ]),
+                    ];
+
+                    for (const [lower, higher] of pairs) {
+                        expect(
+                            calculateNetSalary(higher, rates, options).net,
+                        ).toBeGreaterThanOrEqual(
+                            calculateNetSalary(lower, rates, options).net -
+                                1e-6,
+                        );
+                    }
+                },
+            ),
+        );
+    });
+
+    it("should agree after finalizeSalary", () => {
+        fc.assert(
+            fc.property(
+                scenario,
+                fc.integer({ min: 1, max: SALARY_AMOUNT_CEILING }),
+                ({ rates, options }, gross) => {
+                    const fromGross = calculateNetSalary(gross, rates, options);
+                    fc.pre(fromGross.net > 0);
+
+                    const fromNet = calculateGrossSalary(
+                        fromGross.net,
+                        rates,
+                        options,
+                    );
+                    const finalGross = finalizeSalary(fromGross);
+                    const finalNet = finalizeSalary(fromNet);
+
+                    expect(finalNet.gross).toBe(finalGross.gross);
+                    expect(
+                        Math.abs(finalNet.net - finalGross.net),
+                    ).toBeLessThanOrEqual(1);
+                    expect(
+                        Math.abs(finalNet.net - fromGross.net),
+                    ).toBeLessThanOrEqual(
+                        (1 +
+                            4 +
+                            2 * rates.tax.length +
+                            2 * (options.benefits?.length ?? 0)) /
+                            2,
+                    );
+                },
+            ),
+        );
+    });
+});
@@ -1,10 +1,15 @@
+import {
+    DEFAULT_ROUNDING_POLICY,
+    type Denars,
+    denars,
+    type RoundingPolicy,
+    roundMoney,
+    sumDenars,
+    toDenars,
+} from "./money";
 import { getRates } from "./rates-configs";
 import type { RatesConfig } from "./rates-configs/types";
-
-export function roundMoney(value: number, decimals: number = 0): number {
-    const factor = 10 ** decimals;
-    return Math.round((value + Number.EPSILON) * factor) / factor;
-}
+import { getMonthlyHours } from "./work-time";
 
 /**
  * Returns the total employee contribution rate by summing the individual
@@ -37,31 +42,147 @@ export function getTotalContributionRate(rates: RatesConfig): number {
     );
 }
 
-type ContributionsBreakdown = {
-    pensionAndDisability: number;
-    healthInsurance: number;
-    additionalHealthInsurance: number;
-    unemploymentInsurance: number;
-    total: number;
+export type BenefitKind = keyof RatesConfig["benefitExemptions"];
+
+export const BenefitKinds: BenefitKind[] = [
+    "annualLeave",
+    "meal",
+    "transport",
+    "jubilee",
+];
+
+/**
+ * An earnings item paid on top of the salary that is exempt from
+ * contributions and income tax up to a yearly limit.
+ */
+export type BenefitItem = {
+    kind: BenefitKind;
+    amount: number;
+    /** Part of the yearly exempt limit already used earlier this year (defaults to 0). */
+    usedThisYear?: number;
+};
+
+/**
+ * Circumstances of the employment that change how a salary is calculated.
+ */
+export type SalaryOptions = {
+    /** Share of full-time work, e.g. 0.5 for half-time (defaults to 1). */
+    workFraction?: number;
+    /** Benefits paid on top of the salary this month. */
+    benefits?: BenefitItem[];
+    /**
+     * Whether the employer deducts the tax-free allowance (defaults to true).
+     * Only the primary employer may apply it; secondary jobs are taxed in full.
+     */
+    applyAllowance?: boolean;
+};
+
+/**
+ * Returns the monthly tax-free allowance the employer deducts: the year's
+ * allowance for the primary employer and nothing for a secondary job.
+ */
+export function getAllowance(
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): number {
+    return (options.applyAllowance ?? true) ? rates.allowance : 0;
+}
+
+export type ContributionBaseBound = "floor" | "ceiling" | null;
+
+export type ContributionsBreakdown<Amount extends number = number> = {
+    base: Amount;
+    appliedBound: ContributionBaseBound;
+    pensionAndDisability: Amount;
+    healthInsurance: Amount;
+    additionalHealthInsurance: Amount;
+    unemploymentInsurance: Amount;
+    total: Amount;
 };
 
+/**
+ * Returns the lowest and highest monthly contribution base in MKD, derived
+ * from the year's average wage and the `rates.contributionBase` multiples.
+ * The lowest base is pro-rated to the work fraction for part-time work.
+ *
+ * @param {RatesConfig} rates - Rates object containing `averageWage` and `contributionBase`.
+ * @param {SalaryOptions} options - Employment options (work fraction).
+ * @returns {{ minimum: number; maximum: number }} Contribution base bounds (no rounding).
+ */
+export function getContributionBaseBounds(
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): {
+    minimum: number;
+    maximum: number;
+} {
+    const { averageWage, contributionBase } = rates;
+    const { workFraction = 1 } = options;
+
+    return {
+        minimum: averageWage * contributionBase.minimum * workFraction,
+        maximum: averageWage * contributionBase.maximum,
+    };
+}
+
+/**
+ * Determines the base that contributions are calculated on for a gross salary.
+ *
+ * A paid gross below the minimum base is raised to the floor and a gross above
+ * the maximum base is capped at the ceiling. A gross of zero or less means
+ * nothing was paid, so it is used as-is and no bound applies.
+ *
+ * @param {number} gross - Gross salary amount.
+ * @param {RatesConfig} rates - Rates object containing the contribution base bounds.
+ * @param {SalaryOptions} options - Employment options (work fraction).
+ * @returns {{ base: number; appliedBound: ContributionBaseBound }} The contribution base and
+ *   which bound (if any) was applied to reach it.
+ */
+export function getContributionBase(
+    gross: number,
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): { base: number; appliedBound: ContributionBaseBound } {
+    if (gross <= 0) {
+        return { base: gross, appliedBound: null };
+    }
+
+    const { minimum, maximum } = getContributionBaseBounds(rates, options);
+
+    if (gross < minimum) {
+        return { base: minimum, appliedBound: "floor" };
+    }
+
+    if (gross > maximum) {
+        return { base: maximum, appliedBound: "ceiling" };
+    }
+
+    return { base: gross, appliedBound: null };
+}
+
 /**
  * Calculates employee contributions based on a gross salary and contribution rates.
  *
- * The function multiplies the provided gross amount by each of the contribution
- * rates (pensionAndDisability, healthInsurance, unemploymentInsurance, additionalHealthInsurance) found in rates.contributions
- * and returns a ContributionsBreakdown with the individual amounts and their total.
+ * The gross amount is first clamped to the contribution base bounds (see
+ * `getContributionBase`), then multiplied by each of the contribution rates
+ * (pensionAndDisability, healthInsurance, unemploymentInsurance, additionalHealthInsurance) found in rates.contributions.
+ * The result is a ContributionsBreakdown with the base, the bound that was applied,
+ * the individual amounts and their total.
  *
  * Values are returned as raw numbers (no rounding) and the rates are expected
  * to be provided as decimals (for example, 0.1 for 10%).
  *
  * @param {number} gross - Gross salary amount used to compute contributions.
- * @param {Rates} rates - Rates object containing the contribution rates:
+ * @param {Rates} rates - Rates object containing the contribution rates and base bounds:
  *   - rates.contributions.pensionAndDisability: pension contribution rate (decimal).
  *   - rates.contributions.healthInsurance contribution rate (decimal).
  *   - rates.contributions.unemploymentInsurance: unemployment contribution rate (decimal).
  *   - rates.contributions.additionalHealthInsurance: additional health/injury contribution rate (decimal).
+ *   - rates.averageWage and rates.contributionBase: used to derive the base bounds.
+ * @param {SalaryOptions} options - Employment options (work fraction).
  * @returns {ContributionsBreakdown} Breakdown with fields:
+ *   - base: number - amount the contributions were calculated on
+ *   - appliedBound: "floor" | "ceiling" | null - bound applied to the gross, if any
  *   - pensionAndDisability: number - pension contribution amount
  *   - healthInsurance: number - health contribution amount
  *   - additionalHealthInsurance: number - unemployment contribution amount
@@ -71,6 +192,7 @@ type ContributionsBreakdown = {
 export function calculateContributions(
     gross: number,
     rates: RatesConfig,
+    options: SalaryOptions = {},
 ): ContributionsBreakdown {
     const {
         pensionAndDisability,
@@ -79,24 +201,37 @@ export function calculateContributions(
         additionalHealthInsurance,
     } = rates.contributions;
 
+    const { base, appliedBound } = getContributionBase(gross, rates, options);
+
     const total =
-        gross * pensionAndDisability +
-        gross * healthInsurance +
-        gross * unemploymentInsurance +
-        gross * additionalHealthInsurance;
+        base * pensionAndDisability +
+        base * healthInsurance +
+        base * unemploymentInsurance +
+        base * additionalHealthInsurance;
 
     return {
-        pensionAndDisability: gross * pensionAndDisability,
-        healthInsurance: gross * healthInsurance,
-        additionalHealthInsurance: gross * additionalHealthInsurance,
-        unemploymentInsurance: gross * unemploymentInsurance,
+        base,
+        appliedBound,
+        pensionAndDisability: base * pensionAndDisability,
+        healthInsurance: base * healthInsurance,
+        additionalHealthInsurance: base * additionalHealthInsurance,
+        unemploymentInsurance: base * unemploymentInsurance,
         total,
     };
 }
 
-export type TaxBreakdown = {
-    taxableBase: number;
-    incomeTax: number;
+export type TaxPeriod = "monthly" | "annual";
+
+export type TaxBracketBreakdown<Amount extends number = number> = {
+    rate: number;
+    taxableAmount: Amount;
+    incomeTax: Amount;
+};
+
+export type TaxBreakdown<Amount extends number = number> = {
+    taxableBase: Amount;
+    incomeTax: Amount;
+    brackets: TaxBracketBreakdown<Amount>[];
 };
 
 /**
@@ -104,66 +239,335 @@ export type TaxBreakdown = {
  *
  * The function determines the taxable base by subtracting the tax-free allowance
  * from the grossAfterContributions and clamping the result to a minimum of 0.
- * It then applies the flat tax rate to the taxable base to compute the income tax.
+ * The taxable base is then split across the tax brackets and each part is taxed
+ * at its bracket's rate; the income tax is the sum of all parts.
+ *
+ * For an annual calculation the yearly bracket thresholds and twelve times the
+ * monthly allowance are used, unless a different allowance is given.
  *
  * @param {number} grossAfterContributions - Gross salary remaining after employee contributions have been deducted.
- * @param {Rates} rates - Rates object containing the tax rate and allowance:
- *   - rates.tax: flat income tax rate (e.g. 0.2 for 20%)
- *   - rates.allowance: tax-free allowance amount
+ * @param {Rates} rates - Rates object containing the tax brackets and allowance:
+ *   - rates.tax: ordered tax brackets, each with a threshold and a rate (e.g. 0.1 for 10%)
+ *   - rates.allowance: monthly tax-free allowance amount
+ * @param {TaxPeriod} period - Whether `grossAfterContributions` is a monthly or an annual amount.
+ * @param {number} allowance - Tax-free allowance to deduct (defaults to the allowance for the period).
  * @returns {TaxBreakdown} Object containing:
  *   - taxableBase: number - amount subject to income tax (>= 0)
- *   - incomeTax: number - income tax computed as taxableBase * tax
+ *   - incomeTax: number - total income tax over all brackets
+ *   - brackets: { rate, taxableAmount, incomeTax }[] - part of the taxable base and tax per bracket
  */
 export function calculateTax(
     grossAfterContributions: number,
     rates: RatesConfig,
+    period: TaxPeriod = "monthly",
+    allowance: number = period === "annual"
+        ? rates.allowance * 12
+        : rates.allowance,
 ): TaxBreakdown {
-    const { tax, allowance } = rates;
+    const { tax } = rates;
 
     const taxableBase = Math.max(0, grossAfterContributions - allowance);
 
-    const incomeTax = taxableBase * tax;
+    const brackets = tax.map((bracket, index) => {
+        const next = tax[index + 1];
+        const from = bracket.threshold[period];
+        const to = next ? next.threshold[period] : Number.POSITIVE_INFINITY;
+        const taxableAmount = Math.max(0, Math.min(taxableBase, to) - from);
+
+        return {
+            rate: bracket.rate,
+            taxableAmount,
+            incomeTax: taxableAmount * bracket.rate,
+        };
+    });
+
+    const incomeTax = brackets.reduce(
+        (sum, bracket) => sum + bracket.incomeTax,
+        0,
+    );
 
     return {
         taxableBase,
         incomeTax,
+        brackets,
+    };
+}
+
+export type BenefitsBreakdown<Amount extends number = number> = {
+    items: {
+        kind: BenefitKind;
+        amount: Amount;
+        exempt: Amount;
+        taxable: Amount;
+    }[];
+    total: Amount;
+    exempt: Amount;
+    taxable: Amount;
+};
+
+/**
+ * Splits benefits into their exempt and taxable parts.
+ *
+ * Each benefit is exempt up to what is left of its yearly limit in
+ * `rates.benefitExemptions` after `usedThisYear`; anything above that is
+ * taxable income.
+ *
+ * @param {BenefitItem[]} benefits - Benefits paid this month.
+ * @param {RatesConfig} rates - Rates object containing `benefitExemptions`.
+ * @returns {BenefitsBreakdown} Object containing:
+ *   - items: { kind, amount, exempt, taxable }[] - split of every benefit
+ *   - total: number - sum of all benefits
+ *   - exempt: number - sum of the exempt parts
+ *   - taxable: number - sum of the taxable parts
+ */
+export function calculateBenefits(
+    benefits: BenefitItem[],
+    rates: RatesConfig,
+): BenefitsBreakdown {
+    const items = benefits.map((benefit) => {
+        const remaining = Math.max(
+            0,
+            rates.benefitExemptions[benefit.kind] - (benefit.usedThisYear ?? 0),
+        );
+        const exempt = Math.min(Math.max(0, benefit.amount), remaining);
+
+        return {
+            kind: benefit.kind,
+            amount: benefit.amount,
+            exempt,
+            taxable: benefit.amount - exempt,
+        };
+    });
+
+    return {
+        items,
+        total: items.reduce((sum, item) => sum + item.amount, 0),
+        exempt: items.reduce((sum, item) => sum + item.exempt, 0),
+        taxable: items.reduce((sum, item) => sum + item.taxable, 0),
+    };
+}
+
+export type EmployerChargesBreakdown<Amount extends number = number> = {
+    charges: { name: string; amount: Amount }[];
+    total: Amount;
+    totalCost: Amount;
+};
+
+/**
+ * Calculates the charges the employer pays on top of a gross salary.
+ *
+ * Percentage charges are applied to the gross and fixed charges are added as-is.
+ * A gross of zero or less means nothing was paid, so no charges apply.
+ *
+ * @param {number} gross - Gross salary amount.
+ * @param {RatesConfig} rates - Rates object containing `employerCharges`.
+ * @returns {EmployerChargesBreakdown} Object containing:
+ *   - charges: { name, amount }[] - amount of every configured charge (no rounding)
+ *   - total: number - sum of all charges
+ *   - totalCost: number - gross plus all charges
+ */
+export function calculateEmployerCharges(
+    gross: number,
+    rates: RatesConfig,
+): EmployerChargesBreakdown {
+    const charges = rates.employerCharges.map((charge) => {
+        if (gross <= 0) {
+            return { name: charge.name, amount: 0 };
+        }
+
+        return {
+            name: charge.name,
+            amount:
+                charge.kind === "rate" ? gross * charge.rate : charge.amount,
+        };
+    });
+
+    const total = charges.reduce((sum, charge) => sum + charge.amount, 0);
+
+    return {
+        charges,
+        total,
+        totalCost: gross + total,
     };
 }
 
-export type SalaryBreakdown = {
-    gross: number;
-    net: number;
-    contributions: ContributionsBreakdown;
-    tax: TaxBreakdown;
+/**
+ * A salary with every line and total. Calculations return plain numbers;
+ * `finalizeSalary` returns a `FinalizedSalaryBreakdown` in whole denars.
+ */
+export type SalaryBreakdown<Amount extends number = number> = {
+    gross: Amount;
+    net: Amount;
+    contributions: ContributionsBreakdown<Amount>;
+    tax: TaxBreakdown<Amount>;
+    benefits: BenefitsBreakdown<Amount>;
+    employer: EmployerChargesBreakdown<Amount>;
+    workFraction: number;
+    /** Gross and net per paid hour for the work fraction. */
+    hourly: {
+        gross: number;
+        net: number;
+    };
 };
 
+/** A salary breakdown rounded to whole denars, see `finalizeSalary`. */
+export type FinalizedSalaryBreakdown = SalaryBreakdown<Denars>;
+
 /**
  * Calculates the net salary and full breakdown for a given gross salary.
  *
  * Steps:
- * - Calculates employee contributions (pension, health, unemployment, injury).
- * - Subtracts total contributions from gross to obtain grossAfterContributions.
- * - Computes taxable base as max(0, grossAfterContributions - allowance).
- * - Applies flat income tax to the taxable base and derives net = grossAfterContributions - incomeTax.
+ * - Splits the benefits into their exempt and taxable parts. The taxable part
+ *   (the excess over the yearly limits) is earnings like the gross, so it is
+ *   subject to both contributions and income tax.
+ * - Calculates employee contributions (pension, health, unemployment, injury)
+ *   on the gross plus taxable benefits, clamped to the contribution base bounds.
+ * - Subtracts total contributions from the gross plus taxable benefits to
+ *   obtain grossAfterContributions.
+ * - Computes taxable base as max(0, grossAfterContributions - allowance),
+ *   where the allowance is only deducted when the employer applies it.
+ * - Applies the income tax brackets to the taxable base and derives
+ *   net = grossAfterContributions + exempt benefits - incomeTax.
+ * - Adds the employer-side charges to derive the total cost to the employer.
+ * - Divides gross and net by the paid hours per month for the hourly equivalents.
  *
  * @param {number} gross - Gross salary amount (before contributions and tax).
- * @param {Rates} rates - Rates object containing contributions, tax and allowance.
- * @returns {SalaryBreakdown} Salary breakdown: { gross, net, contributions, tax }.
+ * @param {Rates} rates - Rates object containing contributions, tax, allowance and employer charges.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
+ * @returns {SalaryBreakdown} Salary breakdown: { gross, net, contributions, tax, benefits, employer, workFraction, hourly }.
  */
 export function calculateNetSalary(
     gross: number,
     rates: RatesConfig,
+    options: SalaryOptions = {},
 ): SalaryBreakdown {
-    const contributions = calculateContributions(gross, rates);
-    const grossAfterContributions = gross - contributions.total;
-    const tax = calculateTax(grossAfterContributions, rates);
-    const net = grossAfterContributions - tax.incomeTax;
+    const { workFraction = 1 } = options;
+
+    const benefits = calculateBenefits(options.benefits ?? [], rates);
+    const contributions = calculateContributions(
+        gross + benefits.taxable,
+        rates,
+        options,
+    );
+    const grossAfterContributions =
+        gross + benefits.taxable - contributions.total;
+    const tax = calculateTax(
+        grossAfterContributions,
+        rates,
+        "monthly",
+        getAllowance(rates, options),
+    );
+    const net = grossAfterContributions + benefits.exempt - tax.incomeTax;
+    const employer = calculateEmployerCharges(gross, rates);
+    const monthlyHours = getMonthlyHours(workFraction);
 
     return {
         gross,
         net,
         contributions,
         tax,
+        benefits,
+        employer,
+        workFraction,
+        hourly: {
+            gross: gross / monthlyHours,
+            net: net / monthlyHours,
+        },
+    };
+}
+
+/**
+ * Inverts a monotonically increasing, piecewise-linear function.
+ *
+ * `breakpoints` must contain every positive input at which `fn` changes slope.
+ * The function is sampled on both sides of every breakpoint, so each pair of
+ * neighbouring samples lies on a single linear piece and the result is exact
+ * (up to floating point precision) rather than approximated.
+ */
+function invertPiecewiseLinear(
+    fn: (input: number) => number,
+    breakpoints: number[],
+    target: number,
+): number {
+    const points = [...new Set(breakpoints)]
+        .filter((point) => point > 0)
+        .sort((a, b) => a - b);
+    const samples =
+        points.length > 0
+            ? [points[0] / 2, ...points, points[points.length - 1] * 2]
+            : [1, 2];
+
+    let index = 0;
+    while (index < samples.length - 2 && fn(samples[index + 1]) < target) {
+        index++;
+    }
+
+    const x0 = samples[index];
+    const x1 = samples[index + 1];
+    const y0 = fn(x0);
+    const y1 = fn(x1);
+
+    return x0 + ((target - y0) * (x1 - x0)) / (y1 - y0);
+}
+
+export type SalaryBreakpoints = {
+    /** Gross at which the contribution base reaches its floor; contributions stop following a lower gross. */
+    contributionFloor: number;
+    /** Gross at which the contribution base reaches its ceiling; contributions stop following a higher gross. */
+    contributionCeiling: number;
+    /** Gross at which the taxable base reaches the allowance and income tax starts. */
+    thresholdGross: number;
+    /** Gross at which the taxable base reaches each bracket after the first. */
+    bracketGrosses: number[];
+};
+
+/**
+ * Returns every gross at which net changes slope as a function of gross: the
+ * contribution base bounds, the gross at which income tax starts to apply
+ * after the allowance, and the gross at which each further bracket starts.
+ * Taxable benefits count towards the contribution and taxable bases, so they
+ * move every breakpoint to a lower gross.
+ *
+ * @param {RatesConfig} rates - Rates object containing contributions, base bounds, tax and allowance.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
+ * @returns {SalaryBreakpoints} The breakpoints (no rounding).
+ */
+export function getSalaryBreakpoints(
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): SalaryBreakpoints {
+    const { minimum, maximum } = getContributionBaseBounds(rates, options);
+    const taxableBenefits = calculateBenefits(
+        options.benefits ?? [],
+        rates,
+    ).taxable;
+    const contributionFloor = minimum - taxableBenefits;
+    const contributionCeiling = maximum - taxableBenefits;
+    const baseBreakpoints = [contributionFloor, contributionCeiling];
+
+    const grossAfterContributions = (gross: number) =>
+        gross +
+        taxableBenefits -
+        calculateContributions(gross + taxableBenefits, rates, options).total;
+    const allowance = getAllowance(rates, options);
+
+    return {
+        contributionFloor,
+        contributionCeiling,
+        thresholdGross: invertPiecewiseLinear(
+            grossAfterContributions,
+            baseBreakpoints,
+            allowance,
+        ),
+        bracketGrosses: rates.tax
+            .slice(1)
+            .map((bracket) =>
+                invertPiecewiseLinear(
+                    grossAfterContributions,
+                    baseBreakpoints,
+                    allowance + bracket.threshold.monthly,
+                ),
+            ),
     };
 }
 
@@ -172,107 +576,289 @@ export function calculateNetSalary(
  * full salary breakdown (gross, net, contributions, tax).
  *
  * The calculation accounts for employee contributions (pension, health,
- * unemployment, injury) and a flat income tax with a tax-free allowance.
- *
- * There are two branches:
- * - No-tax zone: if the provided `net` is less than or equal to the net
- *   threshold at which taxable income would become zero (after deducting
- *   contributions and allowance), no income tax applies. In this case the gross
- *   is obtained by reversing only the contribution deduction:
- *     gross = net / (1 - contributionRate)
- * - Taxable zone: if `net` exceeds that threshold, income tax applies. The
- *   algebraic solution that accounts for both contributions and tax is used:
- *     gross = (net - tax * allowance) / ((1 - contributionRate) * (1 - tax))
- *
- * The returned object has the same shape as `calculateNetSalary`:
- * { gross, net, contributions, tax }.
- *
- * @param {number} net - Target net salary (after contributions and income tax).
- * @param {Rates} rates - Rates object containing contributions, tax and allowance.
+ * unemployment, injury) on a bounded contribution base and a progressive
+ * income tax with a tax-free allowance, if the employer applies one.
+ *
+ * Net is a piecewise-linear function of gross whose slope changes at:
+ * - the contribution floor and ceiling, where contributions stop following the gross,
+ * - `thresholdGross`, the gross at which the amount left after contributions
+ *   plus taxable benefits reaches the allowance and income tax starts to apply, and
+ * - the gross at which the taxable base reaches each further bracket threshold.
+ *
+ * The gross is found by locating the linear region that contains `net` and
+ * solving within it. A `net` of zero or less means nothing is paid, so only
+ * the contribution deduction is reversed.
+ *
+ * The returned object has the same shape as `calculateNetSalary`.
+ *
+ * @param {number} net - Target net salary (after contributions and income tax), including any benefits.
+ * @param {Rates} rates - Rates object containing contributions, base bounds, tax and allowance.
+ * @param {SalaryOptions} options - Employment options (work fraction, benefits, allowance).
  * @returns {SalaryBreakdown} Salary breakdown for the computed gross amount.
  */
-
 export function calculateGrossSalary(
     net: number,
     rates: RatesConfig,
+    options: SalaryOptions = {},
 ): SalaryBreakdown {
-    const contributionRate = getTotalContributionRate(rates);
+    if (net <= 0) {
+        const contributionRate = getTotalContributionRate(rates);
+        return calculateNetSalary(net / (1 - contributionRate), rates, options);
+    }
 
-    const { tax, allowance } = rates;
+    const {
+        contributionFloor,
+        contributionCeiling,
+        thresholdGross,
+        bracketGrosses,
+    } = getSalaryBreakpoints(rates, options);
 
-    const multiplier = (1 - contributionRate) * (1 - tax);
-    const constant = tax * allowance;
-    const thresholdGross = allowance / (1 - contributionRate);
-    const thresholdNet = (1 - contributionRate) * thresholdGross;
+    const gross = invertPiecewiseLinear(
+        (gross) => calculateNetSalary(gross, rates, options).net,
+        [
+            contributionFloor,
+            contributionCeiling,
+            thresholdGross,
+            ...bracketGrosses,
+        ],
+        net,
+    );
 
-    let gross: number;
+    return calculateNetSalary(gross, rates, options);
+}
 
-    if (net <= thresholdNet) {
-        // No tax zone
-        gross = net / (1 - contributionRate);
-    } else {
-        gross = (net - constant) / multiplier;
+/**
+ * Given a target total cost to the employer, derives the gross salary that
+ * costs exactly that much once the employer-side charges are added, and
+ * returns the full salary breakdown.
+ *
+ * @param {number} totalCost - Target total cost to the employer (gross plus employer charges).
+ * @param {Rates} rates - Rates object containing contributions, tax, allowance and employer charges.
+ * @param {SalaryOptions} options - Employment options (work fraction).
+ * @returns {SalaryBreakdown} Salary breakdown for the computed gross amount.
+ */
+export function calculateSalaryFromTotalCost(
+    totalCost: number,
+    rates: RatesConfig,
+    options: SalaryOptions = {},
+): SalaryBreakdown {
+    if (totalCost <= 0) {
+        return calculateNetSalary(totalCost, rates, options);
     }
 
-    return calculateNetSalary(gross, rates);
+    const gross = invertPiecewiseLinear(
+        (gross) => calculateEmployerCharges(gross, rates).totalCost,
+        [],
+        totalCost,
+    );
+
+    return calculateNetSalary(gross, rates, options);
 }
 
-type SalaryInput =
+/**
+ * Returns the statutory minimum wage for the given share of full-time work.
+ *
+ * The gross minimum wage is pro-rated to the work fraction and the net is the
+ * net salary that pro-rated gross yields with the contribution floor
+ * pro-rated as well. Full-time work returns the configured amounts as-is.
+ *
+ * @param {RatesConfig} rates - Rates object containing `minimumWage`.
+ * @param {number} workFraction - Share of full-time work, e.g. 0.5 for half-time (defaults to 1).
+ * @returns {{ gross: number; net: number }} Minimum gross and net wage (no rounding).
+ */
+export function getMinimumWage(
+    rates: RatesConfig,
+    workFraction: number = 1,
+): { gross: number; net: number } {
+    if (workFraction === 1) {
+        return rates.minimumWage;
+    }
+
+    const gross = rates.minimumWage.gross * workFraction;
+
+    return {
+        gross,
+        net: calculateNetSalary(gross, rates, { workFraction }).net,
+    };
+}
+
+export type SalaryInput = (
     | { type: "gross"; amount: number }
-    | { type: "net"; amount: number };
+    | { type: "net"; amount: number }
+    | { type: "totalCost"; amount: number }
+    | { type: "hourly"; amount: number }
+) &
+    SalaryOptions;
 
 /**
  * Calculates a salary conversion and breakdown.
  *
  * Depending on the input.type this function either:
- * - converts a gross amount into a net amount (including contributions and tax), or
- * - derives the gross amount that results in the given net amount and returns the full breakdown.
+ * - converts a gross amount into a net amount (including contributions and tax),
+ * - derives the gross amount that results in the given net amount and returns the full breakdown,
+ * - derives the gross amount that results in the given total cost to the employer, or
+ * - converts a gross hourly rate into the monthly gross for the paid hours of the work fraction.
  *
- * @param input - Object specifying the type ("gross" | "net") and the amount to convert.
- * @param rates - Rates object (contributions, tax, allowance) used for the calculation.
+ * @param input - Object specifying the type ("gross" | "net" | "totalCost" | "hourly"), the amount to convert
+ *   and the employment options (work fraction).
+ * @param rates - Rates object (contributions, tax brackets, allowance) used for the calculation.
  * @returns An object containing gross, net, contributions and tax breakdown for the computed salary.
  */
 export function calculateSalary(
     input: SalaryInput,
     rates: RatesConfig = getRates(),
 ): SalaryBreakdown {
-    if (input.type === "gross") {
-        return calculateNetSalary(input.amount, rates);
+    const { type, amount, ...options } = input;
+
+    if (type === "gross") {
+        return calculateNetSalary(amount, rates, options);
+    }
+
+    if (type === "totalCost") {
+        return calculateSalaryFromTotalCost(amount, rates, options);
     }
 
-    return calculateGrossSalary(input.amount, rates);
+    if (type === "hourly") {
+        return calculateNetSalary(
+            amount * getMonthlyHours(options.workFraction),
+            rates,
+            options,
+        );
+    }
+
+    return calculateGrossSalary(amount, rates, options);
 }
 
-export function finalizeSalary(salary: SalaryBreakdown): SalaryBreakdown {
-    const contributions = {
-        pensionAndDisability: roundMoney(
+/**
+ * Rounds a tax breakdown to whole denars. The parts of the taxable base in
+ * each bracket add up to the rounded taxable base, the tax of each bracket is
+ * calculated on its rounded part, and the income tax is the sum of the
+ * bracket taxes.
+ *
+ * @param {TaxBreakdown} tax - Tax breakdown to round.
+ * @param {RoundingPolicy} policy - Rounding policy (defaults to the UJP rules).
+ * @returns {TaxBreakdown<Denars>} The rounded tax breakdown.
+ */
+export function finalizeTax(
+    tax: TaxBreakdown,
+    policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+): TaxBreakdown<Denars> {
+    const taxableBase = toDenars(tax.taxableBase, policy.amounts);
+    const amounts = tax.brackets.map((bracket) =>
+        toDenars(bracket.taxableAmount, policy.amounts),
+    );
+
+    // Rounding each part can leave them a denar off the rounded base; the
+    // highest bracket in use absorbs the difference.
+    if (amounts.length > 0) {
+        const last = Math.max(
+            0,
+            amounts.findLastIndex((amount) => amount > 0),
+        );
+        amounts[last] = denars(
+            amounts[last] + taxableBase - sumDenars(amounts),
+        );
+    }
+
+    const brackets = tax.brackets.map((bracket, index) => ({
+        rate: bracket.rate,
+        taxableAmount: amounts[index],
+        incomeTax: toDenars(amounts[index] * bracket.rate, policy.incomeTax),
+    }));
+
+    return {
+        taxableBase,
+        incomeTax: sumDenars(brackets.map((bracket) => bracket.incomeTax)),
+        brackets,
+    };
+}
+
+/**
+ * Rounds a salary breakdown to whole denars following a rounding policy.
+ *
+ * Every line is rounded on its own and every total is the exact sum of its
+ * rounded lines. The net is derived from the rounded lines as
+ * gross - contributions + benefits - income tax, so the finalized salary
+ * always reconciles even when that makes it differ by a denar from the
+ * rounded net of the unrounded breakdown.
+ *
+ * @param {SalaryBreakdown} salary - Unrounded salary breakdown.
+ * @param {RoundingPolicy} policy - Rounding policy (defaults to the UJP and PIOM rules).
+ * @returns {FinalizedSalaryBreakdown} The finalized salary breakdown.
+ */
+export function finalizeSalary(
+    salary: SalaryBreakdown,
+    policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+): FinalizedSalaryBreakdown {
+    const gross = toDenars(salary.gross, policy.amounts);
+
+    const lines = {
+        pensionAndDisability: toDenars(
             salary.contributions.pensionAndDisability,
+            policy.contributions,
+        ),
+        healthInsurance: toDenars(
+            salary.contributions.healthInsurance,
+            policy.contributions,
         ),
-        healthInsurance: roundMoney(salary.contributions.healthInsurance),
-        unemploymentInsurance: roundMoney(
+        unemploymentInsurance: toDenars(
             salary.contributions.unemploymentInsurance,
+            policy.contributions,
         ),
-        additionalHealthInsurance: roundMoney(
+        additionalHealthInsurance: toDenars(
             salary.contributions.additionalHealthInsurance,
+            policy.contributions,
         ),
     };
+    const contributions = {
+        base: toDenars(salary.contributions.base, policy.amounts),
+        appliedBound: salary.contributions.appliedBound,
+        ...lines,
+        total: sumDenars(Object.values(lines)),
+    };
 
-    const total =
-        contributions.pensionAndDisability +
-        contributions.healthInsurance +
-        contributions.unemploymentInsurance +
-        contributions.additionalHealthInsurance;
+    const benefitItems = salary.benefits.items.map((item) => {
+        const exempt = toDenars(item.exempt, policy.amounts);
+        const taxable = toDenars(item.taxable, policy.amounts);
+        return {
+            kind: item.kind,
+            amount: denars(exempt + taxable),
+            exempt,
+            taxable,
+        };
+    });
+    const benefits = {
+        items: benefitItems,
+        total: sumDenars(benefitItems.map((item) => item.amount)),
+        exempt: sumDenars(benefitItems.map((item) => item.exempt)),
+        taxable: sumDenars(benefitItems.map((item) => item.taxable)),
+    };
+
+    const tax = finalizeTax(salary.tax, policy);
+
+    const charges = salary.employer.charges.map((charge) => ({
+        name: charge.name,
+        amount: toDenars(charge.amount, policy.employerCharges),
+    }));
+    const employerTotal = sumDenars(charges.map((charge) => charge.amount));
 
     return {
-        gross: roundMoney(salary.gross),
-        net: roundMoney(salary.net),
-        contributions: {
-            ...contributions,
-            total,
+        gross,
+        net: denars(
+            gross - contributions.total + benefits.total - tax.incomeTax,
+        ),
+        contributions,
+        tax,
+        benefits,
+        employer: {
+            charges,
+            total: employerTotal,
+            totalCost: denars(gross + employerTotal),
         },
-        tax: {
-            incomeTax: roundMoney(salary.tax.incomeTax),
-            taxableBase: roundMoney(salary.tax.taxableBase),
+        workFraction: salary.workFraction,
+        hourly: {
+            gross: roundMoney(salary.hourly.gross, 2),
+            net: roundMoney(salary.hourly.net, 2),
         },
     };
 }
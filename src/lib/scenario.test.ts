@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { getRates } from "./rates-configs";
+import { calculateNetSalary } from "./salary";
+import {
+    applyRatesScenario,
+    compareRatesScenario,
+    finalizeScenarioComparison,
+    getRatesScenarioProblemMessage,
+    getRatesScenarioProblems,
+} from "./scenario";
+
+const RATES = getRates(2025);
+
+describe("applyRatesScenario", () => {
+    it("should keep the official rates without changes", () => {
+        expect(
+            applyRatesScenario(RATES, { contributions: {}, taxRates: [] }),
+        ).toEqual(RATES);
+    });
+
+    it("should change only the given rates", () => {
+        const result = applyRatesScenario(RATES, {
+            contributions: { pensionAndDisability: 0.2 },
+            taxRates: [0.12],
+            allowance: 12000,
+        });
+
+        expect(result.contributions).toEqual({
+            ...RATES.contributions,
+            pensionAndDisability: 0.2,
+        });
+        expect(result.tax[0].rate).toBe(0.12);
+        expect(result.allowance).toBe(12000);
+        expect(result.averageWage).toBe(RATES.averageWage);
+    });
+
+    it("should not change the official rates", () => {
+        applyRatesScenario(RATES, {
+            contributions: { healthInsurance: 0.1 },
+            taxRates: [0.2],
+        });
+
+        expect(RATES.contributions.healthInsurance).toBe(0.075);
+        expect(RATES.tax[0].rate).toBe(0.1);
+    });
+
+    it("should list every problem with the scenario's rates", () => {
+        expect(() =>
+            applyRatesScenario(RATES, {
+                contributions: { pensionAndDisability: 0.9 },
+                taxRates: [1.5],
+                allowance: -1,
+            }),
+        ).toThrow(
+            "Invalid rates scenario:\nIncome tax, bracket 1 must be from 0% to below 100%\nThe tax-free allowance cannot be negative",
+        );
+    });
+
+    it("should allow abolishing the tax-free allowance", () => {
+        expect(
+            applyRatesScenario(RATES, {
+                contributions: {},
+                taxRates: [],
+                allowance: 0,
+            }).allowance,
+        ).toBe(0);
+    });
+});
+
+describe("getRatesScenarioProblems", () => {
+    it("should find no problems without changes", () => {
+        expect(
+            getRatesScenarioProblems(RATES, {
+                contributions: {},
+                taxRates: [],
+            }),
+        ).toEqual([]);
+    });
+
+    it("should point at the contribution rate out of range", () => {
+        expect(
+            getRatesScenarioProblems(RATES, {
+                contributions: { healthInsurance: -0.1 },
+                taxRates: [],
+            }),
+        ).toEqual([
+            { kind: "contributionRate", contribution: "healthInsurance" },
+        ]);
+    });
+});
+
+describe("getRatesScenarioProblemMessage", () => {
+    it("should describe a problem in the given language", () => {
+        expect(
+            getRatesScenarioProblemMessage({ kind: "negativeAllowance" }, "mk"),
+        ).toBe("Личното ослободување не може да биде негативно");
+    });
+});
+
+describe("compareRatesScenario", () => {
+    it("should calculate the input with both rates", () => {
+        const result = compareRatesScenario(
+            { type: "gross", amount: 65000 },
+            RATES,
+            { contributions: {}, taxRates: [0.15] },
+        );
+
+        expect(result.official).toEqual(calculateNetSalary(65000, RATES));
+        expect(result.scenario.tax.incomeTax).toBeCloseTo(
+            result.official.tax.incomeTax * 1.5,
+            5,
+        );
+        expect(result.delta.gross).toBe(0);
+        expect(result.delta.net).toBeCloseTo(
+            -result.official.tax.incomeTax * 0.5,
+            5,
+        );
+        expect(result.delta.totalCost).toBe(0);
+    });
+
+    it("should keep the net and change the gross for a net input", () => {
+        const result = compareRatesScenario(
+            { type: "net", amount: 50000 },
+            RATES,
+            { contributions: { pensionAndDisability: 0.2 }, taxRates: [] },
+        );
+
+        expect(result.scenario.net).toBeCloseTo(50000, 5);
+        expect(result.delta.gross).toBeGreaterThan(0);
+    });
+});
+
+describe("finalizeScenarioComparison", () => {
+    it("should derive the change from the rounded breakdowns", () => {
+        const result = finalizeScenarioComparison(
+            compareRatesScenario({ type: "gross", amount: 65432.1 }, RATES, {
+                contributions: { healthInsurance: 0.08 },
+                taxRates: [],
+                allowance: 12345.6,
+            }),
+        );
+
+        expect(result.delta.net).toBe(
+            result.scenario.net - result.official.net,
+        );
+        expect(result.delta.contributions).toBe(
+            result.scenario.contributions.total -
+                result.official.contributions.total,
+        );
+        expect(result.delta.totalCost).toBe(
+            result.scenario.employer.totalCost -
+                result.official.employer.totalCost,
+        );
+    });
+});
@@ -0,0 +1,210 @@
+import { getSalaryDelta, type SalaryDelta } from "./comparison";
+import { formatPercent } from "./formatters";
+import { DEFAULT_LOCALE, type Locale, translate } from "./i18n";
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateSalary,
+    finalizeSalary,
+    type SalaryBreakdown,
+    type SalaryInput,
+} from "./salary";
+
+export type ContributionKind = keyof RatesConfig["contributions"];
+
+export const ContributionKinds: ContributionKind[] = [
+    "pensionAndDisability",
+    "healthInsurance",
+    "unemploymentInsurance",
+    "additionalHealthInsurance",
+];
+
+/**
+ * Proposed changes to a year's rates. Anything left out keeps the official
+ * value.
+ */
+export type RatesScenario = {
+    /** Employee contribution rates (decimals, e.g. 0.188 for 18.8%). */
+    contributions: Partial<Record<ContributionKind, number>>;
+    /** Rate of each tax bracket, lowest first (decimals). */
+    taxRates: (number | undefined)[];
+    /** Monthly tax-free allowance in MKD. */
+    allowance?: number;
+};
+
+export type RatesScenarioProblem =
+    | { kind: "contributionRate"; contribution: ContributionKind }
+    | { kind: "totalContributions"; total: number }
+    | { kind: "taxRate"; bracket: number }
+    | { kind: "negativeAllowance" };
+
+/**
+ * Lists every problem with the rates a scenario would lead to. Only the
+ * changed values are checked, as the official rates are valid already. An
+ * allowance of 0 is allowed, so abolishing it can be modelled.
+ *
+ * @param {RatesConfig} rates - Official rates the scenario starts from.
+ * @param {RatesScenario} scenario - Changes to check.
+ * @returns {RatesScenarioProblem[]} The problems, empty when the scenario can be calculated.
+ */
+export function getRatesScenarioProblems(
+    rates: RatesConfig,
+    scenario: RatesScenario,
+): RatesScenarioProblem[] {
+    const problems: RatesScenarioProblem[] = [];
+
+    let total = 0;
+    for (const kind of ContributionKinds) {
+        const rate = scenario.contributions[kind] ?? rates.contributions[kind];
+        if (!(rate >= 0 && rate <= 1)) {
+            problems.push({ kind: "contributionRate", contribution: kind });
+        }
+        total += rate;
+    }
+    if (total >= 1) {
+        problems.push({ kind: "totalContributions", total });
+    }
+
+    rates.tax.forEach((_, index) => {
+        const rate = scenario.taxRates[index];
+        if (rate !== undefined && !(rate >= 0 && rate < 1)) {
+            problems.push({ kind: "taxRate", bracket: index + 1 });
+        }
+    });
+
+    if (scenario.allowance !== undefined && !(scenario.allowance >= 0)) {
+        problems.push({ kind: "negativeAllowance" });
+    }
+
+    return problems;
+}
+
+/**
+ * Returns a user-facing message for a scenario problem.
+ *
+ * @param {RatesScenarioProblem} problem - Problem to describe.
+ * @param {Locale} locale - Language of the message.
+ * @returns {string} The message.
+ */
+export function getRatesScenarioProblemMessage(
+    problem: RatesScenarioProblem,
+    locale: Locale = DEFAULT_LOCALE,
+): string {
+    switch (problem.kind) {
+        case "contributionRate":
+            return translate(locale, "scenario.problem.contributionRate", {
+                label: translate(locale, `label.${problem.contribution}`),
+            });
+        case "totalContributions":
+            return translate(locale, "scenario.problem.totalContributions", {
+                total: formatPercent(problem.total, locale),
+            });
+        case "taxRate":
+            return translate(locale, "scenario.problem.taxRate", {
+                number: problem.bracket,
+            });
+        case "negativeAllowance":
+            return translate(locale, "scenario.problem.negativeAllowance");
+    }
+}
+
+/**
+ * Returns a copy of a year's rates with a scenario's changes applied.
+ *
+ * @param {RatesConfig} rates - Official rates the scenario starts from.
+ * @param {RatesScenario} scenario - Changes to apply.
+ * @returns {RatesConfig} The scenario's rates.
+ * @throws {Error} Listing every problem with the resulting rates (see `getRatesScenarioProblems`).
+ */
+export function applyRatesScenario(
+    rates: RatesConfig,
+    scenario: RatesScenario,
+): RatesConfig {
+    const problems = getRatesScenarioProblems(rates, scenario);
+    if (problems.length > 0) {
+        throw new Error(
+            `Invalid rates scenario:\n${problems
+                .map((problem) => getRatesScenarioProblemMessage(problem))
+                .join("\n")}`,
+        );
+    }
+
+    const contributions = { ...rates.contributions };
+    for (const kind of ContributionKinds) {
+        contributions[kind] =
+            scenario.contributions[kind] ?? contributions[kind];
+    }
+
+    return {
+        ...rates,
+        contributions,
+        tax: rates.tax.map((bracket, index) => ({
+            ...bracket,
+            rate: scenario.taxRates[index] ?? bracket.rate,
+        })),
+        allowance: scenario.allowance ?? rates.allowance,
+    };
+}
+
+export type ScenarioDelta = SalaryDelta & { totalCost: number };
+
+export type ScenarioComparison = {
+    official: SalaryBreakdown;
+    scenario: SalaryBreakdown;
+    /** Scenario minus official. */
+    delta: ScenarioDelta;
+};
+
+function withDelta(
+    official: SalaryBreakdown,
+    scenario: SalaryBreakdown,
+): ScenarioComparison {
+    return {
+        official,
+        scenario,
+        delta: {
+            ...getSalaryDelta(official, scenario),
+            totalCost:
+                scenario.employer.totalCost - official.employer.totalCost,
+        },
+    };
+}
+
+/**
+ * Calculates the same salary input with the official rates and with a
+ * scenario's rates.
+ *
+ * Values are returned as raw numbers (no rounding); use
+ * `finalizeScenarioComparison` for display.
+ *
+ * @param {SalaryInput} input - Salary input to calculate.
+ * @param {RatesConfig} rates - Official rates.
+ * @param {RatesScenario} scenario - Changes to the official rates.
+ * @returns {ScenarioComparison} Both breakdowns and the change between them.
+ * @throws {Error} If the scenario's rates are invalid (see `applyRatesScenario`).
+ */
+export function compareRatesScenario(
+    input: SalaryInput,
+    rates: RatesConfig,
+    scenario: RatesScenario,
+): ScenarioComparison {
+    return withDelta(
+        calculateSalary(input, rates),
+        calculateSalary(input, applyRatesScenario(rates, scenario)),
+    );
+}
+
+/**
+ * Rounds both breakdowns and recomputes the change from the rounded values,
+ * so it always matches the difference of the displayed values.
+ *
+ * @param {ScenarioComparison} comparison - Raw scenario comparison.
+ * @returns {ScenarioComparison} Rounded scenario comparison.
+ */
+export function finalizeScenarioComparison(
+    comparison: ScenarioComparison,
+): ScenarioComparison {
+    return withDelta(
+        finalizeSalary(comparison.official),
+        finalizeSalary(comparison.scenario),
+    );
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { getDefaultYear } from "./rates-configs";
+import {
+    type CalculatorParams,
+    parseCalculatorParams,
+    parseScenarioParams,
+    serializeCalculatorParams,
+    serializeScenarioParams,
+} from "./search-params";
+
+describe("parseCalculatorParams", () => {
+    it("should restore valid params", () => {
+        expect(
+            parseCalculatorParams({
+                mode: "net",
+                amount: "50000",
+                year: "2024",
+            }),
+        ).toEqual({
+            mode: "net",
+            amount: "50000",
+            year: 2024,
+            weeklyHours: 40,
+            benefits: [],
+            currency: "MKD",
+        });
+    });
+
+    it("should fall back to defaults when params are missing", () => {
+        expect(parseCalculatorParams({})).toEqual({
+            mode: "gross",
+            amount: "",
+            year: getDefaultYear(),
+            weeklyHours: 40,
+            benefits: [],
+            currency: "MKD",
+        });
+    });
+
+    it("should fall back to defaults for malformed params", () => {
+        expect(
+            parseCalculatorParams({
+                mode: "monthly",
+                year: "1999",
+                weeklyHours: "60",
+                currency: "GBP",
+            }),
+        ).toEqual({
+            mode: "gross",
+            amount: "",
+            year: getDefaultYear(),
+            weeklyHours: 40,
+            benefits: [],
+            currency: "MKD",
+        });
+    });
+
+    it("should restore part-time weekly hours", () => {
+        expect(
+            parseCalculatorParams({ mode: "hourly", weeklyHours: "20" }),
+        ).toMatchObject({ mode: "hourly", weeklyHours: 20 });
+        expect(parseCalculatorParams({ weeklyHours: "0" }).weeklyHours).toBe(
+            40,
+        );
+    });
+
+    it("should keep the amount as entered for validation", () => {
+        expect(parseCalculatorParams({ amount: "12abc" }).amount).toBe("12abc");
+    });
+
+    it("should restore benefits and drop unknown kinds", () => {
+        expect(
+            parseCalculatorParams({
+                benefits: "annualLeave:15000;bonus:100;meal:3x",
+            }).benefits,
+        ).toEqual([
+            { kind: "annualLeave", amount: "15000" },
+            { kind: "meal", amount: "3x" },
+        ]);
+    });
+
+    it("should use the first value of a repeated param", () => {
+        expect(
+            parseCalculatorParams({
+                mode: ["totalCost", "net"],
+                amount: ["65000", "1"],
+            }),
+        ).toMatchObject({ mode: "totalCost", amount: "65000" });
+    });
+});
+
+describe("serializeCalculatorParams", () => {
+    it("should stringify values", () => {
+        expect(
+            serializeCalculatorParams({
+                mode: "net",
+                amount: "50000",
+                year: 2024,
+            }),
+        ).toEqual({ mode: "net", amount: "50000", year: "2024" });
+    });
+
+    it("should remove an empty benefit list", () => {
+        expect(serializeCalculatorParams({ benefits: [] })).toEqual({
+            benefits: undefined,
+        });
+    });
+
+    it("should remove empty values", () => {
+        expect(serializeCalculatorParams({ amount: "" })).toEqual({
+            amount: undefined,
+        });
+    });
+
+    it("should round-trip through parseCalculatorParams", () => {
+        const params = {
+            mode: "totalCost",
+            amount: "80000",
+            year: 2023,
+            weeklyHours: 30,
+            benefits: [
+                { kind: "meal", amount: "3000" },
+                { kind: "transport", amount: "" },
+            ],
+            currency: "EUR",
+        } satisfies CalculatorParams;
+        const serialized = serializeCalculatorParams(params);
+
+        expect(
+            parseCalculatorParams(serialized as Record<string, string>),
+        ).toEqual(params);
+    });
+});
+
+describe("parseScenarioParams", () => {
+    it("should restore the scenario as entered", () => {
+        expect(
+            parseScenarioParams({
+                mode: "net",
+                amount: "50000",
+                year: "2024",
+                pensionAndDisability: "20",
+                allowance: "12000",
+                taxRates: "12;",
+            }),
+        ).toEqual({
+            mode: "net",
+            amount: "50000",
+            year: 2024,
+            pensionAndDisability: "20",
+            healthInsurance: "",
+            unemploymentInsurance: "",
+            additionalHealthInsurance: "",
+            allowance: "12000",
+            taxRates: ["12", ""],
+        });
+    });
+
+    it("should keep the official rates when the scenario is missing", () => {
+        expect(parseScenarioParams({})).toMatchObject({
+            pensionAndDisability: "",
+            allowance: "",
+            taxRates: [],
+        });
+    });
+});
+
+describe("serializeScenarioParams", () => {
+    it("should round-trip through parseScenarioParams", () => {
+        const params = parseScenarioParams({
+            year: "2025",
+            healthInsurance: "8",
+            taxRates: "10;18",
+        });
+
+        expect(parseScenarioParams(serializeScenarioParams(params))).toEqual(
+            params,
+        );
+    });
+
+    it("should remove tax rates that keep the official ones", () => {
+        expect(serializeScenarioParams({ taxRates: ["", ""] })).toEqual({
+            taxRates: undefined,
+        });
+    });
+});
@@ -0,0 +1,250 @@
+import { type Currency, isCurrency } from "./exchange-rates";
+import {
+    type AvailableYear,
+    getDefaultYear,
+    isAvailableYear,
+} from "./rates-configs";
+import { type BenefitKind, BenefitKinds, type SalaryInput } from "./salary";
+import type { ContributionKind } from "./scenario";
+import { FULL_TIME_WEEKLY_HOURS } from "./work-time";
+
+export type RawSearchParams = Partial<Record<string, string | string[]>>;
+
+/**
+ * Parses a single search param value, returning `undefined` when the value is
+ * missing or malformed so the caller can fall back to a default.
+ */
+type ParamParser<T> = (value: string) => T | undefined;
+
+type ParamSchema<T> = {
+    [K in keyof T]: { parse: ParamParser<T[K]>; fallback: () => T[K] };
+};
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parses search params against a schema. Every key falls back to its default
+ * when the param is missing, repeated with no usable first value, or
+ * malformed, so a hand-edited URL can never produce an invalid state.
+ */
+function parseSearchParams<T>(
+    params: RawSearchParams,
+    schema: ParamSchema<T>,
+): T {
+    const result = {} as T;
+
+    for (const key of Object.keys(schema) as (keyof T & string)[]) {
+        const raw = firstValue(params[key]);
+        const parsed = raw == null ? undefined : schema[key].parse(raw);
+        result[key] = parsed === undefined ? schema[key].fallback() : parsed;
+    }
+
+    return result;
+}
+
+export const SalaryModes = [
+    "gross",
+    "net",
+    "totalCost",
+    "hourly",
+] as const satisfies readonly SalaryInput["type"][];
+
+export type SalaryMode = (typeof SalaryModes)[number];
+
+/** A benefit as entered in the calculator; the amount is kept normalized, as typed. */
+export type BenefitParam = {
+    kind: BenefitKind;
+    amount: string;
+};
+
+export type CalculatorParams = {
+    mode: SalaryMode;
+    /** Amount as entered, normalized with `normalizeAmountInput`; empty when missing. */
+    amount: string;
+    year: AvailableYear;
+    /** Contracted hours per week, more than 0 and up to full time. */
+    weeklyHours: number;
+    benefits: BenefitParam[];
+    /** Currency the amount is entered and the breakdown is shown in, next to MKD. */
+    currency: Currency;
+};
+
+const BENEFIT_SEPARATOR = ";";
+const BENEFIT_AMOUNT_SEPARATOR = ":";
+
+/**
+ * Parses benefits stored as `kind:amount` entries separated by `;`, dropping
+ * entries with an unknown kind.
+ */
+function parseBenefits(value: string): BenefitParam[] {
+    return value.split(BENEFIT_SEPARATOR).flatMap((entry) => {
+        const index = entry.indexOf(BENEFIT_AMOUNT_SEPARATOR);
+        const kind = index === -1 ? entry : entry.slice(0, index);
+        const amount = index === -1 ? "" : entry.slice(index + 1);
+
+        return (BenefitKinds as string[]).includes(kind)
+            ? [{ kind: kind as BenefitKind, amount }]
+            : [];
+    });
+}
+
+function serializeBenefits(benefits: BenefitParam[]): string {
+    return benefits
+        .map(
+            (benefit) =>
+                `${benefit.kind}${BENEFIT_AMOUNT_SEPARATOR}${benefit.amount}`,
+        )
+        .join(BENEFIT_SEPARATOR);
+}
+
+const calculatorParamsSchema: ParamSchema<CalculatorParams> = {
+    mode: {
+        parse: (value) =>
+            (SalaryModes as readonly string[]).includes(value)
+                ? (value as SalaryMode)
+                : undefined,
+        fallback: () => "gross",
+    },
+    amount: {
+        // Kept as entered; `validateSalaryAmount` reports malformed amounts
+        parse: (value) => value,
+        fallback: () => "",
+    },
+    year: {
+        parse: (value) => {
+            const year = Number(value);
+            return isAvailableYear(year) ? year : undefined;
+        },
+        fallback: () => getDefaultYear(),
+    },
+    weeklyHours: {
+        parse: (value) => {
+            const hours = Number(value);
+            return hours > 0 && hours <= FULL_TIME_WEEKLY_HOURS
+                ? hours
+                : undefined;
+        },
+        fallback: () => FULL_TIME_WEEKLY_HOURS,
+    },
+    benefits: {
+        parse: parseBenefits,
+        fallback: () => [],
+    },
+    currency: {
+        parse: (value) => (isCurrency(value) ? value : undefined),
+        fallback: () => "MKD",
+    },
+};
+
+/**
+ * Restores the calculator inputs from the query string.
+ *
+ * @param {RawSearchParams} params - Search params as returned by `useSearchParams`.
+ * @returns {CalculatorParams} Calculator inputs, with defaults for anything missing or malformed.
+ */
+export function parseCalculatorParams(
+    params: RawSearchParams,
+): CalculatorParams {
+    return parseSearchParams(params, calculatorParamsSchema);
+}
+
+function serializeValue(value: string | number | undefined) {
+    return value == null || value === "" ? undefined : String(value);
+}
+
+/**
+ * Serializes calculator inputs for `setSearchParams`. Empty values and lists
+ * are returned as `undefined` so they are removed from the query string.
+ *
+ * @param {Partial<CalculatorParams>} params - Calculator inputs to store.
+ * @returns {Record<string, string | undefined>} Search params to merge into the URL.
+ */
+export function serializeCalculatorParams(
+    params: Partial<CalculatorParams>,
+): Record<string, string | undefined> {
+    const result: Record<string, string | undefined> = {};
+
+    for (const [key, value] of Object.entries(params)) {
+        if (Array.isArray(value)) {
+            result[key] =
+                value.length === 0 ? undefined : serializeBenefits(value);
+            continue;
+        }
+        result[key] = serializeValue(value);
+    }
+
+    return result;
+}
+
+/**
+ * Inputs of the what-if scenario editor. The scenario values are kept as
+ * entered (percentages and MKD) and normalized with `normalizeAmountInput`;
+ * an empty value keeps the official one.
+ */
+export type ScenarioParams = Pick<
+    CalculatorParams,
+    "mode" | "amount" | "year"
+> &
+    Record<ContributionKind | "allowance", string> & {
+        /** Tax rate percentage of each bracket, lowest first. */
+        taxRates: string[];
+    };
+
+const TAX_RATE_SEPARATOR = ";";
+
+const enteredValue = {
+    parse: (value: string) => value,
+    fallback: () => "",
+};
+
+const scenarioParamsSchema: ParamSchema<ScenarioParams> = {
+    mode: calculatorParamsSchema.mode,
+    amount: calculatorParamsSchema.amount,
+    year: calculatorParamsSchema.year,
+    pensionAndDisability: enteredValue,
+    healthInsurance: enteredValue,
+    unemploymentInsurance: enteredValue,
+    additionalHealthInsurance: enteredValue,
+    allowance: enteredValue,
+    taxRates: {
+        parse: (value) => value.split(TAX_RATE_SEPARATOR),
+        fallback: () => [],
+    },
+};
+
+/**
+ * Restores the what-if scenario editor inputs from the query string.
+ *
+ * @param {RawSearchParams} params - Search params as returned by `useSearchParams`.
+ * @returns {ScenarioParams} Scenario inputs, with defaults for anything missing or malformed.
+ */
+export function parseScenarioParams(params: RawSearchParams): ScenarioParams {
+    return parseSearchParams(params, scenarioParamsSchema);
+}
+
+/**
+ * Serializes what-if scenario inputs for `setSearchParams`, removing empty
+ * values from the query string.
+ *
+ * @param {Partial<ScenarioParams>} params - Scenario inputs to store.
+ * @returns {Record<string, string | undefined>} Search params to merge into the URL.
+ */
+export function serializeScenarioParams(
+    params: Partial<ScenarioParams>,
+): Record<string, string | undefined> {
+    const result: Record<string, string | undefined> = {};
+
+    for (const [key, value] of Object.entries(params)) {
+        result[key] = Array.isArray(value)
+            ? serializeValue(
+                  value.some((rate) => rate !== "")
+                      ? value.join(TAX_RATE_SEPARATOR)
+                      : undefined,
+              )
+            : serializeValue(value);
+    }
+
+    return result;
+}
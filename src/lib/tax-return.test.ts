@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { calculateContractNet } from "./contracts";
+import { DEFAULT_ROUNDING_POLICY } from "./money";
+import { getRates } from "./rates-configs";
+import { calculateNetSalary } from "./salary";
+import { calculateTaxReturn, finalizeTaxReturn } from "./tax-return";
+
+const RATES = getRates();
+
+const yearOf = (gross: number) =>
+    Array.from({ length: 12 }, () => calculateNetSalary(gross, RATES));
+
+describe("calculateTaxReturn", () => {
+    it("should balance out for a single employer over the whole year", () => {
+        const result = calculateTaxReturn(
+            {
+                employments: [
+                    {
+                        employer: "Acme",
+                        months: yearOf(65000),
+                        appliesAllowance: true,
+                    },
+                ],
+                contracts: [],
+                other: [],
+            },
+            RATES,
+        );
+
+        expect(result.allowance).toBe(RATES.allowance * 12);
+        expect(result.balance).toBeCloseTo(0, 5);
+    });
+
+    it("should only apply the allowance of one employer", () => {
+        const result = calculateTaxReturn(
+            {
+                employments: [
+                    {
+                        employer: "Acme",
+                        months: yearOf(65000),
+                        appliesAllowance: true,
+                    },
+                    {
+                        employer: "Side job",
+                        months: yearOf(30000),
+                        appliesAllowance: false,
+                    },
+                ],
+                contracts: [],
+                other: [],
+            },
+            RATES,
+        );
+
+        // The second employer deducted the allowance every month as well
+        expect(result.allowance).toBe(RATES.allowance * 12);
+        expect(result.balance).toBeCloseTo(
+            RATES.allowance * 12 * RATES.tax[0].rate,
+            5,
+        );
+    });
+
+    it("should balance out when a secondary job skips the allowance", () => {
+        const result = calculateTaxReturn(
+            {
+                employments: [
+                    {
+                        employer: "Acme",
+                        months: yearOf(65000),
+                        appliesAllowance: true,
+                    },
+                    {
+                        employer: "Side job",
+                        months: Array.from({ length: 12 }, () =>
+                            calculateNetSalary(30000, RATES, {
+                                applyAllowance: false,
+                            }),
+                        ),
+                        appliesAllowance: false,
+                    },
+                ],
+                contracts: [],
+                other: [],
+            },
+            RATES,
+        );
+
+        expect(result.balance).toBeCloseTo(0, 5);
+    });
+
+    it("should pro-rate the allowance to the months paid", () => {
+        const result = calculateTaxReturn(
+            {
+                employments: [
+                    {
+                        employer: "Acme",
+                        months: yearOf(65000).slice(0, 6),
+                        appliesAllowance: true,
+                    },
+                ],
+                contracts: [],
+                other: [],
+            },
+            RATES,
+        );
+
+        expect(result.allowance).toBe(RATES.allowance * 6);
+    });
+
+    it("should add contract and other income to the tax base", () => {
+        const contract = calculateContractNet(100000, "author", RATES);
+        const result = calculateTaxReturn(
+            {
+                employments: [],
+                contracts: [{ payer: "Publisher", contract }],
+                other: [
+                    {
+                        description: "Rent",
+                        taxableIncome: 50000,
+                        withheld: 5000,
+                    },
+                ],
+            },
+            RATES,
+        );
+
+        expect(result.sources.map((source) => source.kind)).toEqual([
+            "contract",
+            "other",
+        ]);
+        expect(result.income).toBeCloseTo(contract.tax.taxableBase + 50000, 5);
+        expect(result.withheld).toBeCloseTo(contract.tax.incomeTax + 5000, 5);
+        expect(result.balance).toBeCloseTo(0, 5);
+    });
+
+    it("should reject more than one employer applying the allowance", () => {
+        const employment = { months: yearOf(30000), appliesAllowance: true };
+
+        expect(() =>
+            calculateTaxReturn(
+                {
+                    employments: [
+                        { employer: "Acme", ...employment },
+                        { employer: "Side job", ...employment },
+                    ],
+                    contracts: [],
+                    other: [],
+                },
+                RATES,
+            ),
+        ).toThrow("Only one employer may apply the allowance");
+    });
+});
+
+describe("finalizeTaxReturn", () => {
+    it("should derive totals and balance from the rounded amounts", () => {
+        const result = finalizeTaxReturn(
+            calculateTaxReturn(
+                {
+                    employments: [
+                        {
+                            employer: "Acme",
+                            months: yearOf(54321.37),
+                            appliesAllowance: true,
+                        },
+                    ],
+                    contracts: [],
+                    other: [
+                        {
+                            description: "Rent",
+                            taxableIncome: 1234.56,
+                            withheld: 0,
+                        },
+                    ],
+                },
+                RATES,
+            ),
+        );
+
+        expect(result.income).toBe(
+            result.sources[0].income + result.sources[1].income,
+        );
+        expect(result.balance).toBe(result.tax.incomeTax - result.withheld);
+    });
+
+    it("should follow the rounding policy", () => {
+        const taxReturn = calculateTaxReturn(
+            {
+                employments: [],
+                contracts: [],
+                other: [
+                    {
+                        description: "Rent",
+                        taxableIncome: 1234.56,
+                        withheld: 100.4,
+                    },
+                ],
+            },
+            RATES,
+        );
+        const down = finalizeTaxReturn(taxReturn, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "down",
+            incomeTax: "down",
+        });
+        const up = finalizeTaxReturn(taxReturn, {
+            ...DEFAULT_ROUNDING_POLICY,
+            amounts: "up",
+            incomeTax: "up",
+        });
+
+        expect(down.income).toBe(1234);
+        expect(up.income).toBe(1235);
+        expect(down.withheld).toBe(100);
+        expect(up.withheld).toBe(101);
+    });
+});
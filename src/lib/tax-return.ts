@@ -0,0 +1,186 @@
+import type { ContractBreakdown } from "./contracts";
+import {
+    DEFAULT_ROUNDING_POLICY,
+    type Denars,
+    denars,
+    type RoundingPolicy,
+    sumDenars,
+    toDenars,
+} from "./money";
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateTax,
+    finalizeTax,
+    type SalaryBreakdown,
+    type TaxBreakdown,
+} from "./salary";
+
+/**
+ * Salaries paid by one employer during the tax year, one breakdown per month.
+ */
+export type EmploymentIncome = {
+    employer: string;
+    months: SalaryBreakdown[];
+    /** Whether this employer deducts the tax-free allowance. */
+    appliesAllowance: boolean;
+};
+
+export type ContractIncome = {
+    payer: string;
+    contract: ContractBreakdown;
+};
+
+/**
+ * Any other income taxed at the income tax rates, e.g. rent or royalties
+ * reported directly.
+ */
+export type OtherIncome = {
+    description: string;
+    /** Income after deductions, before the allowance. */
+    taxableIncome: number;
+    /** Income tax already withheld or paid in advance. */
+    withheld: number;
+};
+
+export type TaxReturnInput = {
+    employments: EmploymentIncome[];
+    contracts: ContractIncome[];
+    other: OtherIncome[];
+};
+
+export type TaxReturnSource<Amount extends number = number> = {
+    kind: "employment" | "contract" | "other";
+    name: string;
+    /** Income after contributions and normed costs, before the allowance. */
+    income: Amount;
+    withheld: Amount;
+};
+
+export type TaxReturnBreakdown<Amount extends number = number> = {
+    sources: TaxReturnSource<Amount>[];
+    income: Amount;
+    allowance: Amount;
+    tax: TaxBreakdown<Amount>;
+    withheld: Amount;
+    /** Tax liable minus tax withheld: positive is due, negative is refunded. */
+    balance: Amount;
+};
+
+/** A tax return rounded to whole denars, see `finalizeTaxReturn`. */
+export type FinalizedTaxReturnBreakdown = TaxReturnBreakdown<Denars>;
+
+function employmentSource(employment: EmploymentIncome): TaxReturnSource {
+    return {
+        kind: "employment",
+        name: employment.employer,
+        income: employment.months.reduce(
+            (sum, month) =>
+                sum +
+                month.gross -
+                month.contributions.total +
+                month.benefits.taxable,
+            0,
+        ),
+        withheld: employment.months.reduce(
+            (sum, month) => sum + month.tax.incomeTax,
+            0,
+        ),
+    };
+}
+
+/**
+ * Estimates the annual personal income tax return (PDD-GDP) for one tax year.
+ *
+ * - Sums the income of every source: for salaries the gross less
+ *   contributions plus taxable benefits, for contracts their taxable base,
+ *   and other income as given.
+ * - Deducts the monthly allowance once for every month paid by the employer
+ *   that applies it. Only one employer may apply the allowance.
+ * - Applies the annual tax brackets to the result and compares the tax
+ *   liable with the tax withheld during the year.
+ *
+ * @param {TaxReturnInput} input - Employment, contract and other income for the year.
+ * @param {RatesConfig} rates - Rates object of the tax year.
+ * @returns {TaxReturnBreakdown} Sources, annual tax and the balance due or refunded (no rounding).
+ */
+export function calculateTaxReturn(
+    input: TaxReturnInput,
+    rates: RatesConfig,
+): TaxReturnBreakdown {
+    const allowanceEmployers = input.employments.filter(
+        (employment) => employment.appliesAllowance,
+    );
+    if (allowanceEmployers.length > 1) {
+        throw new Error(
+            `Only one employer may apply the allowance, got ${allowanceEmployers
+                .map((employment) => employment.employer)
+                .join(", ")}`,
+        );
+    }
+
+    const sources: TaxReturnSource[] = [
+        ...input.employments.map(employmentSource),
+        ...input.contracts.map(
+            (contract): TaxReturnSource => ({
+                kind: "contract",
+                name: contract.payer,
+                income: contract.contract.tax.taxableBase,
+                withheld: contract.contract.tax.incomeTax,
+            }),
+        ),
+        ...input.other.map(
+            (other): TaxReturnSource => ({
+                kind: "other",
+                name: other.description,
+                income: other.taxableIncome,
+                withheld: other.withheld,
+            }),
+        ),
+    ];
+
+    const income = sources.reduce((sum, source) => sum + source.income, 0);
+    const withheld = sources.reduce((sum, source) => sum + source.withheld, 0);
+    const allowance =
+        rates.allowance * (allowanceEmployers[0]?.months.length ?? 0);
+    const tax = calculateTax(income, rates, "annual", allowance);
+
+    return {
+        sources,
+        income,
+        allowance,
+        tax,
+        withheld,
+        balance: tax.incomeTax - withheld,
+    };
+}
+
+/**
+ * Rounds a tax return to whole denars following a rounding policy. Totals are
+ * the sums of the rounded sources, and the balance is derived from the
+ * rounded tax and withholding.
+ *
+ * @param {TaxReturnBreakdown} taxReturn - Unrounded tax return.
+ * @param {RoundingPolicy} policy - Rounding policy (defaults to the UJP rules).
+ * @returns {FinalizedTaxReturnBreakdown} The finalized tax return.
+ */
+export function finalizeTaxReturn(
+    taxReturn: TaxReturnBreakdown,
+    policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+): FinalizedTaxReturnBreakdown {
+    const sources = taxReturn.sources.map((source) => ({
+        ...source,
+        income: toDenars(source.income, policy.amounts),
+        withheld: toDenars(source.withheld, policy.incomeTax),
+    }));
+    const withheld = sumDenars(sources.map((source) => source.withheld));
+    const tax = finalizeTax(taxReturn.tax, policy);
+
+    return {
+        sources,
+        income: sumDenars(sources.map((source) => source.income)),
+        allowance: toDenars(taxReturn.allowance, policy.amounts),
+        tax,
+        withheld,
+        balance: denars(tax.incomeTax - withheld),
+    };
+}
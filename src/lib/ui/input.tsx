@@ -1,17 +1,20 @@
-import { createUniqueId, type JSX } from "solid-js";
+import { createUniqueId, type JSX, splitProps } from "solid-js";
 import { cn } from "../utils";
 
 type Props = {
     label: string;
     supportingText?: string;
+    /** Error message; when set, the input is shown in its error state and the message replaces `supportingText`. */
+    error?: string;
 } & JSX.InputHTMLAttributes<HTMLInputElement>;
 
-export default function Input({
-    label,
-    supportingText,
-    class: providedClass,
-    ...props
-}: Props) {
+export default function Input(props: Props) {
+    const [local, others] = splitProps(props, [
+        "label",
+        "supportingText",
+        "error",
+        "class",
+    ]);
     const id = createUniqueId();
 
     return (
@@ -20,21 +23,38 @@ export default function Input({
                 <input
                     class={cn(
                         "peer focus:outline-2 focus:outline-primary placeholder:invisible rounded-sm outline outline-outline text-on-surface text-base/6 tracking-wide font-normal px-4 h-14",
-                        providedClass,
+                        local.error && "outline-error focus:outline-error",
+                        local.class,
                     )}
-                    {...props}
+                    aria-invalid={local.error ? true : undefined}
+                    aria-describedby={
+                        local.error || local.supportingText
+                            ? `input-${id}-supporting-text`
+                            : undefined
+                    }
+                    {...others}
                     id={`input-${id}`}
                 />
                 <label
                     for={`input-${id}`}
-                    class="absolute peer-placeholder-shown:top-1/2 peer-placeholder-shown:-translate-y-1/2 left-3 peer-focus:text-primary peer-focus:top-0 peer-focus:-translate-y-1/2 top-0 -translate-y-1/2 transition-all bg-surface peer-placeholder-shown:text-on-surface-variant font-normal peer-placeholder-shown:text-base/6 peer-placeholder-shown:tracking-wide px-1"
+                    class={cn(
+                        "absolute peer-placeholder-shown:top-1/2 peer-placeholder-shown:-translate-y-1/2 left-3 peer-focus:text-primary peer-focus:top-0 peer-focus:-translate-y-1/2 top-0 -translate-y-1/2 transition-all bg-surface peer-placeholder-shown:text-on-surface-variant font-normal peer-placeholder-shown:text-base/6 peer-placeholder-shown:tracking-wide px-1",
+                        local.error &&
+                            "text-error peer-focus:text-error peer-placeholder-shown:text-error",
+                    )}
                 >
-                    {label}
+                    {local.label}
                 </label>
             </div>
-            {supportingText && (
-                <p class="mt-1 px-4 text-on-surface-variant text-xs/4 font-normal">
-                    {supportingText}
+            {(local.error || local.supportingText) && (
+                <p
+                    id={`input-${id}-supporting-text`}
+                    class={cn(
+                        "mt-1 px-4 text-on-surface-variant text-xs/4 font-normal",
+                        local.error && "text-error",
+                    )}
+                >
+                    {local.error || local.supportingText}
                 </p>
             )}
         </div>
@@ -0,0 +1,64 @@
+import { createUniqueId, type JSX, splitProps } from "solid-js";
+import { cn } from "../utils";
+
+type Props = {
+    label: string;
+    supportingText?: string;
+    /** Error message; when set, the select is shown in its error state and the message replaces `supportingText`. */
+    error?: string;
+} & JSX.SelectHTMLAttributes<HTMLSelectElement>;
+
+export default function Select(props: Props) {
+    const [local, others] = splitProps(props, [
+        "label",
+        "supportingText",
+        "error",
+        "class",
+        "children",
+    ]);
+    const id = createUniqueId();
+
+    return (
+        <div>
+            <div class="relative">
+                <select
+                    class={cn(
+                        "focus:outline-2 focus:outline-primary rounded-sm outline outline-outline bg-surface text-on-surface text-base/6 tracking-wide font-normal px-4 h-14",
+                        local.error && "outline-error focus:outline-error",
+                        local.class,
+                    )}
+                    aria-invalid={local.error ? true : undefined}
+                    aria-describedby={
+                        local.error || local.supportingText
+                            ? `select-${id}-supporting-text`
+                            : undefined
+                    }
+                    {...others}
+                    id={`select-${id}`}
+                >
+                    {local.children}
+                </select>
+                <label
+                    for={`select-${id}`}
+                    class={cn(
+                        "absolute left-3 top-0 -translate-y-1/2 bg-surface text-on-surface-variant text-xs/4 px-1",
+                        local.error && "text-error",
+                    )}
+                >
+                    {local.label}
+                </label>
+            </div>
+            {(local.error || local.supportingText) && (
+                <p
+                    id={`select-${id}-supporting-text`}
+                    class={cn(
+                        "mt-1 px-4 text-on-surface-variant text-xs/4 font-normal",
+                        local.error && "text-error",
+                    )}
+                >
+                    {local.error || local.supportingText}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { roundMoney } from "./money";
+import { AvailableYears, getRates } from "./rates-configs";
+import { calculateNetSalary } from "./salary";
+import {
+    getHoursErrorMessage,
+    getMinimumAmount,
+    getSalaryAmountErrorMessage,
+    getSalaryAmountWarningMessage,
+    MAX_MONTHLY_HOURS,
+    SALARY_AMOUNT_CEILING,
+    validateHours,
+    validateSalaryAmount,
+} from "./validation";
+import { getMonthlyHours } from "./work-time";
+
+const RATES = getRates();
+
+describe("getMinimumAmount", () => {
+    it("should return the minimum wage for the input type", () => {
+        expect(getMinimumAmount("gross", RATES)).toBe(RATES.minimumWage.gross);
+        expect(getMinimumAmount("net", RATES)).toBe(RATES.minimumWage.net);
+    });
+
+    it("should return the hourly minimum wage for an hourly rate", () => {
+        const hourly = RATES.minimumWage.gross / getMonthlyHours();
+
+        expect(getMinimumAmount("hourly", RATES)).toBeCloseTo(hourly, 5);
+        expect(getMinimumAmount("hourly", RATES, 0.5)).toBeCloseTo(hourly, 5);
+    });
+
+    it("should include employer charges for a total cost amount", () => {
+        const rates = {
+            ...RATES,
+            employerCharges: [
+                { name: "Meal allowance", kind: "fixed", amount: 3000 },
+            ],
+        } satisfies typeof RATES;
+
+        expect(getMinimumAmount("totalCost", rates)).toBe(
+            rates.minimumWage.gross + 3000,
+        );
+    });
+
+    it("should have a net minimum wage matching the gross one every year", () => {
+        for (const year of AvailableYears) {
+            const rates = getRates(year);
+            const net = calculateNetSalary(rates.minimumWage.gross, rates).net;
+
+            expect(roundMoney(net)).toBe(rates.minimumWage.net);
+        }
+    });
+});
+
+describe("validateSalaryAmount", () => {
+    it("should accept a valid amount", () => {
+        expect(validateSalaryAmount(" 65000.50 ", "gross", RATES)).toEqual({
+            ok: true,
+            amount: 65000.5,
+            warning: null,
+        });
+    });
+
+    it("should reject an empty amount", () => {
+        expect(validateSalaryAmount("", "gross", RATES)).toEqual({
+            ok: false,
+            error: { kind: "empty" },
+        });
+    });
+
+    it("should reject amounts that are not plain numbers", () => {
+        for (const raw of ["abc", "-5e3", "5e3", "1,000", "NaN", "Infinity"]) {
+            expect(validateSalaryAmount(raw, "gross", RATES)).toEqual({
+                ok: false,
+                error: { kind: "notANumber" },
+            });
+        }
+    });
+
+    it("should reject negative amounts", () => {
+        expect(validateSalaryAmount("-5000", "gross", RATES)).toEqual({
+            ok: false,
+            error: { kind: "negative" },
+        });
+    });
+
+    it("should warn about amounts below the minimum wage", () => {
+        expect(
+            validateSalaryAmount(
+                String(RATES.minimumWage.net - 1),
+                "net",
+                RATES,
+            ),
+        ).toEqual({
+            ok: true,
+            amount: RATES.minimumWage.net - 1,
+            warning: {
+                kind: "belowMinimumWage",
+                minimum: RATES.minimumWage.net,
+            },
+        });
+        expect(
+            validateSalaryAmount(String(RATES.minimumWage.net), "net", RATES),
+        ).toEqual({ ok: true, amount: RATES.minimumWage.net, warning: null });
+    });
+
+    it("should pro-rate the minimum wage to the work fraction", () => {
+        const halfTimeGross = RATES.minimumWage.gross / 2;
+
+        expect(
+            validateSalaryAmount(String(halfTimeGross), "gross", RATES, 0.5),
+        ).toEqual({ ok: true, amount: halfTimeGross, warning: null });
+        expect(
+            validateSalaryAmount(String(halfTimeGross), "gross", RATES),
+        ).toMatchObject({ warning: { kind: "belowMinimumWage" } });
+    });
+
+    it("should reject amounts above the sanity ceiling", () => {
+        expect(
+            validateSalaryAmount(
+                String(SALARY_AMOUNT_CEILING + 1),
+                "gross",
+                RATES,
+            ),
+        ).toEqual({
+            ok: false,
+            error: { kind: "aboveCeiling", ceiling: SALARY_AMOUNT_CEILING },
+        });
+    });
+
+    it("should compare foreign currency amounts in MKD", () => {
+        const exchangeRate = 61.5;
+        const minimumInEur = RATES.minimumWage.gross / exchangeRate;
+
+        expect(
+            validateSalaryAmount(
+                String(Math.ceil(minimumInEur)),
+                "gross",
+                RATES,
+                1,
+                exchangeRate,
+            ),
+        ).toEqual({
+            ok: true,
+            amount: Math.ceil(minimumInEur),
+            warning: null,
+        });
+        expect(
+            validateSalaryAmount("200000", "gross", RATES, 1, exchangeRate),
+        ).toMatchObject({ ok: false, error: { kind: "aboveCeiling" } });
+    });
+});
+
+describe("validateHours", () => {
+    it("should accept hours", () => {
+        expect(validateHours(" 7.5 ")).toEqual({ ok: true, hours: 7.5 });
+    });
+
+    it("should read empty hours as none", () => {
+        expect(validateHours("")).toEqual({ ok: true, hours: 0 });
+    });
+
+    it("should reject hours that are not plain numbers", () => {
+        expect(validateHours("1e17")).toEqual({
+            ok: false,
+            error: { kind: "notANumber" },
+        });
+    });
+
+    it("should reject negative hours", () => {
+        expect(validateHours("-8")).toEqual({
+            ok: false,
+            error: { kind: "negative" },
+        });
+    });
+
+    it("should reject more hours than a month has", () => {
+        expect(validateHours(String(MAX_MONTHLY_HOURS + 1))).toEqual({
+            ok: false,
+            error: { kind: "aboveMonthlyHours", maximum: MAX_MONTHLY_HOURS },
+        });
+    });
+});
+
+describe("getSalaryAmountErrorMessage", () => {
+    it("should mention the ceiling", () => {
+        expect(
+            getSalaryAmountErrorMessage({
+                kind: "aboveCeiling",
+                ceiling: SALARY_AMOUNT_CEILING,
+            }),
+        ).toContain("cannot exceed");
+    });
+
+    it("should translate the message", () => {
+        expect(getSalaryAmountErrorMessage({ kind: "empty" }, "mk")).toBe(
+            "Внесете износ",
+        );
+    });
+});
+
+describe("getSalaryAmountWarningMessage", () => {
+    it("should mention the minimum wage", () => {
+        expect(
+            getSalaryAmountWarningMessage({
+                kind: "belowMinimumWage",
+                minimum: 24379,
+            }),
+        ).toContain("minimum wage");
+    });
+});
+
+describe("getHoursErrorMessage", () => {
+    it("should mention the most hours a month has", () => {
+        expect(
+            getHoursErrorMessage({
+                kind: "aboveMonthlyHours",
+                maximum: MAX_MONTHLY_HOURS,
+            }),
+        ).toContain(String(MAX_MONTHLY_HOURS));
+    });
+});
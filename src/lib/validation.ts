@@ -0,0 +1,228 @@
+import { formatMkd } from "./formatters";
+import { DEFAULT_LOCALE, type Locale, translate } from "./i18n";
+import type { RatesConfig } from "./rates-configs/types";
+import {
+    calculateEmployerCharges,
+    getMinimumWage,
+    type SalaryInput,
+} from "./salary";
+import { getMonthlyHours } from "./work-time";
+
+/**
+ * Highest monthly amount (MKD) the calculator accepts. Anything above it is
+ * almost certainly a typo rather than a real salary.
+ */
+export const SALARY_AMOUNT_CEILING = 10_000_000;
+
+/** Most hours a month can have (31 days of 24 hours). */
+export const MAX_MONTHLY_HOURS = 31 * 24;
+
+/** A number as amount inputs hold it after `normalizeAmountInput`. */
+export const AMOUNT_PATTERN = /^[+-]?\d+(\.\d+)?$/;
+
+export type SalaryAmountError =
+    | { kind: "empty" }
+    | { kind: "notANumber" }
+    | { kind: "negative" }
+    | { kind: "aboveCeiling"; ceiling: number };
+
+/**
+ * A valid amount that is still worth pointing out, e.g. because it would be
+ * unlawful for the entered work time.
+ */
+export type SalaryAmountWarning = { kind: "belowMinimumWage"; minimum: number };
+
+export type SalaryAmountValidation =
+    | { ok: true; amount: number; warning: SalaryAmountWarning | null }
+    | { ok: false; error: SalaryAmountError };
+
+export type HoursError =
+    | { kind: "notANumber" }
+    | { kind: "negative" }
+    | { kind: "aboveMonthlyHours"; maximum: number };
+
+export type HoursValidation =
+    | { ok: true; hours: number }
+    | { ok: false; error: HoursError };
+
+/**
+ * Returns the minimum wage expressed as the given salary input type: the
+ * gross or net minimum wage, or what the gross minimum wage costs the
+ * employer, pro-rated to the work fraction. For an hourly rate it is the gross
+ * minimum wage per paid hour, which does not depend on the work fraction.
+ *
+ * @param {SalaryInput["type"]} type - Input type the minimum is compared against.
+ * @param {RatesConfig} rates - Rates object containing `minimumWage` and `employerCharges`.
+ * @param {number} workFraction - Share of full-time work (defaults to 1).
+ * @returns {number} Minimum amount for that input type (no rounding).
+ */
+export function getMinimumAmount(
+    type: SalaryInput["type"],
+    rates: RatesConfig,
+    workFraction: number = 1,
+): number {
+    const minimumWage = getMinimumWage(rates, workFraction);
+
+    if (type === "net") {
+        return minimumWage.net;
+    }
+
+    if (type === "totalCost") {
+        return calculateEmployerCharges(minimumWage.gross, rates).totalCost;
+    }
+
+    if (type === "hourly") {
+        return minimumWage.gross / getMonthlyHours(workFraction);
+    }
+
+    return minimumWage.gross;
+}
+
+/**
+ * Validates a salary amount as entered by the user.
+ *
+ * Only plain decimal numbers are accepted (no exponents, separators or
+ * currency symbols). A valid number must not be negative and must not exceed
+ * `SALARY_AMOUNT_CEILING`. An amount below the year's minimum wage for the
+ * input type is still valid, but comes with a warning. Amounts entered in
+ * another currency are converted with `exchangeRate` before they are compared
+ * with the ceiling and the minimum wage.
+ *
+ * @param {string} raw - Amount as entered.
+ * @param {SalaryInput["type"]} type - Whether the amount is a gross, net or total cost amount.
+ * @param {RatesConfig} rates - Rates object of the year the amount is calculated for.
+ * @param {number} workFraction - Share of full-time work the minimum wage is pro-rated to (defaults to 1).
+ * @param {number} exchangeRate - MKD per one unit of the currency the amount is entered in (defaults to 1).
+ * @returns {SalaryAmountValidation} The parsed amount (in the entered currency) and any warning, or the first error found.
+ */
+export function validateSalaryAmount(
+    raw: string,
+    type: SalaryInput["type"],
+    rates: RatesConfig,
+    workFraction: number = 1,
+    exchangeRate: number = 1,
+): SalaryAmountValidation {
+    const value = raw.trim();
+
+    if (value === "") {
+        return { ok: false, error: { kind: "empty" } };
+    }
+
+    if (!AMOUNT_PATTERN.test(value)) {
+        return { ok: false, error: { kind: "notANumber" } };
+    }
+
+    const amount = Number(value);
+
+    if (amount < 0) {
+        return { ok: false, error: { kind: "negative" } };
+    }
+
+    if (amount * exchangeRate > SALARY_AMOUNT_CEILING) {
+        return {
+            ok: false,
+            error: { kind: "aboveCeiling", ceiling: SALARY_AMOUNT_CEILING },
+        };
+    }
+
+    const minimum = getMinimumAmount(type, rates, workFraction);
+    if (amount * exchangeRate < minimum) {
+        return {
+            ok: true,
+            amount,
+            warning: { kind: "belowMinimumWage", minimum },
+        };
+    }
+
+    return { ok: true, amount, warning: null };
+}
+
+/**
+ * Validates a number of hours worked in a month, as entered by the user. An
+ * empty value means no hours. Like amounts, only plain decimal numbers are
+ * accepted, and a month cannot have more than `MAX_MONTHLY_HOURS`.
+ *
+ * @param {string} raw - Hours as entered.
+ * @returns {HoursValidation} The parsed hours, or the first error found.
+ */
+export function validateHours(raw: string): HoursValidation {
+    const value = raw.trim();
+
+    if (value === "") {
+        return { ok: true, hours: 0 };
+    }
+
+    if (!AMOUNT_PATTERN.test(value)) {
+        return { ok: false, error: { kind: "notANumber" } };
+    }
+
+    const hours = Number(value);
+
+    if (hours < 0) {
+        return { ok: false, error: { kind: "negative" } };
+    }
+
+    if (hours > MAX_MONTHLY_HOURS) {
+        return {
+            ok: false,
+            error: { kind: "aboveMonthlyHours", maximum: MAX_MONTHLY_HOURS },
+        };
+    }
+
+    return { ok: true, hours };
+}
+
+/**
+ * Returns a user-facing message for a salary amount error.
+ */
+export function getSalaryAmountErrorMessage(
+    error: SalaryAmountError,
+    locale: Locale = DEFAULT_LOCALE,
+): string {
+    switch (error.kind) {
+        case "empty":
+            return translate(locale, "validation.empty");
+        case "notANumber":
+            return translate(locale, "validation.notANumber");
+        case "negative":
+            return translate(locale, "validation.negative");
+        case "aboveCeiling":
+            return translate(locale, "validation.aboveCeiling", {
+                ceiling: formatMkd(error.ceiling),
+            });
+    }
+}
+
+/**
+ * Returns a user-facing message for a salary amount warning.
+ */
+export function getSalaryAmountWarningMessage(
+    warning: SalaryAmountWarning,
+    locale: Locale = DEFAULT_LOCALE,
+): string {
+    switch (warning.kind) {
+        case "belowMinimumWage":
+            return translate(locale, "validation.belowMinimumWage", {
+                minimum: formatMkd(warning.minimum),
+            });
+    }
+}
+
+/**
+ * Returns a user-facing message for an hours error.
+ */
+export function getHoursErrorMessage(
+    error: HoursError,
+    locale: Locale = DEFAULT_LOCALE,
+): string {
+    switch (error.kind) {
+        case "notANumber":
+            return translate(locale, "validation.hoursNotANumber");
+        case "negative":
+            return translate(locale, "validation.hoursNegative");
+        case "aboveMonthlyHours":
+            return translate(locale, "validation.aboveMonthlyHours", {
+                maximum: error.maximum,
+            });
+    }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import {
+    FULL_TIME_WEEKLY_HOURS,
+    getMonthlyHours,
+    getWeeklyHours,
+    getWorkFraction,
+} from "./work-time";
+
+describe("getWorkFraction", () => {
+    it("should convert weekly hours into a share of full-time work", () => {
+        expect(getWorkFraction(FULL_TIME_WEEKLY_HOURS)).toBe(1);
+        expect(getWorkFraction(20)).toBe(0.5);
+    });
+
+    it("should be the inverse of getWeeklyHours", () => {
+        expect(getWeeklyHours(getWorkFraction(30))).toBe(30);
+    });
+});
+
+describe("getMonthlyHours", () => {
+    it("should average the paid hours over a year", () => {
+        expect(getMonthlyHours()).toBeCloseTo((40 * 52) / 12, 5);
+        expect(getMonthlyHours(0.5)).toBeCloseTo((20 * 52) / 12, 5);
+    });
+});
@@ -0,0 +1,36 @@
+/** Statutory full-time working week in hours. */
+export const FULL_TIME_WEEKLY_HOURS = 40;
+
+/** Average number of weeks in a month (52 weeks over 12 months). */
+export const WEEKS_PER_MONTH = 52 / 12;
+
+/**
+ * Converts contracted weekly hours into a share of full-time work.
+ *
+ * @param {number} weeklyHours - Contracted hours per week.
+ * @returns {number} Share of full-time work, e.g. 0.5 for 20 hours a week.
+ */
+export function getWorkFraction(weeklyHours: number): number {
+    return weeklyHours / FULL_TIME_WEEKLY_HOURS;
+}
+
+/**
+ * Converts a share of full-time work into contracted weekly hours.
+ *
+ * @param {number} workFraction - Share of full-time work.
+ * @returns {number} Contracted hours per week.
+ */
+export function getWeeklyHours(workFraction: number): number {
+    return workFraction * FULL_TIME_WEEKLY_HOURS;
+}
+
+/**
+ * Returns the average number of paid hours per month for a share of
+ * full-time work.
+ *
+ * @param {number} workFraction - Share of full-time work (defaults to 1).
+ * @returns {number} Average paid hours per month (no rounding).
+ */
+export function getMonthlyHours(workFraction: number = 1): number {
+    return getWeeklyHours(workFraction) * WEEKS_PER_MONTH;
+}
@@ -1,10 +1,13 @@
 import { Title } from "@solidjs/meta";
 import { HttpStatusCode } from "@solidjs/start";
+import { useI18n } from "~/lib/i18n/context";
 
 export default function NotFound() {
+    const { t } = useI18n();
+
     return (
         <main class="grid min-h-full place-items-center px-6 py-24 sm:py-32 lg:px-8">
-            <Title>Page not found - SalarySense</Title>
+            <Title>{t("notFound.title")}</Title>
             <HttpStatusCode code={404} />
             <article
                 class="w-full max-w-4xl transform rounded-2xl p-8 shadow-1 bg-surface-container text-on-surface"
@@ -22,27 +25,25 @@ export default function NotFound() {
                             id="notfound-heading"
                             class="mt-6 text-3xl font-bold leading-tight text-on-surface sm:text-5xl"
                         >
-                            Page not found
+                            {t("notFound.heading")}
                         </h1>
 
                         <p class="mt-4 text-base text-on-surface-variant">
-                            It looks like the page you were trying to reach
-                            doesn't exist or has been moved.
+                            {t("notFound.description")}
                         </p>
 
                         <div class="mt-8 flex flex-wrap items-center gap-3">
                             <a
                                 href="/"
                                 class="inline-flex items-center justify-center rounded-lg bg-primary text-on-primary px-5 py-2.5 text-sm font-medium focus:outline-none focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
-                                aria-label="Go back home"
+                                aria-label={t("notFound.home")}
                             >
-                                Go back home
+                                {t("notFound.home")}
                             </a>
                         </div>
 
                         <p class="mt-6 text-sm text-on-surface-variant">
-                            If you arrived here from a saved link, it may be out
-                            of date.
+                            {t("notFound.staleLink")}
                         </p>
                     </section>
                 </div>
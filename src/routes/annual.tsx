@@ -0,0 +1,263 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { formatMkd, formatMonth, formatPayPeriod } from "~/lib/formatters";
+import { normalizeAmountInput } from "~/lib/i18n";
+import { useI18n } from "~/lib/i18n/context";
+import {
+    calculatePayrollSchedule,
+    finalizePayrollSchedule,
+    getPayPeriodDate,
+    getPayPeriods,
+} from "~/lib/payroll";
+import {
+    getAvailableYears,
+    getRatesForDate,
+    hasRatesForDate,
+} from "~/lib/rates-configs";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+import {
+    SegmentedButton,
+    SegmentedButtonGroup,
+} from "~/lib/ui/segmented-button";
+import Select from "~/lib/ui/select";
+import {
+    getSalaryAmountErrorMessage,
+    getSalaryAmountWarningMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+type SalaryMode = "gross" | "net";
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+export default function Annual() {
+    const { locale, t } = useI18n();
+    const [mode, setMode] = createSignal<SalaryMode>("gross");
+    const [startYear, setStartYear] = createSignal<number>(
+        getAvailableYears()[0],
+    );
+    const [startMonth, setStartMonth] = createSignal<number>(1);
+    const [amounts, setAmounts] = createSignal<string[]>(MONTHS.map(() => ""));
+
+    const periods = createMemo(() =>
+        getPayPeriods({ year: startYear(), month: startMonth() }),
+    );
+
+    const missingPeriod = createMemo(() =>
+        periods().find((period) => !hasRatesForDate(getPayPeriodDate(period))),
+    );
+
+    /**
+     * Validates every month's amount with the rates of its pay period. An
+     * empty month is unpaid, so it counts as 0.
+     */
+    const validations = createMemo(() => {
+        if (missingPeriod() != null) return [];
+
+        return periods().map((period, index) =>
+            validateSalaryAmount(
+                normalizeAmountInput(amounts()[index] || "0", locale()),
+                mode(),
+                getRatesForDate(getPayPeriodDate(period)),
+            ),
+        );
+    });
+
+    const amountError = (index: number) => {
+        const result = validations()[index];
+        if (!result || result.ok) return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const amountWarning = (index: number) => {
+        const result = validations()[index];
+        if (!result?.ok || !result.warning || result.amount === 0) {
+            return undefined;
+        }
+        return getSalaryAmountWarningMessage(result.warning, locale());
+    };
+
+    const schedule = createMemo(() => {
+        const results = validations();
+        if (results.length === 0) return null;
+
+        const parsed = results.flatMap((result) =>
+            result.ok ? [result.amount] : [],
+        );
+        if (
+            parsed.length < results.length ||
+            parsed.every((amount) => amount === 0)
+        ) {
+            return null;
+        }
+
+        return finalizePayrollSchedule(
+            calculatePayrollSchedule({
+                start: { year: startYear(), month: startMonth() },
+                type: mode(),
+                amounts: parsed,
+            }),
+        );
+    });
+
+    const setAmount = (index: number, value: string) =>
+        setAmounts((current) =>
+            current.map((amount, i) => (i === index ? value : amount)),
+        );
+
+    const fillRemaining = (index: number) =>
+        setAmounts((current) =>
+            current.map((amount, i) => (i > index ? current[index] : amount)),
+        );
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("annual.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <SegmentedButtonGroup
+                    value={mode()}
+                    onChange={(e) => setMode(e as SalaryMode)}
+                >
+                    <SegmentedButton value="gross">
+                        {t("mode.gross")}
+                    </SegmentedButton>
+                    <SegmentedButton value="net">
+                        {t("mode.net")}
+                    </SegmentedButton>
+                </SegmentedButtonGroup>
+
+                <div class="flex gap-4">
+                    <Select
+                        label={t("annual.startYear")}
+                        value={startYear()}
+                        onChange={(e) => setStartYear(Number(e.target.value))}
+                    >
+                        <For each={getAvailableYears()}>
+                            {(year) => <option value={year}>{year}</option>}
+                        </For>
+                    </Select>
+                    <Select
+                        label={t("annual.startMonth")}
+                        value={startMonth()}
+                        onChange={(e) => setStartMonth(Number(e.target.value))}
+                    >
+                        <For each={MONTHS}>
+                            {(month) => (
+                                <option value={month}>
+                                    {formatMonth(month, locale())}
+                                </option>
+                            )}
+                        </For>
+                    </Select>
+                </div>
+
+                <div class="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <For each={periods()}>
+                        {(period, index) => (
+                            <div class="flex items-center gap-2">
+                                <Input
+                                    label={formatPayPeriod(period, locale())}
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder={formatPayPeriod(
+                                        period,
+                                        locale(),
+                                    )}
+                                    supportingText={amountWarning(index())}
+                                    error={amountError(index())}
+                                    value={amounts()[index()]}
+                                    onInput={(e) =>
+                                        setAmount(index(), e.target.value)
+                                    }
+                                />
+                                <Show when={index() < 11}>
+                                    <Button
+                                        variant="text"
+                                        onClick={() => fillRemaining(index())}
+                                    >
+                                        {t("annual.fillDown")}
+                                    </Button>
+                                </Show>
+                            </div>
+                        )}
+                    </For>
+                </div>
+            </section>
+
+            <br />
+
+            <Show
+                when={schedule()}
+                fallback={
+                    <Show when={missingPeriod()}>
+                        {(period) => (
+                            <p class="text-error">
+                                {t("annual.missingRates", {
+                                    period: formatPayPeriod(period(), locale()),
+                                })}
+                            </p>
+                        )}
+                    </Show>
+                }
+            >
+                {(result) => (
+                    <table class="w-full text-left">
+                        <thead>
+                            <tr>
+                                <th>{t("label.month")}</th>
+                                <th>{t("label.gross")}</th>
+                                <th>{t("label.contributions")}</th>
+                                <th>{t("label.taxableBase")}</th>
+                                <th>{t("label.incomeTax")}</th>
+                                <th>{t("label.net")}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <For each={result().rows}>
+                                {(row) => (
+                                    <tr>
+                                        <td>
+                                            {formatPayPeriod(row, locale())}
+                                        </td>
+                                        <td>{formatMkd(row.salary.gross)}</td>
+                                        <td>
+                                            {formatMkd(
+                                                row.salary.contributions.total,
+                                            )}
+                                        </td>
+                                        <td>
+                                            {formatMkd(
+                                                row.salary.tax.taxableBase,
+                                            )}
+                                        </td>
+                                        <td>
+                                            {formatMkd(
+                                                row.salary.tax.incomeTax,
+                                            )}
+                                        </td>
+                                        <td>{formatMkd(row.salary.net)}</td>
+                                    </tr>
+                                )}
+                            </For>
+                        </tbody>
+                        <tfoot>
+                            <tr>
+                                <th>{t("label.total")}</th>
+                                <td>{formatMkd(result().totals.gross)}</td>
+                                <td>
+                                    {formatMkd(result().totals.contributions)}
+                                </td>
+                                <td>
+                                    {formatMkd(result().totals.taxableBase)}
+                                </td>
+                                <td>{formatMkd(result().totals.incomeTax)}</td>
+                                <td>{formatMkd(result().totals.net)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                )}
+            </Show>
+        </main>
+    );
+}
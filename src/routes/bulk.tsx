@@ -0,0 +1,222 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import {
+    type BulkPayrollRowInput,
+    calculateBulkPayroll,
+    parseBulkPayrollCsv,
+    serializeBulkPayrollCsv,
+} from "~/lib/bulk-payroll";
+import { downloadFile } from "~/lib/download";
+import { formatMkd } from "~/lib/formatters";
+import { useI18n } from "~/lib/i18n/context";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getDefaultYear,
+} from "~/lib/rates-configs";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+import Select from "~/lib/ui/select";
+
+export default function Bulk() {
+    const { locale, t } = useI18n();
+    const [year, setYear] = createSignal<AvailableYear>(getDefaultYear());
+    const [inputs, setInputs] = createSignal<BulkPayrollRowInput[]>([]);
+    const [fileError, setFileError] = createSignal<string>();
+
+    const payroll = createMemo(() =>
+        inputs().length > 0
+            ? calculateBulkPayroll(inputs(), year(), locale())
+            : null,
+    );
+
+    const importFile = async (file: File | undefined) => {
+        if (!file) return;
+
+        try {
+            setInputs(parseBulkPayrollCsv(await file.text(), locale()));
+            setFileError(undefined);
+        } catch (error) {
+            setInputs([]);
+            setFileError(
+                error instanceof Error ? error.message : String(error),
+            );
+        }
+    };
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("bulk.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <Input
+                    label={t("bulk.file")}
+                    type="file"
+                    accept=".csv,text/csv"
+                    supportingText={t("bulk.fileHint")}
+                    error={fileError()}
+                    onChange={(e) => importFile(e.target.files?.[0])}
+                />
+                <Select
+                    label={t("label.year")}
+                    supportingText={t("bulk.yearHint")}
+                    value={year()}
+                    onChange={(e) =>
+                        setYear(Number(e.target.value) as AvailableYear)
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+            </section>
+
+            <Show when={payroll()}>
+                {(payroll) => (
+                    <>
+                        <br />
+
+                        <section class="overflow-x-auto">
+                            <table class="mx-auto">
+                                <thead>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("bulk.row")}
+                                        </th>
+                                        <th class="px-2 text-left">
+                                            {t("bulk.name")}
+                                        </th>
+                                        <th class="px-2 text-right">
+                                            {t("label.gross")}
+                                        </th>
+                                        <th class="px-2 text-right">
+                                            {t("label.contributions")}
+                                        </th>
+                                        <th class="px-2 text-right">
+                                            {t("label.incomeTax")}
+                                        </th>
+                                        <th class="px-2 text-right">
+                                            {t("label.net")}
+                                        </th>
+                                        <th class="px-2 text-right">
+                                            {t("bulk.totalCost")}
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <For each={payroll().rows}>
+                                        {(row) => (
+                                            <tr>
+                                                <td class="px-2">{row.row}</td>
+                                                <td class="px-2">{row.name}</td>
+                                                <Show
+                                                    when={row.ok ? row : null}
+                                                    fallback={
+                                                        <td
+                                                            colSpan={5}
+                                                            class="px-2 text-error"
+                                                        >
+                                                            {!row.ok &&
+                                                                row.errors.join(
+                                                                    "; ",
+                                                                )}
+                                                        </td>
+                                                    }
+                                                >
+                                                    {(row) => (
+                                                        <>
+                                                            <td class="px-2 text-right">
+                                                                {formatMkd(
+                                                                    row().salary
+                                                                        .gross,
+                                                                )}
+                                                            </td>
+                                                            <td class="px-2 text-right">
+                                                                {formatMkd(
+                                                                    row().salary
+                                                                        .contributions
+                                                                        .total,
+                                                                )}
+                                                            </td>
+                                                            <td class="px-2 text-right">
+                                                                {formatMkd(
+                                                                    row().salary
+                                                                        .tax
+                                                                        .incomeTax,
+                                                                )}
+                                                            </td>
+                                                            <td class="px-2 text-right">
+                                                                {formatMkd(
+                                                                    row().salary
+                                                                        .net,
+                                                                )}
+                                                            </td>
+                                                            <td class="px-2 text-right">
+                                                                {formatMkd(
+                                                                    row().salary
+                                                                        .employer
+                                                                        .totalCost,
+                                                                )}
+                                                            </td>
+                                                        </>
+                                                    )}
+                                                </Show>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                                <tfoot>
+                                    <tr class="font-semibold">
+                                        <td class="px-2" colSpan={2}>
+                                            {t("label.total")}
+                                        </td>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(payroll().totals.gross)}
+                                        </td>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                payroll().totals.contributions,
+                                            )}
+                                        </td>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                payroll().totals.incomeTax,
+                                            )}
+                                        </td>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(payroll().totals.net)}
+                                        </td>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                payroll().totals.totalCost,
+                                            )}
+                                        </td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </section>
+
+                        <br />
+
+                        <section class="flex justify-center">
+                            <Button
+                                onClick={() =>
+                                    downloadFile(
+                                        serializeBulkPayrollCsv(payroll()),
+                                        "text/csv",
+                                        `payroll-${year()}.csv`,
+                                    )
+                                }
+                            >
+                                {t("bulk.export")}
+                            </Button>
+                        </section>
+                    </>
+                )}
+            </Show>
+        </main>
+    );
+}
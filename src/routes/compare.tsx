@@ -0,0 +1,179 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import {
+    compareSalaryAcrossYears,
+    finalizeYearComparison,
+    type YearComparison,
+} from "~/lib/comparison";
+import { formatMkd, formatMkdDelta } from "~/lib/formatters";
+import { type MessageKey, normalizeAmountInput } from "~/lib/i18n";
+import { useI18n } from "~/lib/i18n/context";
+import { getDefaultYear, getRates } from "~/lib/rates-configs";
+import Input from "~/lib/ui/input";
+import {
+    SegmentedButton,
+    SegmentedButtonGroup,
+} from "~/lib/ui/segmented-button";
+import {
+    getSalaryAmountErrorMessage,
+    getSalaryAmountWarningMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+type SalaryMode = "gross" | "net";
+
+type ComparisonLine = {
+    label: MessageKey;
+    value: (row: YearComparison) => string;
+};
+
+const LINES: ComparisonLine[] = [
+    { label: "label.gross", value: (row) => formatMkd(row.salary.gross) },
+    { label: "label.net", value: (row) => formatMkd(row.salary.net) },
+    {
+        label: "label.pensionAndDisability",
+        value: (row) =>
+            formatMkd(row.salary.contributions.pensionAndDisability),
+    },
+    {
+        label: "label.healthInsurance",
+        value: (row) => formatMkd(row.salary.contributions.healthInsurance),
+    },
+    {
+        label: "label.unemploymentInsurance",
+        value: (row) =>
+            formatMkd(row.salary.contributions.unemploymentInsurance),
+    },
+    {
+        label: "label.additionalHealthInsurance",
+        value: (row) =>
+            formatMkd(row.salary.contributions.additionalHealthInsurance),
+    },
+    {
+        label: "label.totalContributions",
+        value: (row) => formatMkd(row.salary.contributions.total),
+    },
+    {
+        label: "label.taxableBase",
+        value: (row) => formatMkd(row.salary.tax.taxableBase),
+    },
+    {
+        label: "label.incomeTax",
+        value: (row) => formatMkd(row.salary.tax.incomeTax),
+    },
+    {
+        label: "compare.netDelta",
+        value: (row) => formatMkdDelta(row.delta?.net),
+    },
+    {
+        label: "compare.contributionsDelta",
+        value: (row) => formatMkdDelta(row.delta?.contributions),
+    },
+    {
+        label: "compare.taxDelta",
+        value: (row) => formatMkdDelta(row.delta?.incomeTax),
+    },
+];
+
+export default function Compare() {
+    const { locale, t } = useI18n();
+    const [mode, setMode] = createSignal<SalaryMode>("gross");
+    const [amount, setAmount] = createSignal<string>("");
+
+    // The warning is about the newest year's minimum wage
+    const validation = createMemo(() =>
+        validateSalaryAmount(
+            normalizeAmountInput(amount(), locale()),
+            mode(),
+            getRates(getDefaultYear()),
+        ),
+    );
+
+    const amountError = () => {
+        const result = validation();
+        if (result.ok || result.error.kind === "empty") return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const amountSupportingText = () => {
+        const result = validation();
+        if (result.ok && result.warning) {
+            return getSalaryAmountWarningMessage(result.warning, locale());
+        }
+        return t(`compare.amountHint.${mode()}`);
+    };
+
+    const comparison = createMemo(() => {
+        const result = validation();
+        if (!result.ok) return null;
+
+        return finalizeYearComparison(
+            compareSalaryAcrossYears({ type: mode(), amount: result.amount }),
+        );
+    });
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("compare.title")}</Title>
+            <section class="flex flex-col items-center">
+                <div>
+                    <SegmentedButtonGroup
+                        value={mode()}
+                        onChange={(e) => setMode(e as SalaryMode)}
+                    >
+                        <SegmentedButton value="gross">
+                            {t("mode.gross")}
+                        </SegmentedButton>
+                        <SegmentedButton value="net">
+                            {t("mode.net")}
+                        </SegmentedButton>
+                    </SegmentedButtonGroup>
+                </div>
+
+                <Input
+                    label={t("label.amount")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("label.amount")}
+                    supportingText={amountSupportingText()}
+                    error={amountError()}
+                    value={amount()}
+                    onInput={(e) => setAmount(e.target.value)}
+                />
+            </section>
+
+            <br />
+
+            <Show when={comparison()}>
+                {(rows) => (
+                    <section class="overflow-x-auto">
+                        <table class="w-full text-left">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    <For each={rows()}>
+                                        {(row) => <th>{row.year}</th>}
+                                    </For>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <For each={LINES}>
+                                    {(line) => (
+                                        <tr>
+                                            <th>{t(line.label)}</th>
+                                            <For each={rows()}>
+                                                {(row) => (
+                                                    <td>{line.value(row)}</td>
+                                                )}
+                                            </For>
+                                        </tr>
+                                    )}
+                                </For>
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+            </Show>
+        </main>
+    );
+}
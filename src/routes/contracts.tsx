@@ -0,0 +1,222 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import {
+    type ContractInput,
+    type ContractType,
+    ContractTypes,
+    calculateContract,
+    finalizeContract,
+} from "~/lib/contracts";
+import { formatMkd, formatPercent } from "~/lib/formatters";
+import { normalizeAmountInput } from "~/lib/i18n";
+import { useI18n } from "~/lib/i18n/context";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getDefaultYear,
+    getRates,
+} from "~/lib/rates-configs";
+import Input from "~/lib/ui/input";
+import {
+    SegmentedButton,
+    SegmentedButtonGroup,
+} from "~/lib/ui/segmented-button";
+import Select from "~/lib/ui/select";
+import {
+    getSalaryAmountErrorMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+export default function Contracts() {
+    const { locale, t } = useI18n();
+    const [mode, setMode] = createSignal<ContractInput["type"]>("gross");
+    const [contract, setContract] = createSignal<ContractType>("author");
+    const [withContributions, setWithContributions] = createSignal(true);
+    const [amount, setAmount] = createSignal<string>("");
+    const [year, setYear] = createSignal<AvailableYear>(getDefaultYear());
+
+    const rules = () => getRates(year()).contracts[contract()];
+
+    const validation = createMemo(() =>
+        validateSalaryAmount(
+            normalizeAmountInput(amount(), locale()),
+            mode(),
+            getRates(year()),
+        ),
+    );
+
+    const amountError = () => {
+        const result = validation();
+        if (result.ok || result.error.kind === "empty") return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const breakdown = createMemo(() => {
+        const result = validation();
+        if (!result.ok) return null;
+
+        return finalizeContract(
+            calculateContract(
+                {
+                    type: mode(),
+                    contract: contract(),
+                    amount: result.amount,
+                    withContributions: withContributions(),
+                },
+                getRates(year()),
+            ),
+        );
+    });
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("contracts.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <SegmentedButtonGroup
+                    value={mode()}
+                    onChange={(e) => setMode(e as ContractInput["type"])}
+                >
+                    <SegmentedButton value="gross">
+                        {t("mode.gross")}
+                    </SegmentedButton>
+                    <SegmentedButton value="net">
+                        {t("mode.net")}
+                    </SegmentedButton>
+                </SegmentedButtonGroup>
+
+                <Select
+                    label={t("contracts.contract")}
+                    supportingText={t("contracts.rules", {
+                        normedCosts: formatPercent(
+                            rules().normedCosts,
+                            locale(),
+                        ),
+                        taxRate: formatPercent(rules().taxRate, locale()),
+                    })}
+                    value={contract()}
+                    onChange={(e) =>
+                        setContract(e.target.value as ContractType)
+                    }
+                >
+                    <For each={ContractTypes}>
+                        {(option) => (
+                            <option
+                                value={option}
+                                selected={option === contract()}
+                            >
+                                {t(`contracts.type.${option}`)}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+
+                <Show when={rules().optionalContributions}>
+                    <Select
+                        label={t("contracts.contributions")}
+                        value={String(withContributions())}
+                        onChange={(e) =>
+                            setWithContributions(e.target.value === "true")
+                        }
+                    >
+                        <option value="true" selected={withContributions()}>
+                            {t("contracts.paid")}
+                        </option>
+                        <option value="false" selected={!withContributions()}>
+                            {t("contracts.notPaid")}
+                        </option>
+                    </Select>
+                </Show>
+
+                <Input
+                    label={t("label.amount")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("label.amount")}
+                    supportingText={t(`contracts.amountHint.${mode()}`)}
+                    error={amountError()}
+                    value={amount()}
+                    onInput={(e) => setAmount(e.target.value)}
+                />
+
+                <Select
+                    label={t("label.year")}
+                    value={year()}
+                    onChange={(e) =>
+                        setYear(Number(e.target.value) as AvailableYear)
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+            </section>
+
+            <Show when={breakdown()}>
+                {(breakdown) => (
+                    <>
+                        <br />
+
+                        <section>
+                            <p>
+                                {t("result.gross", {
+                                    amount: formatMkd(breakdown().gross),
+                                })}
+                            </p>
+                            <p>
+                                {t("contracts.normedCosts", {
+                                    amount: formatMkd(breakdown().normedCosts),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.contributionBase", {
+                                    amount: formatMkd(
+                                        breakdown().contributions.base,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("contribution.pensionAndDisability", {
+                                    amount: formatMkd(
+                                        breakdown().contributions
+                                            .pensionAndDisability,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("contribution.healthInsurance", {
+                                    amount: formatMkd(
+                                        breakdown().contributions
+                                            .healthInsurance,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.taxableBase", {
+                                    amount: formatMkd(
+                                        breakdown().tax.taxableBase,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.incomeTax", {
+                                    amount: formatMkd(
+                                        breakdown().tax.incomeTax,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.net", {
+                                    amount: formatMkd(breakdown().net),
+                                })}
+                            </p>
+                        </section>
+                    </>
+                )}
+            </Show>
+        </main>
+    );
+}
@@ -0,0 +1,555 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, createUniqueId, For, Show } from "solid-js";
+import { formatCompact, formatMkd, formatPercent } from "~/lib/formatters";
+import type { Translator } from "~/lib/i18n";
+import { useAmountInput, useI18n } from "~/lib/i18n/context";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getDefaultYear,
+    getRates,
+} from "~/lib/rates-configs";
+import { calculateNetSalary, getMinimumWage } from "~/lib/salary";
+import {
+    calculateSalaryCurve,
+    getSalaryCurveMarkers,
+    type SalaryCurveMarker,
+    type SalaryCurvePoint,
+} from "~/lib/salary-curve";
+import Input from "~/lib/ui/input";
+import Select from "~/lib/ui/select";
+import {
+    getSalaryAmountErrorMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+const CURVE_STEPS = 200;
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 64 };
+const TICKS = 5;
+
+function markerLabel(marker: SalaryCurveMarker, t: Translator): string {
+    return marker.kind === "bracket"
+        ? t("curve.marker.bracket", { number: marker.bracket })
+        : t(`curve.marker.${marker.kind}`);
+}
+
+type ChartSeries = {
+    label: string;
+    value: (point: SalaryCurvePoint) => number;
+    /** CSS color of the line. */
+    color: string;
+    dashed?: boolean;
+};
+
+type ChartProps = {
+    title: string;
+    points: SalaryCurvePoint[];
+    domain: [number, number];
+    series: ChartSeries[];
+    formatValue: (value: number) => string;
+    markers: SalaryCurveMarker[];
+    hovered: number | null;
+    onHover: (index: number | null) => void;
+};
+
+function Chart(props: ChartProps) {
+    const { locale, t } = useI18n();
+    const clipId = `chart-${createUniqueId()}`;
+    const from = () => props.points[0].gross;
+    const to = () => props.points[props.points.length - 1].gross;
+
+    const x = (gross: number) =>
+        MARGIN.left +
+        ((gross - from()) / (to() - from())) *
+            (WIDTH - MARGIN.left - MARGIN.right);
+    const y = (value: number) => {
+        const [min, max] = props.domain;
+        return (
+            HEIGHT -
+            MARGIN.bottom -
+            ((value - min) / (max - min || 1)) *
+                (HEIGHT - MARGIN.top - MARGIN.bottom)
+        );
+    };
+
+    const ticks = (min: number, max: number) =>
+        Array.from(
+            { length: TICKS },
+            (_, index) => min + ((max - min) * index) / (TICKS - 1),
+        );
+
+    const path = (series: ChartSeries) =>
+        props.points
+            .map(
+                (point, index) =>
+                    `${index === 0 ? "M" : "L"}${x(point.gross).toFixed(1)},${y(series.value(point)).toFixed(1)}`,
+            )
+            .join(" ");
+
+    const hover = (event: PointerEvent & { currentTarget: SVGSVGElement }) => {
+        const box = event.currentTarget.getBoundingClientRect();
+        const gross =
+            from() +
+            ((((event.clientX - box.left) / box.width) * WIDTH - MARGIN.left) /
+                (WIDTH - MARGIN.left - MARGIN.right)) *
+                (to() - from());
+
+        let nearest = 0;
+        props.points.forEach((point, index) => {
+            if (
+                Math.abs(point.gross - gross) <
+                Math.abs(props.points[nearest].gross - gross)
+            ) {
+                nearest = index;
+            }
+        });
+        props.onHover(nearest);
+    };
+
+    const hoveredPoint = () =>
+        props.hovered === null ? undefined : props.points[props.hovered];
+
+    return (
+        <figure>
+            <figcaption class="text-center font-semibold">
+                {props.title}
+            </figcaption>
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                class="w-full touch-none"
+                role="img"
+                aria-label={props.title}
+                onPointerMove={hover}
+                onPointerDown={hover}
+                onPointerLeave={() => props.onHover(null)}
+            >
+                <For each={ticks(...props.domain)}>
+                    {(tick) => (
+                        <g>
+                            <line
+                                x1={MARGIN.left}
+                                x2={WIDTH - MARGIN.right}
+                                y1={y(tick)}
+                                y2={y(tick)}
+                                class="stroke-outline-variant"
+                            />
+                            <text
+                                x={MARGIN.left - 4}
+                                y={y(tick)}
+                                text-anchor="end"
+                                dominant-baseline="middle"
+                                class="fill-on-surface-variant text-xs"
+                            >
+                                {props.formatValue(tick)}
+                            </text>
+                        </g>
+                    )}
+                </For>
+                <For each={ticks(from(), to())}>
+                    {(tick) => (
+                        <text
+                            x={x(tick)}
+                            y={HEIGHT - MARGIN.bottom + 16}
+                            text-anchor="middle"
+                            class="fill-on-surface-variant text-xs"
+                        >
+                            {formatCompact(tick, locale())}
+                        </text>
+                    )}
+                </For>
+
+                <For each={props.markers}>
+                    {(marker, index) => (
+                        <Show
+                            when={
+                                marker.gross >= from() && marker.gross <= to()
+                            }
+                        >
+                            <g>
+                                <title>
+                                    {t("curve.markerTitle", {
+                                        label: markerLabel(marker, t),
+                                        amount: formatMkd(marker.gross),
+                                    })}
+                                </title>
+                                <line
+                                    x1={x(marker.gross)}
+                                    x2={x(marker.gross)}
+                                    y1={MARGIN.top}
+                                    y2={HEIGHT - MARGIN.bottom}
+                                    stroke-dasharray="2 4"
+                                    class="stroke-tertiary"
+                                />
+                                <text
+                                    x={x(marker.gross) + 4}
+                                    y={MARGIN.top + 8}
+                                    class="fill-tertiary text-xs"
+                                >
+                                    {index() + 1}
+                                </text>
+                            </g>
+                        </Show>
+                    )}
+                </For>
+
+                <defs>
+                    <clipPath id={clipId}>
+                        <rect
+                            x={MARGIN.left}
+                            y={MARGIN.top}
+                            width={WIDTH - MARGIN.left - MARGIN.right}
+                            height={HEIGHT - MARGIN.top - MARGIN.bottom}
+                        />
+                    </clipPath>
+                </defs>
+                <For each={props.series}>
+                    {(series) => (
+                        <path
+                            clip-path={`url(#${clipId})`}
+                            d={path(series)}
+                            fill="none"
+                            stroke-width="2"
+                            stroke-dasharray={series.dashed ? "6 4" : undefined}
+                            stroke={series.color}
+                        />
+                    )}
+                </For>
+
+                <Show when={hoveredPoint()}>
+                    {(point) => (
+                        <g>
+                            <line
+                                x1={x(point().gross)}
+                                x2={x(point().gross)}
+                                y1={MARGIN.top}
+                                y2={HEIGHT - MARGIN.bottom}
+                                class="stroke-on-surface"
+                            />
+                            <For each={props.series}>
+                                {(series) => (
+                                    <circle
+                                        cx={x(point().gross)}
+                                        cy={y(series.value(point()))}
+                                        r="4"
+                                        fill={series.color}
+                                        clip-path={`url(#${clipId})`}
+                                    />
+                                )}
+                            </For>
+                        </g>
+                    )}
+                </Show>
+            </svg>
+            <ul class="flex justify-center gap-4 text-xs">
+                <For each={props.series}>
+                    {(series) => (
+                        <li class="flex items-center gap-1">
+                            <svg
+                                viewBox="0 0 16 4"
+                                class="w-4"
+                                aria-hidden="true"
+                            >
+                                <line
+                                    x1="0"
+                                    x2="16"
+                                    y1="2"
+                                    y2="2"
+                                    stroke-width="2"
+                                    stroke-dasharray={
+                                        series.dashed ? "4 2" : undefined
+                                    }
+                                    stroke={series.color}
+                                />
+                            </svg>
+                            {series.label}
+                        </li>
+                    )}
+                </For>
+            </ul>
+        </figure>
+    );
+}
+
+export default function Curve() {
+    const { locale, t } = useI18n();
+    const [year, setYear] = createSignal<AvailableYear>(getDefaultYear());
+    // Start at the minimum wage, which is above the contribution floor
+    const [from, setFrom] = createSignal(
+        String(getMinimumWage(getRates(year())).gross),
+    );
+    const [to, setTo] = createSignal("150000");
+    const [hovered, setHovered] = createSignal<number | null>(null);
+
+    const rates = () => getRates(year());
+
+    const fromInput = useAmountInput(from, setFrom);
+    const toInput = useAmountInput(to, setTo);
+
+    const fromValidation = createMemo(() =>
+        validateSalaryAmount(from(), "gross", rates()),
+    );
+    const toValidation = createMemo(() =>
+        validateSalaryAmount(to(), "gross", rates()),
+    );
+
+    const fromError = () => {
+        const result = fromValidation();
+        return result.ok
+            ? undefined
+            : getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const toError = () => {
+        const result = toValidation();
+        if (!result.ok) {
+            return getSalaryAmountErrorMessage(result.error, locale());
+        }
+        const start = fromValidation();
+        return start.ok && result.amount <= start.amount
+            ? t("curve.rangeError")
+            : undefined;
+    };
+
+    const range = createMemo(() => {
+        const start = fromValidation();
+        const end = toValidation();
+        if (!start.ok || !end.ok || end.amount <= start.amount) return null;
+        return { from: start.amount, to: end.amount };
+    });
+
+    const points = createMemo(() => {
+        const bounds = range();
+        if (!bounds) return [];
+
+        return calculateSalaryCurve(rates(), {
+            ...bounds,
+            steps: CURVE_STEPS,
+        });
+    });
+
+    const markers = createMemo(() => getSalaryCurveMarkers(rates()));
+
+    const netDomain = (): [number, number] => [
+        Math.min(0, ...points().map((point) => point.net)),
+        range()?.to ?? 0,
+    ];
+
+    const hoveredPoint = () => {
+        const index = hovered();
+        return index === null ? undefined : points()[index];
+    };
+
+    const breakdown = createMemo(() => {
+        const point = hoveredPoint();
+        return point && calculateNetSalary(point.gross, rates());
+    });
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("curve.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <Select
+                    label={t("label.year")}
+                    value={year()}
+                    onChange={(e) => setYear(Number(e.target.value))}
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+                <Input
+                    label={t("curve.grossFrom")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("curve.grossFrom")}
+                    error={fromError()}
+                    {...fromInput}
+                />
+                <Input
+                    label={t("curve.grossTo")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("curve.grossTo")}
+                    error={toError()}
+                    {...toInput}
+                />
+            </section>
+
+            <br />
+
+            <Show when={points().length > 0}>
+                <section class="mx-auto flex max-w-3xl flex-col gap-6 px-4">
+                    <Chart
+                        title={t("curve.netVsGross")}
+                        points={points()}
+                        domain={netDomain()}
+                        series={[
+                            {
+                                label: t("label.gross"),
+                                value: (point) => point.gross,
+                                color: "var(--color-outline)",
+                                dashed: true,
+                            },
+                            {
+                                label: t("label.net"),
+                                value: (point) => point.net,
+                                color: "var(--color-primary)",
+                            },
+                        ]}
+                        formatValue={(value) => formatCompact(value, locale())}
+                        markers={markers()}
+                        hovered={hovered()}
+                        onHover={setHovered}
+                    />
+                    <Chart
+                        title={t("curve.deductionRates")}
+                        points={points()}
+                        domain={[0, 1]}
+                        series={[
+                            {
+                                label: t("curve.effectiveRate"),
+                                value: (point) => point.deductionRate,
+                                color: "var(--color-primary)",
+                            },
+                            {
+                                label: t("curve.marginalRate"),
+                                value: (point) => point.marginalRate,
+                                color: "var(--color-secondary)",
+                            },
+                        ]}
+                        formatValue={(value) => formatPercent(value, locale())}
+                        markers={markers()}
+                        hovered={hovered()}
+                        onHover={setHovered}
+                    />
+
+                    <ol class="list-decimal pl-6 text-sm">
+                        <For each={markers()}>
+                            {(marker) => (
+                                <li>
+                                    {t("curve.markerGross", {
+                                        label: markerLabel(marker, t),
+                                        amount: formatMkd(marker.gross),
+                                    })}
+                                </li>
+                            )}
+                        </For>
+                    </ol>
+
+                    <Show
+                        when={breakdown()}
+                        fallback={
+                            <p class="text-center text-sm text-on-surface-variant">
+                                {t("curve.pointHint")}
+                            </p>
+                        }
+                    >
+                        {(salary) => (
+                            <table class="mx-auto">
+                                <tbody>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("label.gross")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(salary().gross)}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            <Show
+                                                when={
+                                                    salary().contributions
+                                                        .appliedBound
+                                                }
+                                                fallback={t(
+                                                    "curve.contributionBase",
+                                                )}
+                                            >
+                                                {(bound) =>
+                                                    t(`curve.bound.${bound()}`)
+                                                }
+                                            </Show>
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                salary().contributions.base,
+                                            )}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("label.contributions")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                salary().contributions.total,
+                                            )}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("label.taxableBase")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(
+                                                salary().tax.taxableBase,
+                                            )}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("label.incomeTax")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(salary().tax.incomeTax)}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("label.net")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatMkd(salary().net)}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("curve.effectiveRate")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatPercent(
+                                                hoveredPoint()?.deductionRate ??
+                                                    0,
+                                                locale(),
+                                            )}
+                                        </td>
+                                    </tr>
+                                    <tr>
+                                        <th class="px-2 text-left">
+                                            {t("curve.marginalRate")}
+                                        </th>
+                                        <td class="px-2 text-right">
+                                            {formatPercent(
+                                                hoveredPoint()?.marginalRate ??
+                                                    0,
+                                                locale(),
+                                            )}
+                                        </td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                        )}
+                    </Show>
+                </section>
+            </Show>
+        </main>
+    );
+}
@@ -1,92 +1,541 @@
 import { Title } from "@solidjs/meta";
-import { createMemo, createSignal } from "solid-js";
-import { formatMkd } from "~/lib/formatters";
-import { calculateSalary, finalizeSalary } from "~/lib/salary";
+import { A, useLocation, useSearchParams } from "@solidjs/router";
+import { createMemo, For, Index, Show } from "solid-js";
+import {
+    Currencies,
+    type Currency,
+    findExchangeRate,
+    getExchangeRateDate,
+} from "~/lib/exchange-rates";
+import { formatMkd, formatMoney, formatPercent } from "~/lib/formatters";
+import { useAmountInput, useI18n } from "~/lib/i18n/context";
+import { roundMoney } from "~/lib/money";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getRates,
+    toIsoDate,
+} from "~/lib/rates-configs";
+import {
+    type BenefitItem,
+    type BenefitKind,
+    BenefitKinds,
+    calculateSalary,
+    finalizeSalary,
+} from "~/lib/salary";
+import {
+    type BenefitParam,
+    type CalculatorParams,
+    parseCalculatorParams,
+    type SalaryMode,
+    SalaryModes,
+    serializeCalculatorParams,
+} from "~/lib/search-params";
+import { Button } from "~/lib/ui/button";
 import Input from "~/lib/ui/input";
 import {
     SegmentedButton,
     SegmentedButtonGroup,
 } from "~/lib/ui/segmented-button";
+import Select from "~/lib/ui/select";
+import {
+    getMinimumAmount,
+    getSalaryAmountErrorMessage,
+    getSalaryAmountWarningMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+import { FULL_TIME_WEEKLY_HOURS, getWorkFraction } from "~/lib/work-time";
+
+const CONTRIBUTION_LINES = [
+    "pensionAndDisability",
+    "healthInsurance",
+    "unemploymentInsurance",
+    "additionalHealthInsurance",
+] as const;
 
-type SalaryMode = "gross" | "net";
+const WEEKLY_HOURS = Array.from(
+    { length: FULL_TIME_WEEKLY_HOURS },
+    (_, index) => FULL_TIME_WEEKLY_HOURS - index,
+);
 
 export default function Home() {
-    const [mode, setMode] = createSignal<SalaryMode>("gross");
-    const [amount, setAmount] = createSignal<string>("");
+    const [searchParams, setSearchParams] = useSearchParams();
+    const location = useLocation();
+    const { locale, t } = useI18n();
 
-    const salary = createMemo(() => {
-        const rawSalary = calculateSalary({
-            type: mode(),
-            amount: Number(amount()),
+    const params = createMemo(() => parseCalculatorParams(searchParams));
+    const mode = () => params().mode;
+    const amount = () => params().amount;
+    const year = () => params().year;
+    const workFraction = () => getWorkFraction(params().weeklyHours);
+    const currency = () => params().currency;
+    const exchangeRateDate = createMemo(() => getExchangeRateDate(year()));
+    /** Exchange rate of the chosen currency, if NBRM published one by then. */
+    const exchangeRate = () => findExchangeRate(currency(), exchangeRateDate());
+
+    const currencyError = () =>
+        exchangeRate() === undefined
+            ? t("home.noExchangeRate", { currency: currency(), year: year() })
+            : undefined;
+
+    /** Formats an MKD amount, followed by its value in the chosen currency. */
+    const money = (value: number) => {
+        const rate = exchangeRate();
+        return currency() === "MKD" || rate === undefined
+            ? formatMkd(value)
+            : `${formatMkd(value)} (${formatMoney(value / rate, currency())})`;
+    };
+
+    const setParams = (changes: Partial<CalculatorParams>) =>
+        setSearchParams(serializeCalculatorParams(changes), { replace: true });
+
+    const validation = createMemo(() =>
+        validateSalaryAmount(
+            amount(),
+            mode(),
+            getRates(year()),
+            workFraction(),
+            exchangeRate() ?? 1,
+        ),
+    );
+
+    const amountError = () => {
+        const result = validation();
+        if (result.ok || result.error.kind === "empty") return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const amountSupportingText = () => {
+        const result = validation();
+        if (result.ok && result.warning) {
+            return getSalaryAmountWarningMessage(result.warning, locale());
+        }
+        return t("home.amountHint", {
+            mode: t(`modeLabel.${mode()}`),
+            currency: currency(),
+        });
+    };
+
+    const applyMinimumWage = () => {
+        const rate = exchangeRate();
+        if (rate === undefined) return;
+
+        setParams({
+            amount: String(
+                roundMoney(
+                    getMinimumAmount(mode(), getRates(year()), workFraction()) /
+                        rate,
+                    mode() === "hourly" || currency() !== "MKD" ? 2 : 0,
+                ),
+            ),
         });
+    };
+
+    const amountInput = useAmountInput(amount, (value) =>
+        setParams({ amount: value }),
+    );
+
+    const setBenefits = (
+        update: (benefits: BenefitParam[]) => BenefitParam[],
+    ) => setParams({ benefits: update(params().benefits) });
+
+    const benefitValidations = createMemo(() =>
+        params().benefits.map((benefit) =>
+            validateSalaryAmount(benefit.amount, "gross", getRates(year())),
+        ),
+    );
+
+    const benefitError = (index: number) => {
+        const result = benefitValidations()[index];
+        if (!result || result.ok || result.error.kind === "empty") {
+            return undefined;
+        }
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const benefits = createMemo(() =>
+        params().benefits.flatMap((benefit, index): BenefitItem[] => {
+            const result = benefitValidations()[index];
+            return result.ok
+                ? [{ kind: benefit.kind, amount: result.amount }]
+                : [];
+        }),
+    );
+
+    const salary = createMemo(() => {
+        const result = validation();
+        const rate = exchangeRate();
+        if (!result.ok || rate === undefined) return null;
+
+        const rawSalary = calculateSalary(
+            {
+                type: mode(),
+                amount: result.amount * rate,
+                workFraction: workFraction(),
+                benefits: benefits(),
+            },
+            getRates(year()),
+        );
         return finalizeSalary(rawSalary);
     });
 
     return (
         <main class="h-full bg-surface text-on-surface">
-            <Title>SalarySense</Title>
+            <Title>{t("home.title")}</Title>
             <section class="flex flex-col items-center">
                 <div>
                     <SegmentedButtonGroup
                         value={mode()}
-                        onChange={(e) => setMode(e as SalaryMode)}
+                        onChange={(e) => setParams({ mode: e as SalaryMode })}
                     >
-                        <SegmentedButton value="gross">Gross</SegmentedButton>
-                        <SegmentedButton value="net">Net</SegmentedButton>
+                        <For each={SalaryModes}>
+                            {(option) => (
+                                <SegmentedButton value={option}>
+                                    {t(`mode.${option}`)}
+                                </SegmentedButton>
+                            )}
+                        </For>
                     </SegmentedButtonGroup>
                 </div>
 
                 <Input
-                    label="Amount"
-                    type="number"
-                    placeholder="Amount"
-                    supportingText={`Enter your ${mode()} salary`}
-                    value={amount()}
-                    onInput={(e) => setAmount(e.target.value)}
+                    label={t("home.amount")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("home.amount")}
+                    supportingText={amountSupportingText()}
+                    error={amountError()}
+                    {...amountInput}
                 />
-            </section>
 
-            <br />
+                <Button variant="text" onClick={applyMinimumWage}>
+                    {t("home.useMinimumWage")}
+                </Button>
 
-            <section>
-                <p>Your gross salary is: {formatMkd(salary().gross)}</p>
-                <p>Your net salary is: {formatMkd(salary().net)}</p>
-                <p>
-                    Total contributions:{" "}
-                    {formatMkd(salary().contributions.total)}
-                </p>
-                <p>Total tax: {formatMkd(salary().tax.incomeTax)}</p>
-            </section>
+                <Select
+                    label={t("home.currency")}
+                    error={currencyError()}
+                    supportingText={
+                        currency() === "MKD"
+                            ? undefined
+                            : t("home.exchangeRate", {
+                                  currency: currency(),
+                                  rate: formatMkd(exchangeRate()),
+                                  date: toIsoDate(exchangeRateDate()),
+                              })
+                    }
+                    value={currency()}
+                    onChange={(e) =>
+                        setParams({ currency: e.target.value as Currency })
+                    }
+                >
+                    <For each={Currencies}>
+                        {(option) => (
+                            <option
+                                value={option}
+                                selected={option === currency()}
+                                disabled={
+                                    findExchangeRate(
+                                        option,
+                                        exchangeRateDate(),
+                                    ) === undefined
+                                }
+                            >
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
 
-            <br />
-
-            <section>
-                <p>
-                    Pension and disability:{" "}
-                    {formatMkd(salary().contributions.pensionAndDisability)}
-                </p>
-                <p>
-                    Health insurance:{" "}
-                    {formatMkd(salary().contributions.healthInsurance)}
-                </p>
-                <p>
-                    Unemployment insurance:{" "}
-                    {formatMkd(salary().contributions.unemploymentInsurance)}
-                </p>
-                <p>
-                    Additional health insurance:{" "}
-                    {formatMkd(
-                        salary().contributions.additionalHealthInsurance,
-                    )}
-                </p>
-            </section>
+                <Select
+                    label={t("home.weeklyHours")}
+                    supportingText={t("home.fte", { value: workFraction() })}
+                    value={params().weeklyHours}
+                    onChange={(e) =>
+                        setParams({ weeklyHours: Number(e.target.value) })
+                    }
+                >
+                    <For each={WEEKLY_HOURS}>
+                        {(option) => (
+                            <option
+                                value={option}
+                                selected={option === params().weeklyHours}
+                            >
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+
+                <Select
+                    label={t("home.year")}
+                    value={year()}
+                    onChange={(e) =>
+                        setParams({
+                            year: Number(e.target.value) as AvailableYear,
+                        })
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
 
-            <br />
+                <Index each={params().benefits}>
+                    {(benefit, index) => {
+                        const benefitAmountInput = useAmountInput(
+                            () => benefit().amount,
+                            (amount) =>
+                                setBenefits((current) =>
+                                    current.with(index, {
+                                        ...current[index],
+                                        amount,
+                                    }),
+                                ),
+                        );
 
-            <section>
-                <p>Taxable base: {formatMkd(salary().tax.taxableBase)}</p>
-                <p>Incom tax: {formatMkd(salary().tax.incomeTax)}</p>
+                        return (
+                            <div class="flex items-center gap-2">
+                                <Select
+                                    label={t("home.benefit")}
+                                    value={benefit().kind}
+                                    onChange={(e) =>
+                                        setBenefits((current) =>
+                                            current.with(index, {
+                                                ...current[index],
+                                                kind: e.target
+                                                    .value as BenefitKind,
+                                            }),
+                                        )
+                                    }
+                                >
+                                    <For each={BenefitKinds}>
+                                        {(option) => (
+                                            <option
+                                                value={option}
+                                                selected={
+                                                    option === benefit().kind
+                                                }
+                                            >
+                                                {t(`benefit.${option}`)}
+                                            </option>
+                                        )}
+                                    </For>
+                                </Select>
+                                <Input
+                                    label={t("home.benefitAmount")}
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder={t("home.amount")}
+                                    supportingText={t(
+                                        "home.benefitExemptLimit",
+                                        {
+                                            amount: formatMkd(
+                                                getRates(year())
+                                                    .benefitExemptions[
+                                                    benefit().kind
+                                                ],
+                                            ),
+                                        },
+                                    )}
+                                    error={benefitError(index)}
+                                    {...benefitAmountInput}
+                                />
+                                <Button
+                                    variant="text"
+                                    onClick={() =>
+                                        setBenefits((current) =>
+                                            current.filter(
+                                                (_, i) => i !== index,
+                                            ),
+                                        )
+                                    }
+                                >
+                                    {t("home.removeBenefit")}
+                                </Button>
+                            </div>
+                        );
+                    }}
+                </Index>
+
+                <Button
+                    variant="text"
+                    onClick={() =>
+                        setBenefits((current) => [
+                            ...current,
+                            { kind: "annualLeave", amount: "" },
+                        ])
+                    }
+                >
+                    {t("home.addBenefit")}
+                </Button>
             </section>
+
+            <Show when={salary()}>
+                {(salary) => (
+                    <>
+                        <br />
+
+                        <section>
+                            <p>{t("home.ratesYear", { year: year() })}</p>
+                            <p>
+                                {t("home.gross", {
+                                    amount: money(salary().gross),
+                                })}
+                            </p>
+                            <p>
+                                {t("home.net", { amount: money(salary().net) })}
+                            </p>
+                            <p>
+                                {t("home.perHour", {
+                                    gross: money(salary().hourly.gross),
+                                    net: money(salary().hourly.net),
+                                })}
+                            </p>
+                            <p>
+                                {t("home.totalContributions", {
+                                    amount: money(salary().contributions.total),
+                                })}
+                            </p>
+                            <p>
+                                {t("home.totalTax", {
+                                    amount: money(salary().tax.incomeTax),
+                                })}
+                            </p>
+                        </section>
+
+                        <br />
+
+                        <section>
+                            <p>
+                                {t("home.contributionBase", {
+                                    amount: money(salary().contributions.base),
+                                })}
+                                {salary().contributions.appliedBound ===
+                                    "floor" && t("home.raisedToMinimumBase")}
+                                {salary().contributions.appliedBound ===
+                                    "ceiling" && t("home.cappedAtMaximumBase")}
+                            </p>
+                            <For each={CONTRIBUTION_LINES}>
+                                {(line) => (
+                                    <p>
+                                        {t(`contribution.${line}`, {
+                                            amount: money(
+                                                salary().contributions[line],
+                                            ),
+                                        })}
+                                    </p>
+                                )}
+                            </For>
+                        </section>
+
+                        <br />
+
+                        <section>
+                            <p>
+                                {t("home.taxableBase", {
+                                    amount: money(salary().tax.taxableBase),
+                                })}
+                            </p>
+                            <Show when={salary().tax.brackets.length > 1}>
+                                <For each={salary().tax.brackets}>
+                                    {(bracket) => (
+                                        <p>
+                                            {t("home.bracketTax", {
+                                                rate: formatPercent(
+                                                    bracket.rate,
+                                                    locale(),
+                                                ),
+                                                amount: money(
+                                                    bracket.taxableAmount,
+                                                ),
+                                                tax: money(bracket.incomeTax),
+                                            })}
+                                        </p>
+                                    )}
+                                </For>
+                            </Show>
+                            <p>
+                                {t("home.incomeTax", {
+                                    amount: money(salary().tax.incomeTax),
+                                })}
+                            </p>
+                        </section>
+
+                        <Show when={salary().benefits.items.length > 0}>
+                            <br />
+
+                            <section>
+                                <For each={salary().benefits.items}>
+                                    {(item) => (
+                                        <p>
+                                            {t("home.benefitSplit", {
+                                                label: t(
+                                                    `benefit.${item.kind}`,
+                                                ),
+                                                amount: money(item.amount),
+                                                exempt: money(item.exempt),
+                                                taxable: money(item.taxable),
+                                            })}
+                                        </p>
+                                    )}
+                                </For>
+                                <p>
+                                    {t("home.totalBenefits", {
+                                        amount: money(salary().benefits.total),
+                                    })}
+                                </p>
+                                <p>
+                                    {t("home.benefitsExemptTaxable", {
+                                        exempt: money(salary().benefits.exempt),
+                                        taxable: money(
+                                            salary().benefits.taxable,
+                                        ),
+                                    })}
+                                </p>
+                            </section>
+                        </Show>
+
+                        <br />
+
+                        <section>
+                            <For each={salary().employer.charges}>
+                                {(charge) => (
+                                    <p>
+                                        {t("home.employerCharge", {
+                                            name: charge.name,
+                                            amount: money(charge.amount),
+                                        })}
+                                    </p>
+                                )}
+                            </For>
+                            <p>
+                                {t("home.totalEmployerCharges", {
+                                    amount: money(salary().employer.total),
+                                })}
+                            </p>
+                            <p>
+                                {t("home.totalCost", {
+                                    amount: money(salary().employer.totalCost),
+                                })}
+                            </p>
+                        </section>
+
+                        <br />
+
+                        <A
+                            href={`/payslip${location.search}`}
+                            class="text-primary"
+                        >
+                            {t("home.payslip")}
+                        </A>
+                    </>
+                )}
+            </Show>
         </main>
     );
 }
@@ -0,0 +1,233 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Index, Show } from "solid-js";
+import { formatMkd } from "~/lib/formatters";
+import { normalizeAmountInput } from "~/lib/i18n";
+import { useI18n } from "~/lib/i18n/context";
+import { calculateJobs, finalizeJobs } from "~/lib/jobs";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getDefaultYear,
+    getRates,
+} from "~/lib/rates-configs";
+import type { SalaryInput } from "~/lib/salary";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+import Select from "~/lib/ui/select";
+import {
+    getSalaryAmountErrorMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+type JobMode = "gross" | "net";
+
+type JobEntry = {
+    mode: JobMode;
+    amount: string;
+};
+
+const MIN_JOBS = 2;
+
+export default function Jobs() {
+    const { locale, t } = useI18n();
+    const [year, setYear] = createSignal<AvailableYear>(getDefaultYear());
+    const [jobs, setJobs] = createSignal<JobEntry[]>([
+        { mode: "gross", amount: "" },
+        { mode: "gross", amount: "" },
+    ]);
+    const [primary, setPrimary] = createSignal(0);
+
+    const updateJob = (index: number, changes: Partial<JobEntry>) =>
+        setJobs((current) =>
+            current.with(index, { ...current[index], ...changes }),
+        );
+
+    const removeJob = (index: number) => {
+        setJobs((current) => current.filter((_, i) => i !== index));
+        if (primary() >= index && primary() > 0) {
+            setPrimary(primary() - 1);
+        }
+    };
+
+    const validations = createMemo(() =>
+        jobs().map((job) =>
+            validateSalaryAmount(
+                normalizeAmountInput(job.amount, locale()),
+                job.mode,
+                getRates(year()),
+            ),
+        ),
+    );
+
+    const jobError = (index: number) => {
+        const result = validations()[index];
+        if (!result || result.ok || result.error.kind === "empty") {
+            return undefined;
+        }
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const breakdown = createMemo(() => {
+        const inputs: SalaryInput[] = [];
+
+        for (const [index, result] of validations().entries()) {
+            if (!result.ok) return null;
+            inputs.push({
+                type: jobs()[index].mode,
+                amount: result.amount,
+                applyAllowance: index === primary(),
+            });
+        }
+
+        return finalizeJobs(calculateJobs(inputs, getRates(year())));
+    });
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("jobs.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <Index each={jobs()}>
+                    {(job, index) => (
+                        <div class="flex items-center gap-2">
+                            <Select
+                                label={t("jobs.job", { number: index + 1 })}
+                                supportingText={
+                                    index === primary()
+                                        ? t("jobs.primary")
+                                        : t("jobs.secondary")
+                                }
+                                value={job().mode}
+                                onChange={(e) =>
+                                    updateJob(index, {
+                                        mode: e.target.value as JobMode,
+                                    })
+                                }
+                            >
+                                <option
+                                    value="gross"
+                                    selected={job().mode === "gross"}
+                                >
+                                    {t("mode.gross")}
+                                </option>
+                                <option
+                                    value="net"
+                                    selected={job().mode === "net"}
+                                >
+                                    {t("mode.net")}
+                                </option>
+                            </Select>
+                            <Input
+                                label={t("label.amount")}
+                                type="text"
+                                inputMode="decimal"
+                                placeholder={t("label.amount")}
+                                error={jobError(index)}
+                                value={job().amount}
+                                onInput={(e) =>
+                                    updateJob(index, {
+                                        amount: e.target.value,
+                                    })
+                                }
+                            />
+                            <Show when={index !== primary()}>
+                                <Button
+                                    variant="text"
+                                    onClick={() => setPrimary(index)}
+                                >
+                                    {t("jobs.makePrimary")}
+                                </Button>
+                            </Show>
+                            <Show when={jobs().length > MIN_JOBS}>
+                                <Button
+                                    variant="text"
+                                    onClick={() => removeJob(index)}
+                                >
+                                    {t("jobs.remove")}
+                                </Button>
+                            </Show>
+                        </div>
+                    )}
+                </Index>
+
+                <Button
+                    variant="text"
+                    onClick={() =>
+                        setJobs((current) => [
+                            ...current,
+                            { mode: "gross", amount: "" },
+                        ])
+                    }
+                >
+                    {t("jobs.add")}
+                </Button>
+
+                <Select
+                    label={t("label.year")}
+                    value={year()}
+                    onChange={(e) =>
+                        setYear(Number(e.target.value) as AvailableYear)
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+            </section>
+
+            <Show when={breakdown()}>
+                {(breakdown) => (
+                    <>
+                        <br />
+
+                        <section>
+                            <For each={breakdown().jobs}>
+                                {(job, index) => (
+                                    <p>
+                                        {t("jobs.result", {
+                                            number: index() + 1,
+                                            gross: formatMkd(job.gross),
+                                            net: formatMkd(job.net),
+                                        })}
+                                    </p>
+                                )}
+                            </For>
+                        </section>
+
+                        <br />
+
+                        <section>
+                            <p>
+                                {t("jobs.combinedGross", {
+                                    amount: formatMkd(breakdown().totals.gross),
+                                })}
+                            </p>
+                            <p>
+                                {t("jobs.combinedContributions", {
+                                    amount: formatMkd(
+                                        breakdown().totals.contributions,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("jobs.combinedIncomeTax", {
+                                    amount: formatMkd(
+                                        breakdown().totals.incomeTax,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("jobs.combinedNet", {
+                                    amount: formatMkd(breakdown().totals.net),
+                                })}
+                            </p>
+                        </section>
+                    </>
+                )}
+            </Show>
+        </main>
+    );
+}
@@ -0,0 +1,219 @@
+import { Title } from "@solidjs/meta";
+import { A, useSearchParams } from "@solidjs/router";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { downloadFile } from "~/lib/download";
+import { findExchangeRate, getExchangeRateDate } from "~/lib/exchange-rates";
+import { formatMkd, formatMonth, formatPayPeriod } from "~/lib/formatters";
+import { useI18n } from "~/lib/i18n/context";
+import { getPayPeriodDate, type PayPeriod } from "~/lib/payroll";
+import {
+    createPayslipPdf,
+    getPayslipSections,
+    type Payslip,
+} from "~/lib/payslip";
+import { toPdfText } from "~/lib/pdf";
+import { getRatesForDate } from "~/lib/rates-configs";
+import { calculateSalary, finalizeSalary } from "~/lib/salary";
+import { parseCalculatorParams } from "~/lib/search-params";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+import Select from "~/lib/ui/select";
+import { validateSalaryAmount } from "~/lib/validation";
+import { getWorkFraction } from "~/lib/work-time";
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+export default function PayslipPage() {
+    const { locale, t } = useI18n();
+    const [searchParams] = useSearchParams();
+
+    const params = createMemo(() => parseCalculatorParams(searchParams));
+    const [employeeName, setEmployeeName] = createSignal("");
+    const [month, setMonth] = createSignal(new Date().getMonth() + 1);
+
+    const period = (): PayPeriod => ({ year: params().year, month: month() });
+    const rates = () => getRatesForDate(getPayPeriodDate(period()));
+
+    const payslip = createMemo((): Payslip | null => {
+        const workFraction = getWorkFraction(params().weeklyHours);
+        const exchangeRate = findExchangeRate(
+            params().currency,
+            getExchangeRateDate(params().year),
+        );
+        // The calculator shows why there is no salary without an exchange rate
+        if (exchangeRate === undefined) return null;
+
+        const result = validateSalaryAmount(
+            params().amount,
+            params().mode,
+            rates(),
+            workFraction,
+            exchangeRate,
+        );
+        if (!result.ok) return null;
+
+        const benefits = params().benefits.flatMap((benefit) => {
+            const amount = validateSalaryAmount(
+                benefit.amount,
+                "gross",
+                rates(),
+            );
+            return amount.ok
+                ? [{ kind: benefit.kind, amount: amount.amount }]
+                : [];
+        });
+
+        return {
+            employeeName: employeeName(),
+            period: period(),
+            salary: finalizeSalary(
+                calculateSalary(
+                    {
+                        type: params().mode,
+                        amount: result.amount * exchangeRate,
+                        workFraction,
+                        benefits,
+                    },
+                    rates(),
+                ),
+            ),
+        };
+    });
+
+    /** Notes how the PDF spells the name if its fonts cannot show it. */
+    const pdfNameNote = () => {
+        const name = toPdfText(employeeName());
+        return name === employeeName()
+            ? undefined
+            : t("payslip.pdfName", { name });
+    };
+
+    const downloadPdf = (payslip: Payslip) =>
+        downloadFile(
+            createPayslipPdf(payslip, rates()),
+            "application/pdf",
+            `payslip-${payslip.period.year}-${String(payslip.period.month).padStart(2, "0")}.pdf`,
+        );
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("payslip.title")}</Title>
+            <Show
+                when={payslip()}
+                fallback={
+                    <section class="flex flex-col items-center gap-4">
+                        <p>{t("payslip.noSalary")}</p>
+                        <A href="/" class="text-primary">
+                            {t("payslip.openCalculator")}
+                        </A>
+                    </section>
+                }
+            >
+                {(payslip) => (
+                    <>
+                        <section class="flex flex-col items-center gap-4 print:hidden">
+                            <Input
+                                label={t("payslip.employeeName")}
+                                type="text"
+                                placeholder={t("payslip.employeeName")}
+                                supportingText={pdfNameNote()}
+                                value={employeeName()}
+                                onInput={(e) => setEmployeeName(e.target.value)}
+                            />
+                            <Select
+                                label={t("label.month")}
+                                value={month()}
+                                onChange={(e) =>
+                                    setMonth(Number(e.target.value))
+                                }
+                            >
+                                <For each={MONTHS}>
+                                    {(option) => (
+                                        <option
+                                            value={option}
+                                            selected={option === month()}
+                                        >
+                                            {formatMonth(option, locale())}
+                                        </option>
+                                    )}
+                                </For>
+                            </Select>
+                            <div class="flex gap-2">
+                                <Button
+                                    variant="text"
+                                    onClick={() => window.print()}
+                                >
+                                    {t("payslip.print")}
+                                </Button>
+                                <Button onClick={() => downloadPdf(payslip())}>
+                                    {t("payslip.downloadPdf")}
+                                </Button>
+                            </div>
+                        </section>
+
+                        <article class="mx-auto max-w-2xl p-8">
+                            <h1 class="text-2xl font-bold">
+                                {t("payslip.heading")}
+                            </h1>
+                            <p>
+                                {t("payslip.employee", {
+                                    name: payslip().employeeName,
+                                })}
+                            </p>
+                            <p>
+                                {t("payslip.period", {
+                                    period: formatPayPeriod(
+                                        payslip().period,
+                                        locale(),
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("payslip.rates", {
+                                    year: payslip().period.year,
+                                })}
+                            </p>
+
+                            <For
+                                each={getPayslipSections(
+                                    payslip(),
+                                    rates(),
+                                    locale(),
+                                )}
+                            >
+                                {(section) => (
+                                    <section class="mt-6">
+                                        <h2 class="font-semibold">
+                                            {section.title}
+                                        </h2>
+                                        <table class="w-full">
+                                            <tbody>
+                                                <For each={section.rows}>
+                                                    {(row) => (
+                                                        <tr
+                                                            classList={{
+                                                                "font-semibold":
+                                                                    row.total,
+                                                            }}
+                                                        >
+                                                            <td>{row.label}</td>
+                                                            <td class="text-right">
+                                                                {formatMkd(
+                                                                    row.amount,
+                                                                )}
+                                                            </td>
+                                                        </tr>
+                                                    )}
+                                                </For>
+                                            </tbody>
+                                        </table>
+                                    </section>
+                                )}
+                            </For>
+                        </article>
+                    </>
+                )}
+            </Show>
+        </main>
+    );
+}
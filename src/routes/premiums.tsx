@@ -0,0 +1,229 @@
+import { Title } from "@solidjs/meta";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { formatMkd, formatPercent } from "~/lib/formatters";
+import { normalizeAmountInput } from "~/lib/i18n";
+import { useI18n } from "~/lib/i18n/context";
+import {
+    calculateMonthlyPay,
+    finalizeMonthlyPay,
+    type PremiumKind,
+    PremiumKinds,
+} from "~/lib/payroll-lines";
+import {
+    type AvailableYear,
+    getAvailableYears,
+    getDefaultYear,
+    getRates,
+} from "~/lib/rates-configs";
+import Input from "~/lib/ui/input";
+import Select from "~/lib/ui/select";
+import {
+    getHoursErrorMessage,
+    getSalaryAmountErrorMessage,
+    getSalaryAmountWarningMessage,
+    type HoursValidation,
+    validateHours,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+export default function Premiums() {
+    const { locale, t } = useI18n();
+    const [year, setYear] = createSignal<AvailableYear>(getDefaultYear());
+    const [baseGross, setBaseGross] = createSignal<string>("");
+    const [hours, setHours] = createSignal<Record<PremiumKind, string>>({
+        overtime: "",
+        night: "",
+        holiday: "",
+        sunday: "",
+    });
+
+    const baseGrossValidation = createMemo(() =>
+        validateSalaryAmount(
+            normalizeAmountInput(baseGross(), locale()),
+            "gross",
+            getRates(year()),
+        ),
+    );
+
+    const baseGrossError = () => {
+        const result = baseGrossValidation();
+        if (result.ok || result.error.kind === "empty") return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const baseGrossSupportingText = () => {
+        const result = baseGrossValidation();
+        if (result.ok && result.warning) {
+            return getSalaryAmountWarningMessage(result.warning, locale());
+        }
+        return t("premiums.baseGrossHint");
+    };
+
+    const hoursValidations = createMemo(
+        () =>
+            Object.fromEntries(
+                PremiumKinds.map((kind) => [
+                    kind,
+                    validateHours(
+                        normalizeAmountInput(hours()[kind], locale()),
+                    ),
+                ]),
+            ) as Record<PremiumKind, HoursValidation>,
+    );
+
+    const hoursError = (kind: PremiumKind) => {
+        const result = hoursValidations()[kind];
+        return result.ok
+            ? undefined
+            : getHoursErrorMessage(result.error, locale());
+    };
+
+    const pay = createMemo(() => {
+        const base = baseGrossValidation();
+        if (!base.ok) return null;
+
+        const lines = PremiumKinds.flatMap((kind) => {
+            const result = hoursValidations()[kind];
+            return result.ok ? [{ kind, hours: result.hours }] : [];
+        });
+        if (lines.length < PremiumKinds.length) return null;
+
+        return finalizeMonthlyPay(
+            calculateMonthlyPay(
+                {
+                    baseGross: base.amount,
+                    lines: lines.filter((line) => line.hours > 0),
+                },
+                getRates(year()),
+            ),
+        );
+    });
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("premiums.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <Input
+                    label={t("premiums.baseGross")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("premiums.baseGross")}
+                    supportingText={baseGrossSupportingText()}
+                    error={baseGrossError()}
+                    value={baseGross()}
+                    onInput={(e) => setBaseGross(e.target.value)}
+                />
+
+                <For each={PremiumKinds}>
+                    {(kind) => (
+                        <Input
+                            label={t("premiums.hours", {
+                                kind: t(`premiums.kind.${kind}`),
+                            })}
+                            type="text"
+                            inputMode="decimal"
+                            placeholder={t("premiums.hours", {
+                                kind: t(`premiums.kind.${kind}`),
+                            })}
+                            error={hoursError(kind)}
+                            supportingText={t("premiums.supplementHint", {
+                                supplement: formatPercent(
+                                    getRates(year()).premiums[kind],
+                                    locale(),
+                                ),
+                            })}
+                            value={hours()[kind]}
+                            onInput={(e) =>
+                                setHours((current) => ({
+                                    ...current,
+                                    [kind]: e.target.value,
+                                }))
+                            }
+                        />
+                    )}
+                </For>
+
+                <Select
+                    label={t("label.year")}
+                    value={year()}
+                    onChange={(e) =>
+                        setYear(Number(e.target.value) as AvailableYear)
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option value={option} selected={option === year()}>
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+            </section>
+
+            <Show when={pay()}>
+                {(result) => (
+                    <>
+                        <br />
+
+                        <section>
+                            <For each={result().lines}>
+                                {(line) => (
+                                    <p>
+                                        {t(
+                                            line.supplement > 0
+                                                ? "premiums.lineWithSupplement"
+                                                : "premiums.line",
+                                            {
+                                                kind: t(
+                                                    `premiums.kind.${line.kind}`,
+                                                ),
+                                                hours: line.hours,
+                                                rate: formatMkd(
+                                                    line.hourlyRate,
+                                                ),
+                                                supplement: formatPercent(
+                                                    line.supplement,
+                                                    locale(),
+                                                ),
+                                                amount: formatMkd(line.amount),
+                                            },
+                                        )}
+                                    </p>
+                                )}
+                            </For>
+                        </section>
+
+                        <br />
+
+                        <section>
+                            <p>
+                                {t("result.gross", {
+                                    amount: formatMkd(result().salary.gross),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.totalContributions", {
+                                    amount: formatMkd(
+                                        result().salary.contributions.total,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.incomeTax", {
+                                    amount: formatMkd(
+                                        result().salary.tax.incomeTax,
+                                    ),
+                                })}
+                            </p>
+                            <p>
+                                {t("result.net", {
+                                    amount: formatMkd(result().salary.net),
+                                })}
+                            </p>
+                        </section>
+                    </>
+                )}
+            </Show>
+        </main>
+    );
+}
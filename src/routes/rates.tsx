@@ -0,0 +1,168 @@
+import { Title } from "@solidjs/meta";
+import { createSignal, For, Show } from "solid-js";
+import { downloadFile } from "~/lib/download";
+import { formatMkd, formatPercent } from "~/lib/formatters";
+import { useI18n } from "~/lib/i18n/context";
+import { getRatesRegistry, RatesRegistry } from "~/lib/rates-configs";
+import { getPublishedRatesErrors, useRates } from "~/lib/rates-configs/context";
+import { parseRatesFile } from "~/lib/rates-configs/schema";
+import type { RatesPeriod } from "~/lib/rates-configs/types";
+import { getTotalContributionRate } from "~/lib/salary";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+
+export default function Rates() {
+    const { locale, t } = useI18n();
+    const { uploaded, upload, reset } = useRates();
+    const [problems, setProblems] = createSignal<string[]>([]);
+
+    const registry = getRatesRegistry();
+    const publishedErrors = getPublishedRatesErrors();
+
+    const source = (period: RatesPeriod) => {
+        if (uploaded().includes(period)) return t("rates.source.uploaded");
+        if (RatesRegistry.includes(period)) return t("rates.source.bundled");
+        return t("rates.source.published");
+    };
+
+    const importFile = async (file: File | undefined) => {
+        if (!file) return;
+
+        try {
+            upload(parseRatesFile(await file.text()));
+        } catch (error) {
+            setProblems(
+                (error instanceof Error ? error.message : String(error)).split(
+                    "\n",
+                ),
+            );
+        }
+    };
+
+    const downloadTemplate = () => {
+        const newest = registry[registry.length - 1];
+        const year = Number(newest.to.slice(0, 4)) + 1;
+
+        downloadFile(
+            JSON.stringify(
+                {
+                    from: `${year}-01-01`,
+                    to: `${year}-12-31`,
+                    rates: newest.rates,
+                },
+                null,
+                4,
+            ),
+            "application/json",
+            `rates-${year}.json`,
+        );
+    };
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("rates.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <Input
+                    label={t("rates.file")}
+                    type="file"
+                    accept=".json,application/json"
+                    supportingText={t("rates.fileHint")}
+                    onChange={(e) => importFile(e.target.files?.[0])}
+                />
+                <div class="flex gap-2">
+                    <Button variant="text" onClick={downloadTemplate}>
+                        {t("rates.downloadTemplate")}
+                    </Button>
+                    <Show when={uploaded().length > 0}>
+                        <Button variant="text" onClick={reset}>
+                            {t("rates.removeUploaded")}
+                        </Button>
+                    </Show>
+                </div>
+            </section>
+
+            <Show when={problems().length > 0}>
+                <section class="mx-auto max-w-2xl text-error" role="alert">
+                    <p class="font-semibold">{problems()[0]}</p>
+                    <ul class="list-disc pl-6">
+                        <For each={problems().slice(1)}>
+                            {(problem) => <li>{problem}</li>}
+                        </For>
+                    </ul>
+                </section>
+            </Show>
+
+            <Show when={publishedErrors.length > 0}>
+                <section class="mx-auto max-w-2xl text-error">
+                    <p class="font-semibold">{t("rates.publishedProblems")}</p>
+                    <ul class="list-disc pl-6">
+                        <For each={publishedErrors}>
+                            {(problem) => <li>{problem}</li>}
+                        </For>
+                    </ul>
+                </section>
+            </Show>
+
+            <br />
+
+            <section class="overflow-x-auto">
+                <table class="mx-auto">
+                    <thead>
+                        <tr>
+                            <th class="px-2 text-left">{t("rates.from")}</th>
+                            <th class="px-2 text-left">{t("rates.to")}</th>
+                            <th class="px-2 text-left">{t("rates.source")}</th>
+                            <th class="px-2 text-right">
+                                {t("label.contributions")}
+                            </th>
+                            <th class="px-2 text-right">
+                                {t("label.incomeTax")}
+                            </th>
+                            <th class="px-2 text-right">
+                                {t("rates.allowance")}
+                            </th>
+                            <th class="px-2 text-right">
+                                {t("rates.averageWage")}
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <For each={[...registry].reverse()}>
+                            {(period) => (
+                                <tr>
+                                    <td class="px-2">{period.from}</td>
+                                    <td class="px-2">{period.to}</td>
+                                    <td class="px-2">{source(period)}</td>
+                                    <td class="px-2 text-right">
+                                        {formatPercent(
+                                            getTotalContributionRate(
+                                                period.rates,
+                                            ),
+                                            locale(),
+                                        )}
+                                    </td>
+                                    <td class="px-2 text-right">
+                                        {period.rates.tax
+                                            .map((bracket) =>
+                                                formatPercent(
+                                                    bracket.rate,
+                                                    locale(),
+                                                ),
+                                            )
+                                            .join(" / ")}
+                                    </td>
+                                    <td class="px-2 text-right">
+                                        {formatMkd(period.rates.allowance)}
+                                    </td>
+                                    <td class="px-2 text-right">
+                                        {formatMkd(period.rates.averageWage)}
+                                    </td>
+                                </tr>
+                            )}
+                        </For>
+                    </tbody>
+                </table>
+            </section>
+        </main>
+    );
+}
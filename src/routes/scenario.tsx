@@ -0,0 +1,436 @@
+import { Title } from "@solidjs/meta";
+import { useSearchParams } from "@solidjs/router";
+import { createMemo, createSignal, For, Index, onMount, Show } from "solid-js";
+import { formatMkd, formatMkdDelta, formatPercent } from "~/lib/formatters";
+import type { MessageKey } from "~/lib/i18n";
+import { useAmountInput, useI18n } from "~/lib/i18n/context";
+import { getAvailableYears, getRates } from "~/lib/rates-configs";
+import {
+    type ContributionKind,
+    ContributionKinds,
+    compareRatesScenario,
+    finalizeScenarioComparison,
+    getRatesScenarioProblemMessage,
+    getRatesScenarioProblems,
+    type RatesScenario,
+    type ScenarioComparison,
+} from "~/lib/scenario";
+import {
+    parseScenarioParams,
+    type ScenarioParams,
+    serializeScenarioParams,
+} from "~/lib/search-params";
+import { Button } from "~/lib/ui/button";
+import Input from "~/lib/ui/input";
+import {
+    SegmentedButton,
+    SegmentedButtonGroup,
+} from "~/lib/ui/segmented-button";
+import Select from "~/lib/ui/select";
+import {
+    AMOUNT_PATTERN,
+    getSalaryAmountErrorMessage,
+    validateSalaryAmount,
+} from "~/lib/validation";
+
+/** localStorage key of the last edited scenario. */
+const SCENARIO_STORAGE_KEY = "rates-scenario";
+
+type ScenarioLine = {
+    label: MessageKey;
+    value: (salary: ScenarioComparison["official"]) => number;
+    delta: (comparison: ScenarioComparison) => number;
+};
+
+const LINES: ScenarioLine[] = [
+    {
+        label: "label.gross",
+        value: (salary) => salary.gross,
+        delta: (comparison) => comparison.delta.gross,
+    },
+    {
+        label: "label.contributions",
+        value: (salary) => salary.contributions.total,
+        delta: (comparison) => comparison.delta.contributions,
+    },
+    {
+        label: "label.incomeTax",
+        value: (salary) => salary.tax.incomeTax,
+        delta: (comparison) => comparison.delta.incomeTax,
+    },
+    {
+        label: "label.net",
+        value: (salary) => salary.net,
+        delta: (comparison) => comparison.delta.net,
+    },
+    {
+        label: "scenario.totalCost",
+        value: (salary) => salary.employer.totalCost,
+        delta: (comparison) => comparison.delta.totalCost,
+    },
+];
+
+export default function Scenario() {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { locale, t } = useI18n();
+    const [copied, setCopied] = createSignal(false);
+    const [uncopiedLink, setUncopiedLink] = createSignal<string>();
+
+    const params = createMemo(() => parseScenarioParams(searchParams));
+    const rates = () => getRates(params().year);
+
+    const setParams = (changes: Partial<ScenarioParams>) => {
+        const next = serializeScenarioParams({ ...params(), ...changes });
+        setSearchParams(next, { replace: true });
+        localStorage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(next));
+        setCopied(false);
+        setUncopiedLink(undefined);
+    };
+
+    const amountInput = useAmountInput(
+        () => params().amount,
+        (amount) => setParams({ amount }),
+    );
+    const allowanceInput = useAmountInput(
+        () => params().allowance,
+        (allowance) => setParams({ allowance }),
+    );
+    const contributionInputs = Object.fromEntries(
+        ContributionKinds.map((kind) => [
+            kind,
+            useAmountInput(
+                () => params()[kind],
+                (value) => setParams({ [kind]: value }),
+            ),
+        ]),
+    ) as Record<ContributionKind, ReturnType<typeof useAmountInput>>;
+
+    onMount(() => {
+        const saved = localStorage.getItem(SCENARIO_STORAGE_KEY);
+        if (!saved || Object.keys(searchParams).length > 0) return;
+
+        try {
+            setSearchParams(JSON.parse(saved), { replace: true });
+        } catch {
+            localStorage.removeItem(SCENARIO_STORAGE_KEY);
+        }
+    });
+
+    /**
+     * Reads a scenario value: `undefined` when empty (the official value is
+     * kept) and `null` when it is not a number.
+     */
+    const parseValue = (value: string, scale: number) => {
+        if (value === "") return undefined;
+
+        return AMOUNT_PATTERN.test(value) ? Number(value) / scale : null;
+    };
+
+    const valueError = (value: string) =>
+        parseValue(value, 1) === null ? t("scenario.notANumber") : undefined;
+
+    const scenario = createMemo((): RatesScenario | null => {
+        const contributions: RatesScenario["contributions"] = {};
+        for (const kind of ContributionKinds) {
+            const rate = parseValue(params()[kind], 100);
+            if (rate === null) return null;
+            contributions[kind] = rate;
+        }
+
+        const taxRates = rates().tax.map((_, index) =>
+            parseValue(params().taxRates[index] ?? "", 100),
+        );
+        const allowance = parseValue(params().allowance, 1);
+        if (taxRates.includes(null) || allowance === null) return null;
+
+        return {
+            contributions,
+            taxRates: taxRates as (number | undefined)[],
+            allowance,
+        };
+    });
+
+    const amountValidation = createMemo(() =>
+        validateSalaryAmount(params().amount, params().mode, rates()),
+    );
+
+    const amountError = () => {
+        const result = amountValidation();
+        if (result.ok || result.error.kind === "empty") return undefined;
+        return getSalaryAmountErrorMessage(result.error, locale());
+    };
+
+    const result = createMemo(
+        ():
+            | { comparison: ScenarioComparison; problems?: never }
+            | { comparison?: never; problems: string[] }
+            | null => {
+            const validation = amountValidation();
+            const changes = scenario();
+            if (!validation.ok || !changes) return null;
+
+            const problems = getRatesScenarioProblems(rates(), changes);
+            if (problems.length > 0) {
+                return {
+                    problems: problems.map((problem) =>
+                        getRatesScenarioProblemMessage(problem, locale()),
+                    ),
+                };
+            }
+
+            return {
+                comparison: finalizeScenarioComparison(
+                    compareRatesScenario(
+                        { type: params().mode, amount: validation.amount },
+                        rates(),
+                        changes,
+                    ),
+                ),
+            };
+        },
+    );
+
+    const share = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+        } catch {
+            // The clipboard is unavailable or was denied, so show the link
+            // for copying by hand
+            setUncopiedLink(window.location.href);
+        }
+    };
+
+    return (
+        <main class="h-full bg-surface text-on-surface">
+            <Title>{t("scenario.title")}</Title>
+            <section class="flex flex-col items-center gap-4">
+                <div>
+                    <SegmentedButtonGroup
+                        value={params().mode}
+                        onChange={(e) =>
+                            setParams({ mode: e as ScenarioParams["mode"] })
+                        }
+                    >
+                        <SegmentedButton value="gross">
+                            {t("mode.gross")}
+                        </SegmentedButton>
+                        <SegmentedButton value="net">
+                            {t("mode.net")}
+                        </SegmentedButton>
+                    </SegmentedButtonGroup>
+                </div>
+
+                <Input
+                    label={t("label.amount")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("label.amount")}
+                    error={amountError()}
+                    {...amountInput}
+                />
+
+                <Select
+                    label={t("scenario.officialRates")}
+                    supportingText={t("scenario.officialRatesHint")}
+                    value={params().year}
+                    onChange={(e) =>
+                        setParams({ year: Number(e.target.value) })
+                    }
+                >
+                    <For each={getAvailableYears()}>
+                        {(option) => (
+                            <option
+                                value={option}
+                                selected={option === params().year}
+                            >
+                                {option}
+                            </option>
+                        )}
+                    </For>
+                </Select>
+
+                <For each={ContributionKinds}>
+                    {(kind) => (
+                        <Input
+                            label={t("scenario.percent", {
+                                label: t(`label.${kind}`),
+                            })}
+                            type="text"
+                            inputMode="decimal"
+                            placeholder={t(`label.${kind}`)}
+                            supportingText={t("scenario.official", {
+                                value: formatPercent(
+                                    rates().contributions[kind],
+                                    locale(),
+                                ),
+                            })}
+                            error={valueError(params()[kind])}
+                            {...contributionInputs[kind]}
+                        />
+                    )}
+                </For>
+
+                <Index each={rates().tax}>
+                    {(bracket, index) => {
+                        const taxRateInput = useAmountInput(
+                            () => params().taxRates[index] ?? "",
+                            (value) =>
+                                setParams({
+                                    taxRates: rates().tax.map((_, other) =>
+                                        other === index
+                                            ? value
+                                            : (params().taxRates[other] ?? ""),
+                                    ),
+                                }),
+                        );
+
+                        return (
+                            <Input
+                                label={t("scenario.percent", {
+                                    label:
+                                        rates().tax.length > 1
+                                            ? t("scenario.incomeTaxBracket", {
+                                                  number: index + 1,
+                                              })
+                                            : t("label.incomeTax"),
+                                })}
+                                type="text"
+                                inputMode="decimal"
+                                placeholder={t("label.incomeTax")}
+                                supportingText={t("scenario.official", {
+                                    value: formatPercent(
+                                        bracket().rate,
+                                        locale(),
+                                    ),
+                                })}
+                                error={valueError(
+                                    params().taxRates[index] ?? "",
+                                )}
+                                {...taxRateInput}
+                            />
+                        );
+                    }}
+                </Index>
+
+                <Input
+                    label={t("scenario.allowance")}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={t("scenario.allowancePlaceholder")}
+                    supportingText={t("scenario.official", {
+                        value: formatMkd(rates().allowance),
+                    })}
+                    error={valueError(params().allowance)}
+                    {...allowanceInput}
+                />
+
+                <div class="flex gap-2">
+                    <Button
+                        variant="text"
+                        onClick={() =>
+                            setParams({
+                                pensionAndDisability: "",
+                                healthInsurance: "",
+                                unemploymentInsurance: "",
+                                additionalHealthInsurance: "",
+                                taxRates: [],
+                                allowance: "",
+                            })
+                        }
+                    >
+                        {t("scenario.reset")}
+                    </Button>
+                    <Button onClick={share}>
+                        {copied()
+                            ? t("scenario.linkCopied")
+                            : t("scenario.copyLink")}
+                    </Button>
+                </div>
+
+                <Show when={uncopiedLink()}>
+                    {(link) => (
+                        <Input
+                            label={t("scenario.link")}
+                            type="text"
+                            readOnly
+                            supportingText={t("scenario.copyLinkFailed")}
+                            value={link()}
+                            onFocus={(e) => e.currentTarget.select()}
+                        />
+                    )}
+                </Show>
+            </section>
+
+            <br />
+
+            <Show when={result()?.problems}>
+                {(problems) => (
+                    <section class="mx-auto max-w-2xl text-error" role="alert">
+                        <p class="font-semibold">{t("scenario.problems")}</p>
+                        <ul class="list-disc pl-6">
+                            <For each={problems()}>
+                                {(problem) => <li>{problem}</li>}
+                            </For>
+                        </ul>
+                    </section>
+                )}
+            </Show>
+
+            <Show when={result()?.comparison}>
+                {(comparison) => (
+                    <section class="overflow-x-auto">
+                        <table class="mx-auto">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    <th class="px-2 text-right">
+                                        {t("scenario.officialYear", {
+                                            year: params().year,
+                                        })}
+                                    </th>
+                                    <th class="px-2 text-right">
+                                        {t("scenario.scenario")}
+                                    </th>
+                                    <th class="px-2 text-right">
+                                        {t("scenario.change")}
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <For each={LINES}>
+                                    {(line) => (
+                                        <tr>
+                                            <th class="px-2 text-left">
+                                                {t(line.label)}
+                                            </th>
+                                            <td class="px-2 text-right">
+                                                {formatMkd(
+                                                    line.value(
+                                                        comparison().official,
+                                                    ),
+                                                )}
+                                            </td>
+                                            <td class="px-2 text-right">
+                                                {formatMkd(
+                                                    line.value(
+                                                        comparison().scenario,
+                                                    ),
+                                                )}
+                                            </td>
+                                            <td class="px-2 text-right">
+                                                {formatMkdDelta(
+                                                    line.delta(comparison()),
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+            </Show>
+        </main>
+    );
+}